@@ -1,15 +1,24 @@
-import { Component } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
+import { Component, inject } from '@angular/core';
+import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatIconModule } from '@angular/material/icon';
 
+import { NetworkStatusService } from './core/services/network-status.service';
+import { ThemeService } from './core/services/theme.service';
+import { TranslatePipe } from './core/i18n/i18n.pipes';
+import { SettingsMenuComponent } from './core/components/settings-menu.component';
+
 @Component({
   selector: 'app-root',
   standalone: true,
   imports: [
     RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
     MatToolbarModule,
-    MatIconModule
+    MatIconModule,
+    TranslatePipe,
+    SettingsMenuComponent
   ],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
@@ -17,4 +26,7 @@ import { MatIconModule } from '@angular/material/icon';
 export class AppComponent {
   title = 'Rick & Morty Directory';
   currentYear = new Date().getFullYear();
+  online = inject(NetworkStatusService).online;
+  // El tema guardado se aplica desde el arranque, antes de cargar su menú
+  private readonly theme = inject(ThemeService);
 }
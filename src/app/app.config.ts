@@ -1,15 +1,31 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, inject, isDevMode, provideAppInitializer, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient, withFetch } from '@angular/common/http';
+import { provideHttpClient, withFetch, withInterceptorsFromDi } from '@angular/common/http';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
+import { provideServiceWorker } from '@angular/service-worker';
 
 import { routes } from './app.routes';
+import { provideResponseCache } from './core/services/response-cache.service';
+import { provideRickMortyDataSource } from './core/services/rick-morty-data-source';
+import { I18nService } from './core/services/i18n.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
-    provideHttpClient(withFetch()),
-    provideAnimationsAsync()
+    // provideMockBackend() (de core/interceptors) responde con fixtures locales;
+    // provideApiBaseUrl(url) apunta la app a otra instancia de la API
+    provideHttpClient(withFetch(), withInterceptorsFromDi()),
+    provideResponseCache({ ttlMs: 10 * 60 * 1000, storage: 'session' }),
+    // 'graphql' usa https://rickandmortyapi.com/graphql (o la URL indicada en `url`)
+    provideRickMortyDataSource({ type: 'rest' }),
+    provideAnimationsAsync(),
+    // Carga el catálogo del idioma guardado antes de pintar la aplicación
+    provideAppInitializer(() => inject(I18nService).ready),
+    // Estrategias de caché del app shell, la API y los avatares en ngsw-config.json
+    provideServiceWorker('ngsw-worker.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000'
+    })
   ]
 };
@@ -10,6 +10,34 @@ export const routes: Routes = [
     path: 'characters',
     loadComponent: () => import('./features/characters/components/characters-table.component').then(m => m.CharactersTableComponent)
   },
+  {
+    path: 'characters/:id',
+    loadComponent: () => import('./features/characters/components/character-detail.component').then(m => m.CharacterDetailComponent)
+  },
+  {
+    path: 'compare',
+    loadComponent: () => import('./features/characters/components/character-compare.component').then(m => m.CharacterCompareComponent)
+  },
+  {
+    path: 'graph',
+    loadComponent: () => import('./features/graph/components/co-appearance-graph.component').then(m => m.CoAppearanceGraphComponent)
+  },
+  {
+    path: 'stats',
+    loadComponent: () => import('./features/stats/components/stats-dashboard.component').then(m => m.StatsDashboardComponent)
+  },
+  {
+    path: 'episodes',
+    loadComponent: () => import('./features/episodes/components/episodes-list.component').then(m => m.EpisodesListComponent)
+  },
+  {
+    path: 'locations',
+    loadComponent: () => import('./features/locations/components/locations-list.component').then(m => m.LocationsListComponent)
+  },
+  {
+    path: 'favorites',
+    loadComponent: () => import('./features/favorites/components/favorites-list.component').then(m => m.FavoritesListComponent)
+  },
   {
     path: '**',
     redirectTo: 'characters'
@@ -0,0 +1,37 @@
+import { Component, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+
+import { I18nService } from '../services/i18n.service';
+import { ThemeService } from '../services/theme.service';
+import { APP_LOCALES } from '../models/i18n.model';
+import { THEME_PREFERENCES, ThemePreference } from '../models/theme.model';
+import { TranslatePipe } from '../i18n/i18n.pipes';
+import { LOCALE_KEYS, THEME_KEYS } from '../i18n/message-keys';
+
+/**
+ * Menús de tema e idioma de la barra superior. Se cargan de forma diferida
+ * para no incluir los menús (y el overlay del CDK) en el bundle inicial.
+ */
+@Component({
+  selector: 'app-settings-menu',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, TranslatePipe],
+  templateUrl: './settings-menu.component.html'
+})
+export class SettingsMenuComponent {
+  readonly i18n = inject(I18nService);
+  readonly theme = inject(ThemeService);
+  readonly locales = APP_LOCALES;
+  readonly themePreferences = THEME_PREFERENCES;
+  readonly localeKeys = LOCALE_KEYS;
+  readonly themeKeys = THEME_KEYS;
+
+  readonly themeIcons: Record<ThemePreference, string> = {
+    system: 'brightness_auto',
+    light: 'light_mode',
+    dark: 'dark_mode',
+    'high-contrast': 'contrast'
+  };
+}
@@ -0,0 +1,55 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+
+import { I18nService } from '../services/i18n.service';
+import { MessageParams } from '../models/i18n.model';
+import { MessageKey } from './messages.en';
+
+// Los pipes son impuros para volver a evaluarse al cambiar de idioma sin cambiar sus argumentos
+
+/**
+ * Traduce una clave de mensaje: `{{ 'characters.found' | t:{ count: total } }}`
+ */
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(key: MessageKey, params?: MessageParams): string {
+    return this.i18n.t(key, params);
+  }
+}
+
+/**
+ * Equivalente a `date` con el idioma elegido en la aplicación
+ */
+@Pipe({
+  name: 'localizedDate',
+  standalone: true,
+  pure: false
+})
+export class LocalizedDatePipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(value: string | number | Date | null | undefined, format?: string): string {
+    return value === null || value === undefined || value === '' ? '' : this.i18n.formatDate(value, format);
+  }
+}
+
+/**
+ * Equivalente a `number` con el idioma elegido en la aplicación
+ */
+@Pipe({
+  name: 'localizedNumber',
+  standalone: true,
+  pure: false
+})
+export class LocalizedNumberPipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(value: number | null | undefined, digitsInfo?: string): string {
+    return value === null || value === undefined ? '' : this.i18n.formatNumber(value, digitsInfo);
+  }
+}
@@ -0,0 +1,32 @@
+import { CharacterGender, CharacterStatus } from '../models/character.model';
+import { AppLocale } from '../models/i18n.model';
+import { ThemePreference } from '../models/theme.model';
+import { MessageKey } from './messages.en';
+
+// Claves de los valores que se traducen desde las plantillas, p. ej.
+// `{{ statusKeys[character.status] | t }}`: el pipe `t` solo acepta claves existentes
+
+export const STATUS_KEYS: Record<CharacterStatus, MessageKey> = {
+  Alive: 'status.Alive',
+  Dead: 'status.Dead',
+  unknown: 'status.unknown'
+};
+
+export const GENDER_KEYS: Record<CharacterGender, MessageKey> = {
+  Female: 'gender.Female',
+  Male: 'gender.Male',
+  Genderless: 'gender.Genderless',
+  unknown: 'gender.unknown'
+};
+
+export const THEME_KEYS: Record<ThemePreference, MessageKey> = {
+  system: 'theme.system',
+  light: 'theme.light',
+  dark: 'theme.dark',
+  'high-contrast': 'theme.high-contrast'
+};
+
+export const LOCALE_KEYS: Record<AppLocale, MessageKey> = {
+  en: 'locale.en',
+  es: 'locale.es'
+};
@@ -0,0 +1,309 @@
+import { Message } from '../models/i18n.model';
+
+/**
+ * Textos en inglés. Es el catálogo de referencia: define las claves que deben
+ * tener los demás idiomas y se usa cuando a una traducción le falta un mensaje.
+ */
+export const EN_MESSAGES = {
+  // Aplicación
+  'app.offline': 'Offline · showing saved data',
+  'app.language': 'Language',
+  'app.theme': 'Theme',
+  'app.poweredBy': 'Powered by',
+  'nav.characters': 'Characters',
+  'nav.episodes': 'Episodes',
+  'nav.locations': 'Locations',
+  'nav.favorites': 'Favorites',
+  'nav.graph': 'Graph',
+  'nav.stats': 'Stats',
+  'locale.en': 'English',
+  'locale.es': 'Español',
+
+  'theme.system': 'Follow system',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.high-contrast': 'High contrast',
+
+  // Textos comunes
+  'common.all': 'All',
+  'common.name': 'Name',
+  'common.searchByName': 'Search by name',
+  'common.type': 'Type',
+  'common.dimension': 'Dimension',
+  'common.episodes': 'Episodes',
+  'common.unknown': 'unknown',
+  'common.clearFilters': 'Clear Filters',
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.ok': 'OK',
+  'common.undo': 'Undo',
+  'common.export': 'Export',
+  'common.import': 'Import',
+  'common.backToCharacters': 'Back to characters',
+  'common.browseCharacters': 'Browse characters',
+  'common.somethingWentWrong': 'Something went wrong',
+  'common.characterNotFound': 'Character not found',
+  'common.noCharactersFound': 'No characters found',
+  'common.tryAdjustingFilters': 'Try adjusting your filters',
+  'common.loadingCharacters': 'Loading characters...',
+  'common.loadingEpisodes': 'Loading episodes...',
+  'common.charactersLoadError': 'The characters could not be loaded. Please try again.',
+  'common.addToFavorites': 'Add to favorites',
+  'common.removeFromFavorites': 'Remove from favorites',
+
+  // Valores de estado y género de la API
+  'status.Alive': 'Alive',
+  'status.Dead': 'Dead',
+  'status.unknown': 'unknown',
+  'gender.Female': 'Female',
+  'gender.Male': 'Male',
+  'gender.Genderless': 'Genderless',
+  'gender.unknown': 'unknown',
+
+  // Columnas de la tabla de personajes
+  'columns.favorite': 'Favorite',
+  'columns.image': 'Image',
+  'columns.id': 'ID',
+  'columns.name': 'Name',
+  'columns.status': 'Status',
+  'columns.species': 'Species',
+  'columns.type': 'Type',
+  'columns.gender': 'Gender',
+  'columns.origin': 'Origin',
+  'columns.location': 'Last Location',
+  'columns.created': 'Created',
+  'columns.episode': 'Number of Episodes',
+  'columns.firstAppearance': 'First Appearance',
+  'columns.lastAppearance': 'Last Appearance',
+  'columnChooser.button': 'Columns',
+  'columnChooser.ariaLabel': 'Choose columns',
+  'columnChooser.hint': 'Drag to reorder',
+  'columnChooser.reset': 'Reset to default',
+
+  // Listado de personajes
+  'characters.title': 'Rick and Morty Characters',
+  'characters.query.label': 'Advanced search',
+  'characters.query.hint': 'Fields: name, status, species, type, gender, origin, location, episodes, created. Prefix with - to exclude.',
+  'characters.minEpisodes': 'Min. episodes',
+  'characters.maxEpisodes': 'Max. episodes',
+  'characters.wholeNumber': 'Enter a whole number',
+  'characters.createdFrom': 'Created From',
+  'characters.createdTo': 'Created To',
+  'characters.startDate': 'Start date',
+  'characters.endDate': 'End date',
+  'characters.found': { one: 'character found', other: 'characters found' },
+  'characters.estimate': '(estimate)',
+  'characters.estimateHint': 'Estimated from the pages checked so far',
+  'characters.refresh': 'Refresh results',
+  'characters.compare': 'Compare ({count}/{max})',
+  'characters.compareColumn': 'Compare',
+  'characters.selectAtLeastTwo': 'Select at least 2 characters',
+  'characters.selectToCompare': 'Select {name} to compare',
+  'characters.clearSelection': 'Clear selection',
+  'characters.offlineResults': 'Offline: searching only characters already loaded on this device',
+  'characters.shortcuts': 'Keyboard shortcuts',
+  'characters.shortcutsHint': 'Keyboard shortcuts (?)',
+  'characters.sortedBy': 'Sorted by',
+  'characters.thenBy': ', then',
+  'characters.clearSorting': 'Clear sorting',
+  'characters.sortBy': 'Sort by',
+  'characters.defaultOrder': 'Default order',
+  'characters.toggleSortDirection': 'Toggle sort direction',
+  'characters.loadingToSort': 'Loading all matching characters to sort them ({loaded} of {total} pages)...',
+  'characters.loadingMore': 'Loading more characters...',
+  'characters.showTimeline': 'Show episode timeline of {name}',
+  'characters.hideTimeline': 'Hide episode timeline of {name}',
+  'characters.card.location': 'Location',
+  'characters.offline.title': 'You are offline',
+  'characters.offline.message': 'Check your connection. We will try again when you are back online.',
+  'characters.serverError': 'Server error',
+  'characters.loadMoreOffline': 'You are offline.',
+  'characters.loadMoreError': 'More characters could not be loaded.',
+  'characters.announce.filtersCleared': 'Filters cleared',
+  'characters.announce.found': { one: '{count} character found', other: '{count} characters found' },
+  'characters.announce.foundEstimate': { one: 'About {count} character found', other: 'About {count} characters found' },
+  'characters.announce.loadingMore': 'Loading more characters',
+  'characters.announce.loaded': { one: '{count} character loaded', other: '{count} characters loaded' },
+  'characters.announce.favoriteAdded': '{name} added to favorites',
+  'characters.announce.favoriteRemoved': '{name} removed from favorites',
+  'characters.announce.selected': '{name} selected for comparison',
+  'characters.announce.deselected': '{name} deselected for comparison',
+  'characters.announce.offline': 'You are offline. Characters could not be loaded.',
+  'characters.announce.error': 'Characters could not be loaded. Please try again.',
+
+  // Búsqueda avanzada
+  'query.error.unclosedQuote': 'Missing closing quote (")',
+  'query.error.emptyTerm': 'Empty search term',
+  'query.error.unknownField': 'Unknown field "{field}". Use one of: {fields}',
+  'query.error.missingValue': 'Missing value after "{field}:"',
+  'query.error.invalidStatus': 'Invalid status "{value}". Use one of: {values}',
+  'query.error.invalidGender': 'Invalid gender "{value}". Use one of: {values}',
+  'query.error.invalidEpisodes': 'Invalid episode count "{value}". Use a number, a comparison like >10 or a range like 2..5',
+  'query.error.invalidDate': 'Invalid date "{value}". Use YYYY, YYYY-MM or YYYY-MM-DD, a comparison like >2017-11 or a range like 2017-11..2017-12',
+  'query.error.emptyRange': 'Invalid range "{value}": the start is after the end',
+
+  // Búsquedas guardadas
+  'savedSearch.menu': 'Saved searches',
+  'savedSearch.saveCurrent': 'Save current search',
+  'savedSearch.copyLink': 'Copy share link',
+  'savedSearch.rename': 'Rename',
+  'savedSearch.delete': 'Delete',
+  'savedSearch.empty': 'No saved searches yet',
+  'savedSearch.saveTitle': 'Save search',
+  'savedSearch.renameTitle': 'Rename search',
+  'savedSearch.namePlaceholder': 'Dead Ricks, Aliens from 2017...',
+  'savedSearch.replaceHint': 'This will replace the saved search with the same name',
+  'savedSearch.nameTaken': 'Another saved search already uses this name',
+  'savedSearch.saved': 'Saved search "{name}"',
+  'savedSearch.deleted': 'Deleted "{name}"',
+  'savedSearch.duplicate': 'A saved search with that name already exists',
+  'savedSearch.linkCopied': 'Link copied to clipboard',
+  'savedSearch.linkNotCopied': 'Could not copy the link',
+
+  // Exportación
+  'export.title': 'Export characters',
+  'export.format': 'Format',
+  'export.characters': 'Characters',
+  'export.scope.loaded': 'Loaded rows ({count})',
+  'export.scope.all': 'All pages matching the current filters',
+  'export.scope.favorites': 'Favorites only ({count})',
+  'export.columns': 'Columns',
+  'export.progress': 'Loading page {loaded} of {total}...',
+  'export.error': 'Could not load all the characters. Please try again.',
+  'export.sheetName': 'Characters',
+  'export.column.id': 'ID',
+  'export.column.name': 'Name',
+  'export.column.status': 'Status',
+  'export.column.species': 'Species',
+  'export.column.type': 'Type',
+  'export.column.gender': 'Gender',
+  'export.column.origin': 'Origin',
+  'export.column.location': 'Location',
+  'export.column.created': 'Created',
+  'export.column.episodes': 'Number of Episodes',
+  'export.column.image': 'Image',
+  'export.column.url': 'URL',
+
+  // Línea temporal de episodios
+  'timeline.title': 'Episode timeline',
+  'timeline.error': 'The episode timeline could not be loaded.',
+  'timeline.firstAppearance': 'First appearance',
+  'timeline.lastAppearance': 'Last appearance',
+  'timeline.longestGap': 'Longest gap',
+  'timeline.gapEpisodes': { one: '{count} episode', other: '{count} episodes' },
+  'timeline.ariaLabel': 'Episode appearances of {name}',
+  'timeline.season': 'Season',
+  'timeline.seasonShort': 'S{season}',
+  'timeline.appearances': 'Appearances',
+  'timeline.notInEpisode': 'not in this episode',
+
+  // Detalle de personaje
+  'detail.loading': 'Loading character...',
+  'detail.notFound': 'The character you are looking for does not exist.',
+  'detail.error': 'The character could not be loaded. Please try again.',
+  'detail.whoAppearsWith': 'Who appears with {name}?',
+  'detail.noInfo': 'No further information available',
+  'detail.episodes': 'Episodes ({count})',
+  'detail.episodesError': 'Episode details could not be loaded.',
+
+  // Comparación
+  'compare.nothingTitle': 'Nothing to compare',
+  'compare.nothingMessage': 'Select between 2 and {max} characters in the table to compare them side by side.',
+  'compare.remove': 'Remove {name} from comparison',
+  'compare.removeHint': 'Remove from comparison',
+  'compare.differs': 'Values differ',
+  'compare.lastKnownLocation': 'Last known location',
+  'compare.sharedEpisodes': 'Shared episodes ({count})',
+  'compare.sharedError': 'The shared episodes could not be loaded.',
+  'compare.noShared': 'These characters never appear in the same episode.',
+
+  // Favoritos
+  'favorites.title': 'Favorite Characters',
+  'favorites.count': { one: 'favorite', other: 'favorites' },
+  'favorites.emptyTitle': 'No favorites yet',
+  'favorites.emptyMessage': 'Mark characters with the heart icon to see them here',
+  'favorites.loadError': 'Some favorites could not be loaded.',
+  'favorites.loading': 'Loading favorites...',
+  'favorites.imported': { one: '{count} favorite imported', other: '{count} favorites imported' },
+  'favorites.importError': 'The file could not be imported',
+
+  // Episodios
+  'episodes.title': 'Rick and Morty Episodes',
+  'episodes.code': 'Episode code',
+  'episodes.found': { one: 'episode found', other: 'episodes found' },
+  'episodes.season': 'Season {season}',
+  'episodes.other': 'Other episodes',
+  'episodes.characters': { one: '{count} character', other: '{count} characters' },
+  'episodes.loadingMore': 'Loading more episodes...',
+  'episodes.empty': 'No episodes found',
+  'episodes.loadError': 'The episodes could not be loaded. Please try again.',
+  'episodes.loadMoreError': 'More episodes could not be loaded.',
+
+  // Ubicaciones
+  'locations.title': 'Rick and Morty Locations',
+  'locations.found': { one: 'location found', other: 'locations found' },
+  'locations.loading': 'Loading locations...',
+  'locations.residents': { one: '{count} resident', other: '{count} residents' },
+  'locations.noResidents': 'Nobody is known to live here.',
+  'locations.showMore': 'Show more residents ({loaded} of {total})',
+  'locations.loadingMore': 'Loading more locations...',
+  'locations.empty': 'No locations found',
+  'locations.loadError': 'The locations could not be loaded. Please try again.',
+  'locations.loadMoreError': 'More locations could not be loaded.',
+
+  // Grafo de coapariciones
+  'graph.title': 'Co-appearance graph',
+  'graph.subtitle': 'Characters who share episodes with',
+  'graph.depth': 'Depth',
+  'graph.levels': { one: '{count} level', other: '{count} levels' },
+  'graph.minShared': 'Minimum shared episodes',
+  'graph.zoomOut': 'Zoom out',
+  'graph.zoomIn': 'Zoom in',
+  'graph.resetView': 'Reset view',
+  'graph.loading': 'Building the graph...',
+  'graph.notFound': 'The character at the centre of the graph does not exist.',
+  'graph.startFromRick': 'Start from Rick Sanchez',
+  'graph.error': 'The graph could not be built. Please try again.',
+  'graph.characters': { one: '{count} character', other: '{count} characters' },
+  'graph.connections': { one: '{count} connection.', other: '{count} connections.' },
+  'graph.truncated': 'Only the strongest connections are shown.',
+  'graph.help': 'Click a character to centre the graph on it; drag or scroll to move and zoom.',
+  'graph.ariaLabel': 'Co-appearance graph of {name}',
+  'graph.sharedEpisodes': { one: '{count} shared episode', other: '{count} shared episodes' },
+  'graph.sharedWith': '{count} shared with {name}',
+
+  // Estadísticas
+  'stats.title': 'Character statistics',
+  'stats.subtitle': 'Computed over every character that matches the filters. Click a chart segment to list those characters.',
+  'stats.loadingAll': 'Loading all matching characters ({loaded} of {total} pages)...',
+  'stats.error': 'The statistics could not be computed. Please try again.',
+  'stats.byStatus': 'Characters by status',
+  'stats.byGender': 'Characters by gender',
+  'stats.speciesTop': 'Species (top {count})',
+  'stats.bySpecies': 'Characters by species',
+  'stats.originTop': 'Origin dimension (top {count})',
+  'stats.byOrigin': 'Characters by origin dimension',
+  'stats.originError': 'The origin locations could not be loaded.',
+  'stats.createdPerMonth': 'Characters created per month',
+  'stats.episodesPerCharacter': 'Number of episodes per character',
+  'stats.byEpisodes': 'Characters by number of episodes',
+  'stats.other': 'Other',
+  'stats.total': { one: 'character', other: 'characters' },
+
+  // Atajos de teclado
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.focusSearch': 'Focus the search box',
+  'shortcuts.moveRows': 'Move between characters',
+  'shortcuts.moveCards': 'Move between cards (mobile view)',
+  'shortcuts.firstLast': 'Go to the first or last loaded character',
+  'shortcuts.openDetails': 'Open character details',
+  'shortcuts.favorite': 'Add to or remove from favorites',
+  'shortcuts.compare': 'Select for comparison',
+  'shortcuts.timeline': 'Show or hide the episode timeline',
+  'shortcuts.clearFilters': 'Clear filters',
+  'shortcuts.help': 'Show keyboard shortcuts'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
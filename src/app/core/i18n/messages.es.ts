@@ -0,0 +1,304 @@
+import { Message } from '../models/i18n.model';
+import { MessageKey } from './messages.en';
+
+export const ES_MESSAGES: Record<MessageKey, Message> = {
+  // Aplicación
+  'app.offline': 'Sin conexión · mostrando datos guardados',
+  'app.language': 'Idioma',
+  'app.theme': 'Tema',
+  'app.poweredBy': 'Datos de',
+  'nav.characters': 'Personajes',
+  'nav.episodes': 'Episodios',
+  'nav.locations': 'Ubicaciones',
+  'nav.favorites': 'Favoritos',
+  'nav.graph': 'Grafo',
+  'nav.stats': 'Estadísticas',
+  'locale.en': 'English',
+  'locale.es': 'Español',
+
+  'theme.system': 'Según el sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.high-contrast': 'Alto contraste',
+
+  // Textos comunes
+  'common.all': 'Todos',
+  'common.name': 'Nombre',
+  'common.searchByName': 'Buscar por nombre',
+  'common.type': 'Tipo',
+  'common.dimension': 'Dimensión',
+  'common.episodes': 'Episodios',
+  'common.unknown': 'desconocido',
+  'common.clearFilters': 'Borrar filtros',
+  'common.retry': 'Reintentar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.save': 'Guardar',
+  'common.ok': 'OK',
+  'common.undo': 'Deshacer',
+  'common.export': 'Exportar',
+  'common.import': 'Importar',
+  'common.backToCharacters': 'Volver a personajes',
+  'common.browseCharacters': 'Ver personajes',
+  'common.somethingWentWrong': 'Algo ha ido mal',
+  'common.characterNotFound': 'Personaje no encontrado',
+  'common.noCharactersFound': 'No se han encontrado personajes',
+  'common.tryAdjustingFilters': 'Prueba a cambiar los filtros',
+  'common.loadingCharacters': 'Cargando personajes...',
+  'common.loadingEpisodes': 'Cargando episodios...',
+  'common.charactersLoadError': 'No se han podido cargar los personajes. Inténtalo de nuevo.',
+  'common.addToFavorites': 'Añadir a favoritos',
+  'common.removeFromFavorites': 'Quitar de favoritos',
+
+  // Valores de estado y género de la API
+  'status.Alive': 'Vivo',
+  'status.Dead': 'Muerto',
+  'status.unknown': 'desconocido',
+  'gender.Female': 'Femenino',
+  'gender.Male': 'Masculino',
+  'gender.Genderless': 'Sin género',
+  'gender.unknown': 'desconocido',
+
+  // Columnas de la tabla de personajes
+  'columns.favorite': 'Favorito',
+  'columns.image': 'Imagen',
+  'columns.id': 'ID',
+  'columns.name': 'Nombre',
+  'columns.status': 'Estado',
+  'columns.species': 'Especie',
+  'columns.type': 'Tipo',
+  'columns.gender': 'Género',
+  'columns.origin': 'Origen',
+  'columns.location': 'Última ubicación',
+  'columns.created': 'Creado',
+  'columns.episode': 'Número de episodios',
+  'columns.firstAppearance': 'Primera aparición',
+  'columns.lastAppearance': 'Última aparición',
+  'columnChooser.button': 'Columnas',
+  'columnChooser.ariaLabel': 'Elegir columnas',
+  'columnChooser.hint': 'Arrastra para reordenar',
+  'columnChooser.reset': 'Restablecer',
+
+  // Listado de personajes
+  'characters.title': 'Personajes de Rick y Morty',
+  'characters.query.label': 'Búsqueda avanzada',
+  'characters.query.hint': 'Campos: name, status, species, type, gender, origin, location, episodes, created. Antepón - para excluir.',
+  'characters.minEpisodes': 'Mín. episodios',
+  'characters.maxEpisodes': 'Máx. episodios',
+  'characters.wholeNumber': 'Introduce un número entero',
+  'characters.createdFrom': 'Creado desde',
+  'characters.createdTo': 'Creado hasta',
+  'characters.startDate': 'Fecha de inicio',
+  'characters.endDate': 'Fecha de fin',
+  'characters.found': { one: 'personaje encontrado', other: 'personajes encontrados' },
+  'characters.estimate': '(estimación)',
+  'characters.estimateHint': 'Estimado a partir de las páginas consultadas hasta ahora',
+  'characters.refresh': 'Actualizar resultados',
+  'characters.compare': 'Comparar ({count}/{max})',
+  'characters.compareColumn': 'Comparar',
+  'characters.selectAtLeastTwo': 'Selecciona al menos 2 personajes',
+  'characters.selectToCompare': 'Seleccionar a {name} para comparar',
+  'characters.clearSelection': 'Quitar selección',
+  'characters.offlineResults': 'Sin conexión: solo se buscan los personajes ya cargados en este dispositivo',
+  'characters.shortcuts': 'Atajos de teclado',
+  'characters.shortcutsHint': 'Atajos de teclado (?)',
+  'characters.sortedBy': 'Ordenado por',
+  'characters.thenBy': ', después',
+  'characters.clearSorting': 'Quitar orden',
+  'characters.sortBy': 'Ordenar por',
+  'characters.defaultOrder': 'Orden por defecto',
+  'characters.toggleSortDirection': 'Invertir orden',
+  'characters.loadingToSort': 'Cargando todos los personajes que coinciden para ordenarlos ({loaded} de {total} páginas)...',
+  'characters.loadingMore': 'Cargando más personajes...',
+  'characters.showTimeline': 'Mostrar la línea temporal de episodios de {name}',
+  'characters.hideTimeline': 'Ocultar la línea temporal de episodios de {name}',
+  'characters.card.location': 'Ubicación',
+  'characters.offline.title': 'Sin conexión',
+  'characters.offline.message': 'Comprueba tu conexión. Volveremos a intentarlo cuando vuelvas a estar en línea.',
+  'characters.serverError': 'Error del servidor',
+  'characters.loadMoreOffline': 'Sin conexión.',
+  'characters.loadMoreError': 'No se han podido cargar más personajes.',
+  'characters.announce.filtersCleared': 'Filtros borrados',
+  'characters.announce.found': { one: '{count} personaje encontrado', other: '{count} personajes encontrados' },
+  'characters.announce.foundEstimate': { one: 'Aproximadamente {count} personaje encontrado', other: 'Aproximadamente {count} personajes encontrados' },
+  'characters.announce.loadingMore': 'Cargando más personajes',
+  'characters.announce.loaded': { one: '{count} personaje cargado', other: '{count} personajes cargados' },
+  'characters.announce.favoriteAdded': '{name} añadido a favoritos',
+  'characters.announce.favoriteRemoved': '{name} quitado de favoritos',
+  'characters.announce.selected': '{name} seleccionado para comparar',
+  'characters.announce.deselected': '{name} ya no está seleccionado para comparar',
+  'characters.announce.offline': 'Sin conexión. No se han podido cargar los personajes.',
+  'characters.announce.error': 'No se han podido cargar los personajes. Inténtalo de nuevo.',
+
+  // Búsqueda avanzada
+  'query.error.unclosedQuote': 'Faltan las comillas de cierre (")',
+  'query.error.emptyTerm': 'Término de búsqueda vacío',
+  'query.error.unknownField': 'Campo "{field}" desconocido. Usa uno de: {fields}',
+  'query.error.missingValue': 'Falta el valor después de "{field}:"',
+  'query.error.invalidStatus': 'Estado "{value}" no válido. Usa uno de: {values}',
+  'query.error.invalidGender': 'Género "{value}" no válido. Usa uno de: {values}',
+  'query.error.invalidEpisodes': 'Número de episodios "{value}" no válido. Usa un número, una comparación como >10 o un rango como 2..5',
+  'query.error.invalidDate': 'Fecha "{value}" no válida. Usa AAAA, AAAA-MM o AAAA-MM-DD, una comparación como >2017-11 o un rango como 2017-11..2017-12',
+  'query.error.emptyRange': 'Rango "{value}" no válido: el inicio es posterior al final',
+
+  // Búsquedas guardadas
+  'savedSearch.menu': 'Búsquedas guardadas',
+  'savedSearch.saveCurrent': 'Guardar la búsqueda actual',
+  'savedSearch.copyLink': 'Copiar enlace para compartir',
+  'savedSearch.rename': 'Renombrar',
+  'savedSearch.delete': 'Eliminar',
+  'savedSearch.empty': 'Aún no hay búsquedas guardadas',
+  'savedSearch.saveTitle': 'Guardar búsqueda',
+  'savedSearch.renameTitle': 'Renombrar búsqueda',
+  'savedSearch.namePlaceholder': 'Ricks muertos, alienígenas de 2017...',
+  'savedSearch.replaceHint': 'Se reemplazará la búsqueda guardada con el mismo nombre',
+  'savedSearch.nameTaken': 'Otra búsqueda guardada ya usa este nombre',
+  'savedSearch.saved': 'Búsqueda "{name}" guardada',
+  'savedSearch.deleted': '"{name}" eliminada',
+  'savedSearch.duplicate': 'Ya existe una búsqueda guardada con ese nombre',
+  'savedSearch.linkCopied': 'Enlace copiado al portapapeles',
+  'savedSearch.linkNotCopied': 'No se ha podido copiar el enlace',
+
+  // Exportación
+  'export.title': 'Exportar personajes',
+  'export.format': 'Formato',
+  'export.characters': 'Personajes',
+  'export.scope.loaded': 'Filas cargadas ({count})',
+  'export.scope.all': 'Todas las páginas que coinciden con los filtros',
+  'export.scope.favorites': 'Solo favoritos ({count})',
+  'export.columns': 'Columnas',
+  'export.progress': 'Cargando página {loaded} de {total}...',
+  'export.error': 'No se han podido cargar todos los personajes. Inténtalo de nuevo.',
+  'export.sheetName': 'Personajes',
+  'export.column.id': 'ID',
+  'export.column.name': 'Nombre',
+  'export.column.status': 'Estado',
+  'export.column.species': 'Especie',
+  'export.column.type': 'Tipo',
+  'export.column.gender': 'Género',
+  'export.column.origin': 'Origen',
+  'export.column.location': 'Ubicación',
+  'export.column.created': 'Creado',
+  'export.column.episodes': 'Número de episodios',
+  'export.column.image': 'Imagen',
+  'export.column.url': 'URL',
+
+  // Línea temporal de episodios
+  'timeline.title': 'Línea temporal de episodios',
+  'timeline.error': 'No se ha podido cargar la línea temporal de episodios.',
+  'timeline.firstAppearance': 'Primera aparición',
+  'timeline.lastAppearance': 'Última aparición',
+  'timeline.longestGap': 'Mayor ausencia',
+  'timeline.gapEpisodes': { one: '{count} episodio', other: '{count} episodios' },
+  'timeline.ariaLabel': 'Apariciones en episodios de {name}',
+  'timeline.season': 'Temporada',
+  'timeline.seasonShort': 'T{season}',
+  'timeline.appearances': 'Apariciones',
+  'timeline.notInEpisode': 'no aparece en este episodio',
+
+  // Detalle de personaje
+  'detail.loading': 'Cargando personaje...',
+  'detail.notFound': 'El personaje que buscas no existe.',
+  'detail.error': 'No se ha podido cargar el personaje. Inténtalo de nuevo.',
+  'detail.whoAppearsWith': '¿Quién aparece con {name}?',
+  'detail.noInfo': 'No hay más información disponible',
+  'detail.episodes': 'Episodios ({count})',
+  'detail.episodesError': 'No se han podido cargar los detalles de los episodios.',
+
+  // Comparación
+  'compare.nothingTitle': 'Nada que comparar',
+  'compare.nothingMessage': 'Selecciona entre 2 y {max} personajes en la tabla para compararlos.',
+  'compare.remove': 'Quitar a {name} de la comparación',
+  'compare.removeHint': 'Quitar de la comparación',
+  'compare.differs': 'Los valores son distintos',
+  'compare.lastKnownLocation': 'Última ubicación conocida',
+  'compare.sharedEpisodes': 'Episodios en común ({count})',
+  'compare.sharedError': 'No se han podido cargar los episodios en común.',
+  'compare.noShared': 'Estos personajes nunca aparecen en el mismo episodio.',
+
+  // Favoritos
+  'favorites.title': 'Personajes favoritos',
+  'favorites.count': { one: 'favorito', other: 'favoritos' },
+  'favorites.emptyTitle': 'Aún no hay favoritos',
+  'favorites.emptyMessage': 'Marca personajes con el icono del corazón para verlos aquí',
+  'favorites.loadError': 'No se han podido cargar algunos favoritos.',
+  'favorites.loading': 'Cargando favoritos...',
+  'favorites.imported': { one: '{count} favorito importado', other: '{count} favoritos importados' },
+  'favorites.importError': 'No se ha podido importar el archivo',
+
+  // Episodios
+  'episodes.title': 'Episodios de Rick y Morty',
+  'episodes.code': 'Código del episodio',
+  'episodes.found': { one: 'episodio encontrado', other: 'episodios encontrados' },
+  'episodes.season': 'Temporada {season}',
+  'episodes.other': 'Otros episodios',
+  'episodes.characters': { one: '{count} personaje', other: '{count} personajes' },
+  'episodes.loadingMore': 'Cargando más episodios...',
+  'episodes.empty': 'No se han encontrado episodios',
+  'episodes.loadError': 'No se han podido cargar los episodios. Inténtalo de nuevo.',
+  'episodes.loadMoreError': 'No se han podido cargar más episodios.',
+
+  // Ubicaciones
+  'locations.title': 'Ubicaciones de Rick y Morty',
+  'locations.found': { one: 'ubicación encontrada', other: 'ubicaciones encontradas' },
+  'locations.loading': 'Cargando ubicaciones...',
+  'locations.residents': { one: '{count} residente', other: '{count} residentes' },
+  'locations.noResidents': 'No se conoce a nadie que viva aquí.',
+  'locations.showMore': 'Mostrar más residentes ({loaded} de {total})',
+  'locations.loadingMore': 'Cargando más ubicaciones...',
+  'locations.empty': 'No se han encontrado ubicaciones',
+  'locations.loadError': 'No se han podido cargar las ubicaciones. Inténtalo de nuevo.',
+  'locations.loadMoreError': 'No se han podido cargar más ubicaciones.',
+
+  // Grafo de coapariciones
+  'graph.title': 'Grafo de coapariciones',
+  'graph.subtitle': 'Personajes que comparten episodios con',
+  'graph.depth': 'Profundidad',
+  'graph.levels': { one: '{count} nivel', other: '{count} niveles' },
+  'graph.minShared': 'Mínimo de episodios en común',
+  'graph.zoomOut': 'Alejar',
+  'graph.zoomIn': 'Acercar',
+  'graph.resetView': 'Restablecer vista',
+  'graph.loading': 'Construyendo el grafo...',
+  'graph.notFound': 'El personaje del centro del grafo no existe.',
+  'graph.startFromRick': 'Empezar por Rick Sanchez',
+  'graph.error': 'No se ha podido construir el grafo. Inténtalo de nuevo.',
+  'graph.characters': { one: '{count} personaje', other: '{count} personajes' },
+  'graph.connections': { one: '{count} conexión.', other: '{count} conexiones.' },
+  'graph.truncated': 'Solo se muestran las conexiones más fuertes.',
+  'graph.help': 'Pulsa un personaje para centrar el grafo en él; arrastra o usa la rueda para moverte y hacer zoom.',
+  'graph.ariaLabel': 'Grafo de coapariciones de {name}',
+  'graph.sharedEpisodes': { one: '{count} episodio en común', other: '{count} episodios en común' },
+  'graph.sharedWith': '{count} en común con {name}',
+
+  // Estadísticas
+  'stats.title': 'Estadísticas de personajes',
+  'stats.subtitle': 'Calculadas sobre todos los personajes que coinciden con los filtros. Pulsa un segmento para ver esos personajes.',
+  'stats.loadingAll': 'Cargando todos los personajes que coinciden ({loaded} de {total} páginas)...',
+  'stats.error': 'No se han podido calcular las estadísticas. Inténtalo de nuevo.',
+  'stats.byStatus': 'Personajes por estado',
+  'stats.byGender': 'Personajes por género',
+  'stats.speciesTop': 'Especie (top {count})',
+  'stats.bySpecies': 'Personajes por especie',
+  'stats.originTop': 'Dimensión de origen (top {count})',
+  'stats.byOrigin': 'Personajes por dimensión de origen',
+  'stats.originError': 'No se han podido cargar las ubicaciones de origen.',
+  'stats.createdPerMonth': 'Personajes creados por mes',
+  'stats.episodesPerCharacter': 'Número de episodios por personaje',
+  'stats.byEpisodes': 'Personajes por número de episodios',
+  'stats.other': 'Otros',
+  'stats.total': { one: 'personaje', other: 'personajes' },
+
+  // Atajos de teclado
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.focusSearch': 'Ir al cuadro de búsqueda',
+  'shortcuts.moveRows': 'Moverse entre personajes',
+  'shortcuts.moveCards': 'Moverse entre tarjetas (vista móvil)',
+  'shortcuts.firstLast': 'Ir al primer o al último personaje cargado',
+  'shortcuts.openDetails': 'Abrir el detalle del personaje',
+  'shortcuts.favorite': 'Añadir a favoritos o quitar de favoritos',
+  'shortcuts.compare': 'Seleccionar para comparar',
+  'shortcuts.timeline': 'Mostrar u ocultar la línea temporal de episodios',
+  'shortcuts.clearFilters': 'Borrar filtros',
+  'shortcuts.help': 'Mostrar los atajos de teclado'
+};
@@ -0,0 +1,77 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+
+import { provideMockBackend } from './mock-backend.interceptor';
+import { RickMortyApiService } from '../services/rick-morty-api.service';
+import { provideApiBaseUrl } from '../services/api-base-url';
+import { ApiResponse, Character } from '../models/character.model';
+import { Episode } from '../models/episode.model';
+
+describe('MockBackendInterceptor', () => {
+  let service: RickMortyApiService;
+
+  const BASE_URL = 'https://staging.example.com/api';
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptorsFromDi()),
+        provideApiBaseUrl(BASE_URL),
+        provideMockBackend({ latencyMs: 0 })
+      ]
+    });
+
+    service = TestBed.inject(RickMortyApiService);
+  });
+
+  it('debería paginar de 20 en 20 con las URLs next/prev de la API', () => {
+    let response: ApiResponse<Character> | undefined;
+    service.getCharacters({ page: 2 }).subscribe(r => response = r);
+
+    expect(response?.info).toEqual({
+      count: 44,
+      pages: 3,
+      next: `${BASE_URL}/character?page=3`,
+      prev: `${BASE_URL}/character?page=1`
+    });
+    expect(response?.results.map(character => character.id)).toEqual(Array.from({ length: 20 }, (_, i) => i + 21));
+    expect(response?.results[0].url).toBe(`${BASE_URL}/character/21`);
+  });
+
+  it('debería filtrar como la API real: texto parcial y estado exacto, sin mayúsculas', () => {
+    let byName: ApiResponse<Character> | undefined;
+    let byStatus: ApiResponse<Character> | undefined;
+    service.getCharacters({ name: 'RICK', species: 'human' }).subscribe(r => byName = r);
+    service.getCharacters({ name: 'smith', status: 'Dead' }).subscribe(r => byStatus = r);
+
+    // 'human' también coincide con 'Humanoid'
+    expect(byName?.results.map(character => character.id)).toEqual([1, 8, 19, 22]);
+    expect(byName?.info.next).toBeNull();
+    expect(byStatus?.results).toEqual([]);
+  });
+
+  it('debería filtrar episodios por código parcial', () => {
+    let response: ApiResponse<Episode> | undefined;
+    service.getEpisodes({ episode: 's02' }).subscribe(r => response = r);
+
+    expect(response?.info.count).toBe(10);
+    expect(response?.results[0].episode).toBe('S02E01');
+  });
+
+  it('debería resolver varios IDs y responder 404 a los inexistentes', () => {
+    let characters: Character[] | undefined;
+    let missing: Character | null | undefined;
+    service.getMultipleCharacters([1, 999, 2]).subscribe(c => characters = c);
+    service.getCharacterById(999).subscribe(c => missing = c);
+
+    expect(characters?.map(character => character.name)).toEqual(['Rick Sanchez', 'Morty Smith']);
+    expect(missing).toBeNull();
+  });
+
+  it('debería responder 404 a las páginas fuera de rango', () => {
+    let response: ApiResponse<Character> | undefined;
+    service.getCharacters({ page: 4 }).subscribe(r => response = r);
+
+    expect(response).toEqual({ info: { count: 0, pages: 0, next: null, prev: null }, results: [] });
+  });
+});
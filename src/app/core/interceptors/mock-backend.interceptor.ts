@@ -0,0 +1,190 @@
+import { EnvironmentProviders, Injectable, InjectionToken, inject, makeEnvironmentProviders } from '@angular/core';
+import {
+  HTTP_INTERCEPTORS,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse
+} from '@angular/common/http';
+import { Observable, of, switchMap, throwError, timer } from 'rxjs';
+
+import { ApiResponse } from '../models/character.model';
+import { API_BASE_URL } from '../services/api-base-url';
+import { MockDatabase, createMockDatabase } from '../mocks/mock-database';
+
+export interface MockBackendConfig {
+  /** Retardo simulado de cada respuesta en milisegundos */
+  latencyMs: number;
+}
+
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG');
+
+/**
+ * Activa el backend simulado: las peticiones a la API REST se responden con
+ * fixtures locales, sin red (ver app.config.ts). El interceptor solo se registra
+ * aquí, así que sin esta llamada las fixtures no llegan al bundle.
+ * Requiere `provideHttpClient(withInterceptorsFromDi())`.
+ */
+export function provideMockBackend(config: Partial<MockBackendConfig> = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: MOCK_BACKEND_CONFIG, useValue: { latencyMs: 300, ...config } },
+    { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true }
+  ]);
+}
+
+const PAGE_SIZE = 20;
+
+type MockResource = keyof MockDatabase;
+
+const RESOURCES: Record<string, MockResource> = {
+  character: 'characters',
+  episode: 'episodes',
+  location: 'locations'
+};
+
+// Filtros de la API: los de texto son coincidencias parciales y estado/género exactos,
+// en ambos casos sin distinguir mayúsculas
+const FILTERS: Record<MockResource, Record<string, 'partial' | 'exact'>> = {
+  characters: { name: 'partial', status: 'exact', species: 'partial', type: 'partial', gender: 'exact' },
+  episodes: { name: 'partial', episode: 'partial' },
+  locations: { name: 'partial', type: 'partial', dimension: 'partial' }
+};
+
+const NOT_FOUND_MESSAGES: Record<MockResource, string> = {
+  characters: 'Character not found',
+  episodes: 'Episode not found',
+  locations: 'Location not found'
+};
+
+let database: { baseUrl: string; data: MockDatabase } | null = null;
+
+/**
+ * Interceptor que implementa en memoria la API REST de Rick and Morty: filtros,
+ * paginación con info.next/prev, consulta de varios IDs y respuestas 404.
+ * Las peticiones a otras URLs (p. ej. el backend GraphQL) pasan sin cambios.
+ */
+@Injectable()
+export class MockBackendInterceptor implements HttpInterceptor {
+  private readonly config = inject(MOCK_BACKEND_CONFIG);
+  private readonly baseUrl = inject(API_BASE_URL);
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const baseUrl = this.baseUrl;
+    if (request.method !== 'GET' || !request.url.startsWith(`${baseUrl}/`)) {
+      return next.handle(request);
+    }
+
+    if (database?.baseUrl !== baseUrl) {
+      database = { baseUrl, data: createMockDatabase(baseUrl) };
+    }
+
+    const data = database.data;
+    // El retardo se aplica también a los errores
+    return this.config.latencyMs > 0
+      ? timer(this.config.latencyMs).pipe(switchMap(() => handleRequest(request, baseUrl, data)))
+      : handleRequest(request, baseUrl, data);
+  }
+}
+
+function handleRequest(request: HttpRequest<unknown>, baseUrl: string, data: MockDatabase): Observable<HttpEvent<unknown>> {
+  // La URL base puede ser relativa (p. ej. '/api' detrás de un proxy)
+  const url = new URL(request.urlWithParams, 'http://localhost');
+  const basePath = new URL(baseUrl, 'http://localhost').pathname;
+  const [resourceName, ids, ...rest] = url.pathname.slice(basePath.length).split('/').filter(Boolean);
+  const resource = RESOURCES[resourceName];
+
+  if (!resource || rest.length > 0) {
+    return respondWithError(request, 404, { error: 'There is nothing here' });
+  }
+
+  const items: { id: number }[] = data[resource];
+  return ids === undefined
+    ? listResources(request, url, baseUrl, resourceName, items, FILTERS[resource])
+    : findByIds(request, ids, items, NOT_FOUND_MESSAGES[resource]);
+}
+
+/**
+ * Listado filtrado y paginado de 20 en 20, con las mismas URLs next/prev que la API real
+ */
+function listResources<T extends object>(
+  request: HttpRequest<unknown>,
+  url: URL,
+  baseUrl: string,
+  resourceName: string,
+  items: T[],
+  filters: Record<string, 'partial' | 'exact'>
+): Observable<HttpEvent<unknown>> {
+  const activeFilters = Object.keys(filters)
+    .map(key => [key, url.searchParams.get(key)?.trim().toLowerCase() ?? ''] as const)
+    .filter(([, value]) => value !== '');
+
+  const matches = items.filter(item => activeFilters.every(([key, value]) => {
+    const field = String((item as Record<string, unknown>)[key] ?? '').toLowerCase();
+    return filters[key] === 'exact' ? field === value : field.includes(value);
+  }));
+
+  const pages = Math.ceil(matches.length / PAGE_SIZE);
+  const page = Number(url.searchParams.get('page') ?? 1);
+  if (!Number.isInteger(page) || page < 1 || page > pages) {
+    return respondWithError(request, 404, { error: 'There is nothing here' });
+  }
+
+  const pageUrl = (target: number) => {
+    const params = new URLSearchParams({ page: String(target) });
+    activeFilters.forEach(([key]) => params.set(key, url.searchParams.get(key)!));
+    return `${baseUrl}/${resourceName}?${params.toString()}`;
+  };
+
+  const body: ApiResponse<T> = {
+    info: {
+      count: matches.length,
+      pages,
+      next: page < pages ? pageUrl(page + 1) : null,
+      prev: page > 1 ? pageUrl(page - 1) : null
+    },
+    results: matches.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+  };
+  return respond(request, body);
+}
+
+/**
+ * Un ID devuelve el objeto (o 404); una lista de IDs devuelve un array con los que existen
+ */
+function findByIds<T extends { id: number }>(
+  request: HttpRequest<unknown>,
+  rawIds: string,
+  items: T[],
+  notFoundMessage: string
+): Observable<HttpEvent<unknown>> {
+  const isList = rawIds.includes(',') || rawIds.startsWith('[');
+  const ids = rawIds.replace(/^\[|\]$/g, '').split(',').map(id => id.trim()).filter(Boolean);
+
+  if (ids.length === 0 || ids.some(id => !/^\d+$/.test(id))) {
+    return respondWithError(request, 500, { error: 'Hey! you must provide an id' });
+  }
+
+  const found = ids
+    .map(id => items.find(item => item.id === Number(id)))
+    .filter((item): item is T => item !== undefined);
+
+  if (isList) {
+    return respond(request, found);
+  }
+  return found.length > 0 ? respond(request, found[0]) : respondWithError(request, 404, { error: notFoundMessage });
+}
+
+function respond(request: HttpRequest<unknown>, body: unknown): Observable<HttpEvent<unknown>> {
+  // Copia para que los consumidores no puedan modificar las fixtures
+  return of(new HttpResponse({ status: 200, url: request.urlWithParams, body: structuredClone(body) }));
+}
+
+function respondWithError(request: HttpRequest<unknown>, status: number, error: unknown): Observable<never> {
+  return throwError(() => new HttpErrorResponse({
+    status,
+    statusText: status === 404 ? 'Not Found' : 'Internal Server Error',
+    url: request.urlWithParams,
+    error
+  }));
+}
@@ -0,0 +1,163 @@
+import { Character, CharacterGender, CharacterStatus } from '../models/character.model';
+import { Episode } from '../models/episode.model';
+import { LocationDetail } from '../models/location.model';
+
+/**
+ * Datos de ejemplo del backend simulado: un subconjunto de la API real
+ * (temporadas 1 y 2) con suficientes registros para paginar.
+ */
+export interface MockDatabase {
+  characters: Character[];
+  episodes: Episode[];
+  locations: LocationDetail[];
+}
+
+// [id, nombre, tipo, dimensión]
+type LocationRow = [number, string, string, string];
+
+// [id, nombre, fecha de emisión, código]
+type EpisodeRow = [number, string, string, string];
+
+// [id, nombre, estado, especie, tipo, género, ID de origen, ID de ubicación, IDs de episodios]
+// Un ID de ubicación 0 equivale a "unknown"
+type CharacterRow = [number, string, CharacterStatus, string, string, CharacterGender, number, number, number[]];
+
+const LOCATIONS: LocationRow[] = [
+  [1, 'Earth (C-137)', 'Planet', 'Dimension C-137'],
+  [2, 'Abadango', 'Cluster', 'unknown'],
+  [3, 'Citadel of Ricks', 'Space station', 'unknown'],
+  [4, "Worldender's lair", 'Planet', 'unknown'],
+  [5, 'Anatomy Park', 'Microverse', 'Dimension C-137'],
+  [6, 'Interdimensional Cable', 'TV', 'unknown'],
+  [7, 'Immortality Field Resort', 'Resort', 'unknown'],
+  [8, 'Post-Apocalyptic Earth', 'Planet', 'Post-Apocalyptic Dimension'],
+  [9, 'Purge Planet', 'Planet', 'Replacement Dimension'],
+  [10, 'Venzenulon 7', 'Planet', 'unknown'],
+  [20, 'Earth (Replacement Dimension)', 'Planet', 'Replacement Dimension']
+];
+
+const EPISODES: EpisodeRow[] = [
+  [1, 'Pilot', 'December 2, 2013', 'S01E01'],
+  [2, 'Lawnmower Dog', 'December 9, 2013', 'S01E02'],
+  [3, 'Anatomy Park', 'December 16, 2013', 'S01E03'],
+  [4, 'M. Night Shaym-Aliens!', 'January 13, 2014', 'S01E04'],
+  [5, 'Meeseeks and Destroy', 'January 20, 2014', 'S01E05'],
+  [6, 'Rick Potion #9', 'January 27, 2014', 'S01E06'],
+  [7, 'Raising Gazorpazorp', 'March 10, 2014', 'S01E07'],
+  [8, 'Rixty Minutes', 'March 17, 2014', 'S01E08'],
+  [9, 'Something Ricked This Way Comes', 'March 24, 2014', 'S01E09'],
+  [10, 'Close Rick-counters of the Rick Kind', 'April 7, 2014', 'S01E10'],
+  [11, 'Ricksy Business', 'April 14, 2014', 'S01E11'],
+  [12, 'A Rickle in Time', 'July 26, 2015', 'S02E01'],
+  [13, 'Mortynight Run', 'August 2, 2015', 'S02E02'],
+  [14, 'Auto Erotic Assimilation', 'August 9, 2015', 'S02E03'],
+  [15, 'Total Rickall', 'August 16, 2015', 'S02E04'],
+  [16, 'Get Schwifty', 'August 23, 2015', 'S02E05'],
+  [17, 'The Ricks Must Be Crazy', 'August 30, 2015', 'S02E06'],
+  [18, 'Big Trouble in Little Sanchez', 'September 13, 2015', 'S02E07'],
+  [19, 'Interdimensional Cable 2: Tempting Fate', 'September 20, 2015', 'S02E08'],
+  [20, "Look Who's Purging Now", 'September 27, 2015', 'S02E09'],
+  [21, 'The Wedding Squanchers', 'October 4, 2015', 'S02E10']
+];
+
+const ALL_EPISODES = EPISODES.map(([id]) => id);
+
+const CHARACTERS: CharacterRow[] = [
+  [1, 'Rick Sanchez', 'Alive', 'Human', '', 'Male', 1, 3, ALL_EPISODES],
+  [2, 'Morty Smith', 'Alive', 'Human', '', 'Male', 0, 3, ALL_EPISODES],
+  [3, 'Summer Smith', 'Alive', 'Human', '', 'Female', 20, 20, [6, 7, 8, 9, 10, 11, 12, 14, 15, 16, 17, 19, 20, 21]],
+  [4, 'Beth Smith', 'Alive', 'Human', '', 'Female', 20, 20, [6, 7, 8, 9, 10, 11, 12, 14, 15, 16, 18, 19, 20, 21]],
+  [5, 'Jerry Smith', 'Alive', 'Human', '', 'Male', 20, 20, [6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 18, 19, 20, 21]],
+  [6, 'Abadango Cluster Princess', 'Alive', 'Alien', '', 'Female', 2, 2, [19]],
+  [7, 'Abradolf Lincler', 'unknown', 'Human', 'Genetic experiment', 'Male', 20, 10, [10, 11]],
+  [8, 'Adjudicator Rick', 'Dead', 'Human', '', 'Male', 0, 3, [10]],
+  [9, 'Agency Director', 'Dead', 'Human', '', 'Male', 20, 20, [4]],
+  [10, 'Alan Rails', 'Dead', 'Human', 'Superhuman (Ghost trains summoner)', 'Male', 0, 4, [15]],
+  [11, 'Albert Einstein', 'Dead', 'Human', '', 'Male', 1, 20, [12]],
+  [12, 'Alexander', 'Dead', 'Human', '', 'Male', 1, 5, [3]],
+  [13, 'Alien Googah', 'unknown', 'Alien', '', 'Genderless', 0, 20, [14]],
+  [14, 'Alien Morty', 'unknown', 'Alien', '', 'Male', 0, 3, [10]],
+  [15, 'Alien Rick', 'unknown', 'Alien', '', 'Male', 0, 3, [10]],
+  [16, 'Amish Cyborg', 'Dead', 'Alien', 'Parasite', 'Male', 0, 20, [15]],
+  [17, 'Annie', 'Alive', 'Human', '', 'Female', 1, 5, [3]],
+  [18, 'Antenna Morty', 'Alive', 'Human', 'Human with antennae', 'Male', 0, 3, [10, 17]],
+  [19, 'Antenna Rick', 'unknown', 'Human', 'Human with antennae', 'Male', 0, 0, [10]],
+  [20, 'Ants in my Eyes Johnson', 'unknown', 'Human', 'Human with ants in his eyes', 'Male', 0, 6, [8]],
+  [21, 'Aqua Morty', 'unknown', 'Humanoid', 'Fish-Person', 'Male', 0, 3, [10, 17]],
+  [22, 'Aqua Rick', 'unknown', 'Humanoid', 'Fish-Person', 'Male', 0, 3, [10, 17]],
+  [23, 'Arcade Alien', 'unknown', 'Alien', '', 'Male', 0, 7, [13, 19]],
+  [24, 'Armagheadon', 'Alive', 'Alien', 'Cromulon', 'Male', 0, 0, [16]],
+  [25, 'Armothy', 'Dead', 'unknown', 'Self-aware arm', 'Male', 8, 8, [18]],
+  [26, 'Arthricia', 'Alive', 'Alien', 'Cat-Person', 'Female', 9, 9, [20]],
+  [27, 'Artist Morty', 'Alive', 'Human', '', 'Male', 0, 3, [10]],
+  [28, 'Attila Starwar', 'Alive', 'Human', '', 'Male', 0, 6, [19]],
+  [29, 'Baby Legs', 'Alive', 'Human', 'Human with baby legs', 'Male', 6, 6, [8]],
+  [30, 'Baby Poopybutthole', 'Alive', 'Poopybutthole', '', 'Male', 0, 0, [15]],
+  [31, 'Baby Wizard', 'Dead', 'Alien', 'Parasite', 'Male', 0, 20, [15]],
+  [32, 'Bearded Lady', 'Dead', 'Alien', 'Parasite', 'Female', 0, 20, [15]],
+  [33, 'Beebo', 'Dead', 'Alien', '', 'Male', 10, 10, [13]],
+  [34, 'Benjamin', 'Alive', 'Poopybutthole', '', 'Male', 6, 6, [19]],
+  [35, 'Bepisian', 'Alive', 'Alien', 'Bepisian', 'Genderless', 0, 0, [8]],
+  [36, 'Beta-Seven', 'Alive', 'Alien', 'Hivemind', 'Genderless', 0, 0, [14]],
+  [37, 'Beth Sanchez', 'Alive', 'Human', '', 'Female', 0, 0, [8]],
+  [38, 'Beth Smith', 'Alive', 'Human', '', 'Female', 1, 1, [1, 2, 3, 4, 5, 6]],
+  [39, 'Beth Smith', 'Alive', 'Human', '', 'Female', 0, 0, [8]],
+  [40, "Beth's Mytholog", 'Dead', 'Mythological Creature', 'Mytholog', 'Female', 0, 0, [20]],
+  [41, 'Big Boobed Waitress', 'Alive', 'Mythological Creature', 'Mytholog', 'Female', 0, 0, [8]],
+  [42, 'Big Head Morty', 'unknown', 'Human', 'Human with giant head', 'Male', 0, 3, [10]],
+  [43, 'Big Morty', 'Dead', 'Human', '', 'Male', 0, 3, [10]],
+  [44, 'Body Guard Morty', 'Dead', 'Human', '', 'Male', 0, 3, [10]]
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Construye las fixtures con URLs relativas a la URL base de la API.
+ * Como en la API real, `created` crece con el ID (dos días entre personajes).
+ */
+export function createMockDatabase(baseUrl: string): MockDatabase {
+  const locationUrl = (id: number) => id ? `${baseUrl}/location/${id}` : '';
+  const locationName = (id: number) => LOCATIONS.find(([locationId]) => locationId === id)?.[1] ?? 'unknown';
+  const firstCreated = Date.parse('2017-11-04T18:48:46.250Z');
+
+  const characters: Character[] = CHARACTERS.map(([id, name, status, species, type, gender, originId, locationId, episodeIds]) => ({
+    id,
+    name,
+    status,
+    species,
+    type,
+    gender,
+    origin: { name: locationName(originId), url: locationUrl(originId) },
+    location: { name: locationName(locationId), url: locationUrl(locationId) },
+    image: `${baseUrl}/character/avatar/${id}.jpeg`,
+    episode: episodeIds.map(episodeId => `${baseUrl}/episode/${episodeId}`),
+    url: `${baseUrl}/character/${id}`,
+    created: new Date(firstCreated + (id - 1) * 2 * DAY_MS).toISOString()
+  }));
+
+  const episodes: Episode[] = EPISODES.map(([id, name, airDate, code]) => ({
+    id,
+    name,
+    air_date: airDate,
+    episode: code,
+    characters: CHARACTERS
+      .filter(row => row[8].includes(id))
+      .map(([characterId]) => `${baseUrl}/character/${characterId}`),
+    url: `${baseUrl}/episode/${id}`,
+    created: new Date(Date.parse('2017-11-10T12:56:33.798Z') + (id - 1) * 60 * 1000).toISOString()
+  }));
+
+  const locations: LocationDetail[] = LOCATIONS.map(([id, name, type, dimension]) => ({
+    id,
+    name,
+    type,
+    dimension,
+    residents: CHARACTERS
+      .filter(row => row[7] === id)
+      .map(([characterId]) => `${baseUrl}/character/${characterId}`),
+    url: `${baseUrl}/location/${id}`,
+    created: new Date(Date.parse('2017-11-10T12:42:04.162Z') + (id - 1) * 60 * 1000).toISOString()
+  }));
+
+  return { characters, episodes, locations };
+}
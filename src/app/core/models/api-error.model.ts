@@ -0,0 +1,77 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+/**
+ * Tipos de error que puede producir la API:
+ * - not-found: el recurso no existe o el filtro no tiene coincidencias (404)
+ * - rate-limited: demasiadas peticiones (429)
+ * - server: error interno del servidor (5xx)
+ * - network: la petición no llegó al servidor estando online
+ * - offline: el navegador no tiene conexión
+ * - unknown: cualquier otro error
+ */
+export type ApiErrorKind = 'not-found' | 'rate-limited' | 'server' | 'network' | 'offline' | 'unknown';
+
+export class ApiError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    readonly status: number,
+    readonly originalError?: unknown,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(`API error (${kind}${status ? `, HTTP ${status}` : ''})`);
+    this.name = 'ApiError';
+  }
+
+  /**
+   * Indica si el error es transitorio y tiene sentido reintentar la petición
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate-limited' || this.kind === 'server' || this.kind === 'network';
+  }
+
+  /**
+   * Clasifica un error de HttpClient (o cualquier otro) en un ApiError
+   */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+    if (!(error instanceof HttpErrorResponse)) {
+      return new ApiError('unknown', 0, error);
+    }
+
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (error.status === 0) {
+      return new ApiError(offline ? 'offline' : 'network', 0, error);
+    }
+    // El service worker responde 504 sin conexión cuando no tiene la respuesta en caché
+    if (error.status === 504 && offline) {
+      return new ApiError('offline', 504, error);
+    }
+    if (error.status === 404) {
+      return new ApiError('not-found', 404, error);
+    }
+    if (error.status === 429) {
+      return new ApiError('rate-limited', 429, error, parseRetryAfter(error.headers?.get('Retry-After')));
+    }
+    if (error.status >= 500) {
+      return new ApiError('server', error.status, error);
+    }
+    return new ApiError('unknown', error.status, error);
+  }
+}
+
+/**
+ * Convierte la cabecera Retry-After (segundos o fecha HTTP) a milisegundos
+ */
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
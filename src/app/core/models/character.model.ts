@@ -1,3 +1,6 @@
+import { Episode } from './episode.model';
+import { LocationDetail } from './location.model';
+
 export interface Character {
   id: number;
   name: string;
@@ -16,6 +19,9 @@ export interface Character {
 export type CharacterStatus = 'Alive' | 'Dead' | 'unknown';
 export type CharacterGender = 'Female' | 'Male' | 'Genderless' | 'unknown';
 
+export const CHARACTER_STATUSES: CharacterStatus[] = ['Alive', 'Dead', 'unknown'];
+export const CHARACTER_GENDERS: CharacterGender[] = ['Female', 'Male', 'Genderless', 'unknown'];
+
 export interface Location {
   name: string;
   url: string;
@@ -37,6 +43,37 @@ export interface CharacterFilters {
   name?: string;
   status?: CharacterStatus | '';
   species?: string;
+  type?: string;
   gender?: CharacterGender | '';
   page?: number;
+  // La API no admite los siguientes filtros: se aplican en el cliente (ver RickMortyApiService.getCharacters)
+  origin?: string;
+  location?: string;
+  minEpisodes?: number;
+  maxEpisodes?: number;
+}
+
+export type CharacterSortColumn = 'name' | 'status' | 'species' | 'gender' | 'origin' | 'location' | 'created' | 'episode';
+
+export interface CharacterSort {
+  column: CharacterSortColumn;
+  direction: 'asc' | 'desc';
+}
+
+export interface CharacterCollectionProgress {
+  characters: Character[];
+  loadedPages: number;
+  totalPages: number;
+  complete: boolean;
+}
+
+/**
+ * Personaje con sus relaciones resueltas (página de detalle).
+ * null en episodes/origin/location indica que no se pudieron cargar o no existen.
+ */
+export interface CharacterDetailData {
+  character: Character;
+  episodes: Episode[] | null;
+  origin: LocationDetail | null;
+  location: LocationDetail | null;
 }
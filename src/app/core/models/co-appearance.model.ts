@@ -0,0 +1,30 @@
+import { Character } from './character.model';
+
+export interface CoAppearanceGraphOptions {
+  /** Niveles de vecinos a partir del personaje central (1 = solo sus coprotagonistas) */
+  depth: number;
+  /** Episodios compartidos necesarios para que dos personajes estén conectados */
+  minSharedEpisodes: number;
+  /** Límite de nodos; se conservan los vecinos con más episodios compartidos */
+  maxNodes: number;
+}
+
+export interface CoAppearanceNode {
+  character: Character;
+  /** Distancia al personaje central */
+  depth: number;
+}
+
+export interface CoAppearanceEdge {
+  source: number;
+  target: number;
+  sharedEpisodes: number;
+}
+
+export interface CoAppearanceGraph {
+  centerId: number;
+  nodes: CoAppearanceNode[];
+  edges: CoAppearanceEdge[];
+  /** Indica si se descartaron vecinos por el límite de nodos */
+  truncated: boolean;
+}
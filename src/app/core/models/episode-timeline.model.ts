@@ -0,0 +1,32 @@
+import { Episode } from './episode.model';
+
+export interface TimelineEpisode {
+  episode: Episode;
+  season: number;
+  /** Número del episodio dentro de la temporada */
+  number: number;
+  appears: boolean;
+}
+
+export interface TimelineSeason {
+  season: number;
+  episodes: TimelineEpisode[];
+  appearances: number;
+}
+
+export interface TimelineGap {
+  /** Última aparición antes del hueco */
+  from: Episode;
+  /** Primera aparición después del hueco */
+  to: Episode;
+  missedEpisodes: number;
+}
+
+export interface EpisodeTimeline {
+  seasons: TimelineSeason[];
+  appearances: number;
+  firstAppearance: Episode | null;
+  lastAppearance: Episode | null;
+  /** Mayor racha de episodios sin aparecer entre dos apariciones (null si no hay ninguna) */
+  longestGap: TimelineGap | null;
+}
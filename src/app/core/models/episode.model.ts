@@ -0,0 +1,15 @@
+export interface Episode {
+  id: number;
+  name: string;
+  air_date: string;
+  episode: string;
+  characters: string[];
+  url: string;
+  created: string;
+}
+
+export interface EpisodeFilters {
+  name?: string;
+  episode?: string;
+  page?: number;
+}
@@ -0,0 +1,12 @@
+export type AppLocale = 'en' | 'es';
+
+export const APP_LOCALES: AppLocale[] = ['en', 'es'];
+
+/**
+ * Texto traducido. Los mensajes con formas plurales se eligen según el parámetro
+ * `count` (reglas de Intl.PluralRules); `other` es la forma por defecto.
+ * `{param}` se sustituye por el parámetro del mismo nombre.
+ */
+export type Message = string | { one?: string; other: string };
+
+export type MessageParams = Record<string, string | number>;
@@ -0,0 +1,16 @@
+export interface LocationDetail {
+  id: number;
+  name: string;
+  type: string;
+  dimension: string;
+  residents: string[];
+  url: string;
+  created: string;
+}
+
+export interface LocationFilters {
+  name?: string;
+  type?: string;
+  dimension?: string;
+  page?: number;
+}
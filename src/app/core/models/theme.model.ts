@@ -0,0 +1,7 @@
+/** Tema aplicado a la interfaz */
+export type AppTheme = 'light' | 'dark' | 'high-contrast';
+
+/** Preferencia del usuario: un tema concreto o seguir `prefers-color-scheme` */
+export type ThemePreference = AppTheme | 'system';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'high-contrast'];
@@ -0,0 +1,19 @@
+import { InjectionToken, Provider } from '@angular/core';
+
+export const DEFAULT_API_BASE_URL = 'https://rickandmortyapi.com/api';
+
+/**
+ * URL base de la API REST. También se usa para construir las URLs de los recursos
+ * (personajes, episodios, ubicaciones) que devuelve el backend GraphQL.
+ */
+export const API_BASE_URL = new InjectionToken<string>('API_BASE_URL', {
+  providedIn: 'root',
+  factory: () => DEFAULT_API_BASE_URL
+});
+
+/**
+ * Apunta la aplicación a otra instancia de la API, p. ej. un mirror de staging (ver app.config.ts)
+ */
+export function provideApiBaseUrl(url: string): Provider {
+  return { provide: API_BASE_URL, useValue: url.replace(/\/+$/, '') };
+}
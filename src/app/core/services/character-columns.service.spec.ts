@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+
+import { COLUMNS_STORAGE_KEY, CharacterColumnsService, DEFAULT_VISIBLE_COLUMNS } from './character-columns.service';
+
+describe('CharacterColumnsService', () => {
+  const createService = () => {
+    TestBed.configureTestingModule({});
+    return TestBed.inject(CharacterColumnsService);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem(COLUMNS_STORAGE_KEY);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(COLUMNS_STORAGE_KEY);
+  });
+
+  it('debería mostrar las columnas por defecto sin configuración guardada', () => {
+    const service = createService();
+
+    expect(service.visibleColumns()).toEqual(DEFAULT_VISIBLE_COLUMNS);
+    expect(service.isDefaultLayout()).toBe(true);
+  });
+
+  it('debería ocultar, mostrar y reordenar columnas y persistir el resultado', () => {
+    const service = createService();
+
+    service.setVisible('image', false);
+    service.setVisible('type', true);
+    const typeIndex = service.columns().findIndex(column => column.id === 'type');
+    service.move(typeIndex, 0);
+
+    expect(service.visibleColumns()[0]).toBe('type');
+    expect(service.visibleColumns()).not.toContain('image');
+    expect(service.isDefaultLayout()).toBe(false);
+
+    const stored = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY)!);
+    expect(stored[0]).toEqual({ id: 'type', visible: true });
+  });
+
+  it('no debería permitir ocultar el nombre', () => {
+    const service = createService();
+
+    service.setVisible('name', false);
+
+    expect(service.visibleColumns()).toContain('name');
+  });
+
+  it('debería descartar columnas desconocidas y añadir las nuevas al cargar', () => {
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify([
+      { id: 'status', visible: true },
+      { id: 'bogus', visible: true },
+      { id: 'name', visible: false }
+    ]));
+    const service = createService();
+
+    expect(service.visibleColumns()).toEqual(['status', 'name']);
+    expect(service.columns().length).toBe(14);
+  });
+
+  it('debería restaurar la configuración por defecto', () => {
+    const service = createService();
+    service.setVisible('status', false);
+
+    service.reset();
+
+    expect(service.visibleColumns()).toEqual(DEFAULT_VISIBLE_COLUMNS);
+    expect(localStorage.getItem(COLUMNS_STORAGE_KEY)).toBeNull();
+  });
+});
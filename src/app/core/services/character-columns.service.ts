@@ -0,0 +1,133 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { MessageKey } from '../i18n/messages.en';
+
+export type CharacterColumnId =
+  'favorite' | 'image' | 'id' | 'name' | 'status' | 'species' | 'type' | 'gender' | 'origin' | 'location' |
+  'created' | 'episode' | 'firstAppearance' | 'lastAppearance';
+
+export interface CharacterColumnDefinition {
+  id: CharacterColumnId;
+  label: MessageKey;
+  /** Columnas que no se pueden ocultar */
+  required?: boolean;
+}
+
+export interface CharacterColumnState {
+  id: CharacterColumnId;
+  visible: boolean;
+}
+
+export const CHARACTER_COLUMNS: CharacterColumnDefinition[] = [
+  { id: 'favorite', label: 'columns.favorite' },
+  { id: 'image', label: 'columns.image' },
+  { id: 'id', label: 'columns.id' },
+  { id: 'name', label: 'columns.name', required: true },
+  { id: 'status', label: 'columns.status' },
+  { id: 'species', label: 'columns.species' },
+  { id: 'type', label: 'columns.type' },
+  { id: 'gender', label: 'columns.gender' },
+  { id: 'origin', label: 'columns.origin' },
+  { id: 'location', label: 'columns.location' },
+  { id: 'created', label: 'columns.created' },
+  { id: 'episode', label: 'columns.episode' },
+  { id: 'firstAppearance', label: 'columns.firstAppearance' },
+  { id: 'lastAppearance', label: 'columns.lastAppearance' }
+];
+
+export const DEFAULT_VISIBLE_COLUMNS: CharacterColumnId[] =
+  ['favorite', 'image', 'name', 'status', 'species', 'gender', 'origin', 'location', 'created', 'episode'];
+
+export const COLUMNS_STORAGE_KEY = 'rickmorty_table_columns';
+
+/**
+ * Orden y visibilidad de las columnas de la tabla de personajes, guardados en localStorage
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CharacterColumnsService {
+  private readonly state = signal<CharacterColumnState[]>(this.load());
+
+  readonly columns = this.state.asReadonly();
+  readonly visibleColumns = computed(() =>
+    this.state().filter(column => column.visible).map(column => column.id)
+  );
+  readonly isDefaultLayout = computed(() => {
+    const defaults = this.defaultLayout();
+    return this.state().every((column, i) => column.id === defaults[i].id && column.visible === defaults[i].visible);
+  });
+
+  getDefinition(id: CharacterColumnId): CharacterColumnDefinition {
+    return CHARACTER_COLUMNS.find(column => column.id === id)!;
+  }
+
+  setVisible(id: CharacterColumnId, visible: boolean): void {
+    if (!visible && this.getDefinition(id).required) return;
+    this.save(this.state().map(column => column.id === id ? { ...column, visible } : column));
+  }
+
+  /**
+   * Mueve una columna de una posición a otra de la lista completa
+   */
+  move(previousIndex: number, currentIndex: number): void {
+    const columns = [...this.state()];
+    const [moved] = columns.splice(previousIndex, 1);
+    if (!moved) return;
+    columns.splice(Math.min(Math.max(currentIndex, 0), columns.length), 0, moved);
+    this.save(columns);
+  }
+
+  reset(): void {
+    this.state.set(this.defaultLayout());
+    localStorage.removeItem(COLUMNS_STORAGE_KEY);
+  }
+
+  private defaultLayout(): CharacterColumnState[] {
+    const visible = DEFAULT_VISIBLE_COLUMNS.map(id => ({ id, visible: true }));
+    const hidden = CHARACTER_COLUMNS
+      .filter(column => !DEFAULT_VISIBLE_COLUMNS.includes(column.id))
+      .map(column => ({ id: column.id, visible: false }));
+    return [...visible, ...hidden];
+  }
+
+  /**
+   * Carga la configuración guardada descartando columnas desconocidas y
+   * añadiendo (ocultas) las columnas nuevas que no existían al guardarla
+   */
+  private load(): CharacterColumnState[] {
+    const stored = localStorage.getItem(COLUMNS_STORAGE_KEY);
+    if (!stored) {
+      return this.defaultLayout();
+    }
+
+    try {
+      const raw: unknown = JSON.parse(stored);
+      if (!Array.isArray(raw)) {
+        return this.defaultLayout();
+      }
+
+      const columns: CharacterColumnState[] = [];
+      for (const candidate of raw as Partial<CharacterColumnState>[]) {
+        const definition = CHARACTER_COLUMNS.find(column => column.id === candidate?.id);
+        if (definition && !columns.some(column => column.id === definition.id)) {
+          columns.push({ id: definition.id, visible: !!definition.required || candidate.visible === true });
+        }
+      }
+      for (const definition of CHARACTER_COLUMNS) {
+        if (!columns.some(column => column.id === definition.id)) {
+          columns.push({ id: definition.id, visible: !!definition.required });
+        }
+      }
+      return columns;
+    } catch (error) {
+      console.error('Error reading table columns:', error);
+      return this.defaultLayout();
+    }
+  }
+
+  private save(columns: CharacterColumnState[]): void {
+    this.state.set(columns);
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+  }
+}
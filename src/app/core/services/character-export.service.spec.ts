@@ -0,0 +1,94 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { CharacterExportService, ExportProgress } from './character-export.service';
+import { RickMortyApiService } from './rick-morty-api.service';
+import { I18nService, LOCALE_STORAGE_KEY } from './i18n.service';
+import { Character } from '../models/character.model';
+import { createCharacter } from '../../../testing/character.fixture';
+
+describe('CharacterExportService', () => {
+  let service: CharacterExportService;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+
+  const character = (id: number, name: string, origin = 'Earth (C-137)'): Character => createCharacter(id, {
+    name,
+    origin: { name: origin, url: '' },
+    location: { name: 'Citadel of Ricks', url: '' },
+    episode: ['https://rickandmortyapi.com/api/episode/1', 'https://rickandmortyapi.com/api/episode/2']
+  });
+
+  beforeEach(() => {
+    localStorage.removeItem(LOCALE_STORAGE_KEY);
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getAllCharacters', 'getMultipleCharacters']);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: RickMortyApiService, useValue: mockApiService }]
+    });
+    service = TestBed.inject(CharacterExportService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(LOCALE_STORAGE_KEY);
+  });
+
+  describe('CSV', () => {
+    it('debería seguir RFC 4180: BOM, CRLF y comillas solo donde hace falta', () => {
+      const file = service.buildFile('csv', [character(1, 'Rick "The Man" Sanchez', 'Earth, C-137')], ['name', 'origin', 'episodes']);
+
+      expect(file.extension).toBe('csv');
+      expect(file.content.charCodeAt(0)).toBe(0xfeff);
+      expect(file.content.slice(1)).toBe(
+        'Name,Origin,Number of Episodes\r\n' +
+        '"Rick ""The Man"" Sanchez","Earth, C-137",2\r\n'
+      );
+    });
+
+    it('debería traducir las cabeceras al idioma de la interfaz', async () => {
+      await TestBed.inject(I18nService).setLocale('es');
+      const file = service.buildFile('csv', [character(1, 'Rick')], ['name', 'episodes']);
+
+      expect(file.content.slice(1)).toBe('Nombre,Número de episodios\r\nRick,2\r\n');
+    });
+
+    it('debería exportar las fechas en ISO 8601', () => {
+      const file = service.buildFile('csv', [character(1, 'Rick')], ['created']);
+
+      expect(file.content).toContain('2017-11-04T18:48:46.250Z');
+    });
+  });
+
+  it('debería generar JSON con las columnas elegidas', () => {
+    const file = service.buildFile('json', [character(1, 'Rick')], ['id', 'name', 'episodes']);
+
+    expect(JSON.parse(file.content)).toEqual([{ id: 1, name: 'Rick', episodes: 2 }]);
+  });
+
+  it('debería generar SpreadsheetML con texto escapado y celdas numéricas', () => {
+    const file = service.buildFile('spreadsheetml', [character(1, 'Morty & <Summer>')], ['name', 'episodes']);
+
+    expect(file.extension).toBe('xml');
+    expect(file.content).toContain('<?mso-application progid="Excel.Sheet"?>');
+    expect(file.content).toContain('<Data ss:Type="String">Morty &amp; &lt;Summer&gt;</Data>');
+    expect(file.content).toContain('<Data ss:Type="Number">2</Data>');
+  });
+
+  it('debería aplicar los filtros del cliente al exportar todas las páginas', () => {
+    const characters = [character(1, 'Rick'), character(2, 'Morty')];
+    mockApiService.getAllCharacters.and.returnValue(of(
+      { characters: characters.slice(0, 1), loadedPages: 1, totalPages: 2, complete: false },
+      { characters, loadedPages: 2, totalPages: 2, complete: true }
+    ));
+
+    const emissions: ExportProgress[] = [];
+    service.collect('all', {
+      loaded: [],
+      filters: { status: 'Alive' },
+      clientFilter: result => result.filter(character => character.name === 'Morty')
+    }).subscribe(progress => emissions.push(progress));
+
+    expect(mockApiService.getAllCharacters).toHaveBeenCalledWith({ status: 'Alive' });
+    expect(emissions[0].characters).toBeNull();
+    expect(emissions[1].characters?.map(character => character.id)).toEqual([2]);
+  });
+});
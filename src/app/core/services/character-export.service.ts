@@ -0,0 +1,188 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map, of } from 'rxjs';
+
+import { Character, CharacterFilters } from '../models/character.model';
+import { RickMortyApiService } from './rick-morty-api.service';
+import { FavoritesService } from './favorites.service';
+import { I18nService } from './i18n.service';
+import { MessageKey } from '../i18n/messages.en';
+
+export type ExportFormat = 'csv' | 'json' | 'spreadsheetml';
+export type ExportScope = 'loaded' | 'all' | 'favorites';
+
+export type ExportColumnId =
+  'id' | 'name' | 'status' | 'species' | 'type' | 'gender' | 'origin' | 'location' | 'created' | 'episodes' | 'image' | 'url';
+
+export interface ExportColumn {
+  id: ExportColumnId;
+  /** Cabecera traducida al idioma de la interfaz al generar el archivo */
+  header: MessageKey;
+  value: (character: Character) => string | number;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'id', header: 'export.column.id', value: character => character.id },
+  { id: 'name', header: 'export.column.name', value: character => character.name },
+  { id: 'status', header: 'export.column.status', value: character => character.status },
+  { id: 'species', header: 'export.column.species', value: character => character.species },
+  { id: 'type', header: 'export.column.type', value: character => character.type },
+  { id: 'gender', header: 'export.column.gender', value: character => character.gender },
+  { id: 'origin', header: 'export.column.origin', value: character => character.origin.name },
+  { id: 'location', header: 'export.column.location', value: character => character.location.name },
+  // ISO 8601 tal como lo devuelve la API, independiente del idioma del navegador
+  { id: 'created', header: 'export.column.created', value: character => character.created },
+  { id: 'episodes', header: 'export.column.episodes', value: character => character.episode.length },
+  { id: 'image', header: 'export.column.image', value: character => character.image },
+  { id: 'url', header: 'export.column.url', value: character => character.url }
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] =
+  ['name', 'status', 'species', 'gender', 'origin', 'location', 'created', 'episodes'];
+
+/**
+ * Datos de la vista actual necesarios para resolver el alcance de la exportación
+ */
+export interface ExportSource {
+  loaded: Character[];
+  filters: CharacterFilters;
+  /** Filtros que se aplican en el cliente (ej: rango de fechas) */
+  clientFilter?: (characters: Character[]) => Character[];
+}
+
+export interface ExportProgress {
+  loadedPages: number;
+  totalPages: number;
+  /** Personajes a exportar; null mientras se siguen descargando páginas */
+  characters: Character[] | null;
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CharacterExportService {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly favoritesService = inject(FavoritesService);
+  private readonly i18n = inject(I18nService);
+
+  /**
+   * Reúne los personajes del alcance elegido, informando del progreso
+   */
+  collect(scope: ExportScope, source: ExportSource): Observable<ExportProgress> {
+    const clientFilter = source.clientFilter ?? ((characters: Character[]) => characters);
+
+    switch (scope) {
+      case 'loaded':
+        return of({ loadedPages: 1, totalPages: 1, characters: source.loaded });
+
+      case 'favorites':
+        return this.apiService.getMultipleCharacters(this.favoritesService.ids()).pipe(
+          map(characters => ({ loadedPages: 1, totalPages: 1, characters }))
+        );
+
+      case 'all':
+        return this.apiService.getAllCharacters(source.filters).pipe(
+          map(progress => ({
+            loadedPages: progress.loadedPages,
+            totalPages: progress.totalPages,
+            characters: progress.complete ? clientFilter(progress.characters) : null
+          }))
+        );
+    }
+  }
+
+  /**
+   * Genera el contenido del archivo en el formato indicado
+   */
+  buildFile(format: ExportFormat, characters: Character[], columnIds: ExportColumnId[]): ExportFile {
+    const columns = EXPORT_COLUMNS.filter(column => columnIds.includes(column.id));
+
+    switch (format) {
+      case 'csv':
+        return { content: this.toCsv(characters, columns), mimeType: 'text/csv;charset=utf-8', extension: 'csv' };
+      case 'json':
+        return { content: this.toJson(characters, columns), mimeType: 'application/json', extension: 'json' };
+      case 'spreadsheetml':
+        return { content: this.toSpreadsheetML(characters, columns), mimeType: 'application/vnd.ms-excel', extension: 'xml' };
+    }
+  }
+
+  /**
+   * Genera y descarga el archivo
+   */
+  download(format: ExportFormat, characters: Character[], columnIds: ExportColumnId[]): void {
+    const file = this.buildFile(format, characters, columnIds);
+    const blob = new Blob([file.content], { type: file.mimeType });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `rick-morty-characters-${new Date().toISOString().split('T')[0]}.${file.extension}`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * CSV según RFC 4180: CRLF entre registros y comillas dobles en los campos que
+   * contienen comas, comillas o saltos de línea. El BOM permite a Excel detectar UTF-8.
+   */
+  private toCsv(characters: Character[], columns: ExportColumn[]): string {
+    const escape = (value: string | number): string => {
+      const text = String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [
+      columns.map(column => escape(this.i18n.t(column.header))),
+      ...characters.map(character => columns.map(column => escape(column.value(character))))
+    ];
+
+    return '\uFEFF' + rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+  }
+
+  private toJson(characters: Character[], columns: ExportColumn[]): string {
+    const records = characters.map(character =>
+      Object.fromEntries(columns.map(column => [column.id, column.value(character)]))
+    );
+    return JSON.stringify(records, null, 2);
+  }
+
+  /**
+   * XML Spreadsheet 2003 (SpreadsheetML): Excel lo abre directamente sin dependencias extra
+   */
+  private toSpreadsheetML(characters: Character[], columns: ExportColumn[]): string {
+    const escape = (text: string): string => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+    const cell = (value: string | number): string => typeof value === 'number'
+      ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+      : `<Cell><Data ss:Type="String">${escape(value)}</Data></Cell>`;
+
+    const header = `<Row>${columns.map(column => `<Cell ss:StyleID="header"><Data ss:Type="String">${escape(this.i18n.t(column.header))}</Data></Cell>`).join('')}</Row>`;
+    const rows = characters.map(character => `<Row>${columns.map(column => cell(column.value(character))).join('')}</Row>`);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?mso-application progid="Excel.Sheet"?>',
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+      '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+      `<Worksheet ss:Name="${escape(this.i18n.t('export.sheetName'))}">`,
+      '<Table>',
+      header,
+      ...rows,
+      '</Table>',
+      '</Worksheet>',
+      '</Workbook>'
+    ].join('\n');
+  }
+}
@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+
+import { CharacterStatsProgress, CharacterStatsService, STATS_TOP_N } from './character-stats.service';
+import { RickMortyApiService } from './rick-morty-api.service';
+import { CharactersStoreService } from './characters-store.service';
+import { Character } from '../models/character.model';
+import { LocationDetail } from '../models/location.model';
+import { createCharacter } from '../../../testing/character.fixture';
+
+describe('CharacterStatsService', () => {
+  let service: CharacterStatsService;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  const character = (id: number, overrides: Partial<Character>) => createCharacter(id, {
+    origin: { name: 'Earth (C-137)', url: `${API_URL}/location/1` },
+    episode: [`${API_URL}/episode/1`],
+    ...overrides
+  });
+
+  const characters = [
+    character(1, {}),
+    character(2, { status: 'Dead', episode: [1, 2, 3].map(id => `${API_URL}/episode/${id}`) }),
+    character(3, { gender: 'Female', species: 'Alien', origin: { name: 'Gazorpazorp', url: `${API_URL}/location/2` } }),
+    character(4, { status: 'unknown', origin: { name: 'unknown', url: '' }, created: '2018-01-10T10:00:00.000Z' })
+  ];
+
+  const locations = [
+    { id: 1, dimension: 'Dimension C-137' },
+    { id: 2, dimension: 'Replacement Dimension' }
+  ] as LocationDetail[];
+
+  const collect = (): CharacterStatsProgress[] => {
+    const emissions: CharacterStatsProgress[] = [];
+    service.getStats({ name: 'a' }).subscribe(progress => emissions.push(progress));
+    return emissions;
+  };
+
+  beforeEach(() => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getAllCharacters', 'getMultipleLocations']);
+    mockApiService.getAllCharacters.and.returnValue(of(
+      { characters: characters.slice(0, 2), loadedPages: 1, totalPages: 2, complete: false },
+      { characters, loadedPages: 2, totalPages: 2, complete: true }
+    ));
+    mockApiService.getMultipleLocations.and.returnValue(of(locations));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: RickMortyApiService, useValue: mockApiService }]
+    });
+    service = TestBed.inject(CharacterStatsService);
+  });
+
+  it('debería emitir el progreso y calcular las estadísticas al terminar', () => {
+    const emissions = collect();
+
+    expect(mockApiService.getAllCharacters).toHaveBeenCalledWith({ name: 'a' });
+    expect(emissions.map(progress => [progress.loadedPages, progress.totalPages, progress.stats !== null]))
+      .toEqual([[1, 2, false], [2, 2, true]]);
+
+    const stats = emissions[1].stats!;
+    expect(stats.total).toBe(4);
+    expect(stats.status).toEqual([
+      { label: 'Alive', count: 2, filter: { status: 'Alive' } },
+      { label: 'Dead', count: 1, filter: { status: 'Dead' } },
+      { label: 'unknown', count: 1, filter: { status: 'unknown' } }
+    ]);
+    expect(stats.species.map(bucket => [bucket.label, bucket.count])).toEqual([['Human', 3], ['Alien', 1]]);
+    expect(stats.episodeCount.slice(0, 3).map(bucket => bucket.count)).toEqual([3, 0, 1]);
+    expect(stats.episodeCount[2].filter).toEqual({ minEpisodes: '3', maxEpisodes: '5' });
+  });
+
+  it('debería resolver la dimensión de origen con una sola petición de ubicaciones', () => {
+    const stats = collect()[1].stats!;
+
+    expect(mockApiService.getMultipleLocations).toHaveBeenCalledOnceWith([1, 2]);
+    expect(stats.originDimension!.map(bucket => [bucket.label, bucket.count])).toEqual([
+      ['Dimension C-137', 2],
+      ['Replacement Dimension', 1],
+      ['unknown', 1]
+    ]);
+  });
+
+  it('debería agrupar la fecha de creación por mes con filtros de rango', () => {
+    const created = collect()[1].stats!.createdOverTime;
+
+    expect(created.map(bucket => [bucket.label, bucket.count])).toEqual([['2017-11', 3], ['2017-12', 0], ['2018-01', 1]]);
+    expect(created[0].filter).toEqual({ createdStartDate: '2017-11-01', createdEndDate: '2017-11-30' });
+  });
+
+  it('debería dejar la dimensión de origen a null si fallan las ubicaciones', () => {
+    mockApiService.getMultipleLocations.and.returnValue(throwError(() => new Error('boom')));
+
+    const stats = collect()[1].stats!;
+
+    expect(stats.originDimension).toBeNull();
+    expect(stats.total).toBe(4);
+  });
+
+  it('debería agrupar en "Other" las especies fuera del top', () => {
+    const many = Array.from({ length: STATS_TOP_N + 2 }, (_, i) => character(i + 1, { species: `Species ${i}` }));
+    mockApiService.getAllCharacters.and.returnValue(of({ characters: many, loadedPages: 1, totalPages: 1, complete: true }));
+
+    const species = collect()[0].stats!.species;
+
+    expect(species.length).toBe(STATS_TOP_N + 1);
+    expect(species[STATS_TOP_N]).toEqual({ label: 'Other', count: 2, filter: null });
+  });
+
+  it('debería reutilizar los personajes que el listado ya cargó completos', () => {
+    const store = TestBed.inject(CharactersStoreService);
+    store.activate('name=a', { apiFilters: { name: 'a' }, clientFiltered: false });
+    store.patch({ characters, currentPage: 1, totalPages: 1, hasMore: false });
+
+    const emissions = collect();
+
+    expect(mockApiService.getAllCharacters).not.toHaveBeenCalled();
+    expect(emissions.length).toBe(1);
+    expect(emissions[0].stats?.total).toBe(4);
+  });
+});
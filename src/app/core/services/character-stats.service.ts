@@ -0,0 +1,97 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, map, of, switchMap } from 'rxjs';
+
+import { Character, CharacterCollectionProgress, CharacterFilters } from '../models/character.model';
+import { LocationDetail } from '../models/location.model';
+import { extractIdFromUrl } from '../utils/api-url.utils';
+import { StatBucket, countBy, createdByMonth, episodeCountHistogram, topBuckets } from '../utils/character-stats.utils';
+import { RickMortyApiService } from './rick-morty-api.service';
+import { CharactersStoreService } from './characters-store.service';
+
+// Grupos que se muestran en las distribuciones con muchos valores
+export const STATS_TOP_N = 8;
+
+export interface CharacterStats {
+  total: number;
+  status: StatBucket[];
+  gender: StatBucket[];
+  species: StatBucket[];
+  /** null si no se pudieron cargar las ubicaciones de origen */
+  originDimension: StatBucket[] | null;
+  createdOverTime: StatBucket[];
+  episodeCount: StatBucket[];
+}
+
+export interface CharacterStatsProgress {
+  loadedPages: number;
+  totalPages: number;
+  /** Solo en la última emisión, con todas las páginas cargadas */
+  stats: CharacterStats | null;
+}
+
+/**
+ * Estadísticas calculadas sobre todos los personajes que coinciden con unos filtros
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CharacterStatsService {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly store = inject(CharactersStoreService);
+
+  /**
+   * Recorre todas las páginas (emitiendo el progreso) y después resuelve la
+   * dimensión de las ubicaciones de origen. Si el listado ya cargó todos los
+   * personajes de estos filtros se usan sin volver a pedirlos.
+   */
+  getStats(filters: CharacterFilters = {}): Observable<CharacterStatsProgress> {
+    const loaded = this.store.getCompleteResults(filters);
+    const characters$: Observable<CharacterCollectionProgress> = loaded
+      ? of({ characters: loaded, loadedPages: 1, totalPages: 1, complete: true })
+      : this.apiService.getAllCharacters(filters);
+
+    return characters$.pipe(
+      switchMap(progress => {
+        const { loadedPages, totalPages } = progress;
+        if (!progress.complete) {
+          return of({ loadedPages, totalPages, stats: null });
+        }
+        return this.getOriginDimensions(progress.characters).pipe(
+          map(dimensions => ({ loadedPages, totalPages, stats: this.computeStats(progress.characters, dimensions) }))
+        );
+      })
+    );
+  }
+
+  /**
+   * Dimensión de cada ubicación de origen por ID (en una sola petición)
+   */
+  private getOriginDimensions(characters: Character[]): Observable<Map<number, string> | null> {
+    const ids = Array.from(new Set(characters
+      .map(character => extractIdFromUrl(character.origin.url))
+      .filter((id): id is number => id !== null)
+    )).sort((a, b) => a - b);
+
+    return this.apiService.getMultipleLocations(ids).pipe(
+      map((locations: LocationDetail[]) => new Map(locations.map(location => [location.id, location.dimension]))),
+      catchError(() => of(null))
+    );
+  }
+
+  private computeStats(characters: Character[], dimensions: Map<number, string> | null): CharacterStats {
+    const dimensionOf = (character: Character) => {
+      const id = extractIdFromUrl(character.origin.url);
+      return (id !== null && dimensions?.get(id)) || 'unknown';
+    };
+
+    return {
+      total: characters.length,
+      status: countBy(characters, character => character.status, status => ({ status })),
+      gender: countBy(characters, character => character.gender, gender => ({ gender })),
+      species: topBuckets(countBy(characters, character => character.species, species => ({ species })), STATS_TOP_N),
+      originDimension: dimensions ? topBuckets(countBy(characters, dimensionOf), STATS_TOP_N) : null,
+      createdOverTime: createdByMonth(characters),
+      episodeCount: episodeCountHistogram(characters)
+    };
+  }
+}
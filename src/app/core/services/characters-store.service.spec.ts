@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CharactersStoreService } from './characters-store.service';
+import { Character } from '../models/character.model';
+
+describe('CharactersStoreService', () => {
+  let store: CharactersStoreService;
+
+  const character = (id: number) => ({ id, name: `Character ${id}` }) as Character;
+  const page = (from: number) => Array.from({ length: 20 }, (_, i) => character(from + i));
+
+  beforeEach(() => {
+    store = TestBed.inject(CharactersStoreService);
+  });
+
+  it('debería conservar el estado de cada combinación de filtros', () => {
+    expect(store.activate('all', { apiFilters: {}, clientFiltered: false })).toBe(false);
+    store.patch({ characters: page(1), currentPage: 1, totalPages: 2, scrollY: 640 });
+
+    expect(store.activate('dead', { apiFilters: { status: 'Dead' }, clientFiltered: false })).toBe(false);
+    expect(store.characters()).toEqual([]);
+    expect(store.hasMore()).toBe(true);
+
+    expect(store.activate('all', { apiFilters: {}, clientFiltered: false })).toBe(true);
+    expect(store.characters().length).toBe(20);
+    expect(store.state().scrollY).toBe(640);
+  });
+
+  it('debería permitir retomar una carga de páginas que falló', () => {
+    store.activate('all', { apiFilters: {}, clientFiltered: false });
+    store.patch({ characters: page(1), currentPage: 1, totalPages: 2, hasMore: false });
+    store.activate('dead', { apiFilters: { status: 'Dead' }, clientFiltered: false });
+
+    store.activate('all', { apiFilters: {}, clientFiltered: false });
+    expect(store.hasMore()).toBe(true);
+  });
+
+  it('debería descartar las combinaciones menos recientes', () => {
+    for (let i = 0; i <= 10; i++) {
+      store.activate(`list-${i}`, { apiFilters: { name: `${i}` }, clientFiltered: false });
+      store.patch({ characters: [character(i)] });
+    }
+
+    expect(store.getCharacter(0)).toBeUndefined();
+    expect(store.getCharacter(10)?.name).toBe('Character 10');
+    expect(store.activate('list-0', { apiFilters: { name: '0' }, clientFiltered: false })).toBe(false);
+  });
+
+  it('debería dar el resultado completo solo sin filtros en cliente y con todas las páginas', () => {
+    store.activate('rick', { apiFilters: { name: 'Rick' }, clientFiltered: false });
+    store.patch({ characters: page(1), currentPage: 1, totalPages: 2 });
+    expect(store.getCompleteResults({ name: 'Rick' })).toBeNull();
+
+    store.patch({ characters: [...page(1), ...page(21)], currentPage: 2, hasMore: false });
+    expect(store.getCompleteResults({ name: 'Rick', status: undefined })?.length).toBe(40);
+    expect(store.getCompleteResults({ name: 'Morty' })).toBeNull();
+
+    store.activate('rick-2017', { apiFilters: { name: 'Rick' }, clientFiltered: true });
+    store.patch({ sortedResults: page(1), hasMore: false });
+    expect(store.getCompleteResults({ name: 'Rick' })?.length).toBe(40);
+  });
+
+  it('debería vaciar las demás listas al refrescar y conservar la selección', () => {
+    store.activate('all', { apiFilters: {}, clientFiltered: false });
+    store.patch({ characters: page(1) });
+    store.setSelection([character(99)]);
+    store.activate('dead', { apiFilters: { status: 'Dead' }, clientFiltered: false });
+    store.patch({ characters: [character(50)] });
+
+    store.clear();
+
+    expect(store.characters()).toEqual([]);
+    expect(store.getCharacter(1)).toBeUndefined();
+    expect(store.getCharacter(99)?.name).toBe('Character 99');
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { Character, CharacterFilters } from '../models/character.model';
+
+// Combinaciones de filtros cuyas páginas cargadas se conservan (las menos recientes se descartan)
+const MAX_CACHED_LISTS = 10;
+
+/**
+ * Estado del listado de personajes para una combinación de filtros y orden
+ */
+export interface CharacterListState {
+  characters: Character[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  totalCountIsEstimate: boolean;
+  hasMore: boolean;
+  /** Resultados obtenidos sin conexión a partir de la caché de respuestas */
+  showingCachedResults: boolean;
+  /** Resultado completo ya ordenado; con un orden activo se pagina localmente sobre él */
+  sortedResults: Character[] | null;
+  /** Personajes de la API revisados con filtros en cliente (para estimar el total) */
+  scannedCount: number;
+  /** Desplazamiento vertical de la ventana al salir del listado */
+  scrollY: number;
+}
+
+/**
+ * Origen de una lista: los filtros enviados a la API y si además se filtró en el cliente
+ */
+export interface CharacterListSource {
+  apiFilters: CharacterFilters;
+  clientFiltered: boolean;
+}
+
+interface CachedList extends CharacterListSource {
+  state: CharacterListState;
+}
+
+const INITIAL_LIST_STATE: CharacterListState = {
+  characters: [],
+  currentPage: 1,
+  totalPages: 0,
+  totalCount: 0,
+  totalCountIsEstimate: false,
+  hasMore: true,
+  showingCachedResults: false,
+  sortedResults: null,
+  scannedCount: 0,
+  scrollY: 0
+};
+
+/**
+ * Estado del listado de personajes fuera del componente: las páginas cargadas de
+ * cada combinación de filtros sobreviven a la navegación, y otras vistas pueden
+ * leer los personajes ya descargados en lugar de volver a pedirlos.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CharactersStoreService {
+  private readonly lists = new Map<string, CachedList>();
+  private activeKey: string | null = null;
+
+  private readonly list = signal<CharacterListState>(INITIAL_LIST_STATE);
+  private readonly selected = signal<Character[]>([]);
+  private readonly expanded = signal<number | null>(null);
+
+  readonly state = this.list.asReadonly();
+  readonly characters = computed(() => this.list().characters);
+  readonly currentPage = computed(() => this.list().currentPage);
+  readonly totalPages = computed(() => this.list().totalPages);
+  readonly totalCount = computed(() => this.list().totalCount);
+  readonly totalCountIsEstimate = computed(() => this.list().totalCountIsEstimate);
+  readonly hasMore = computed(() => this.list().hasMore);
+  readonly showingCachedResults = computed(() => this.list().showingCachedResults);
+
+  /** Personajes seleccionados para comparar (se conservan al cambiar de filtros) */
+  readonly selectedCharacters = this.selected.asReadonly();
+  /** Personaje cuya línea temporal de episodios está desplegada */
+  readonly expandedCharacterId = this.expanded.asReadonly();
+
+  /**
+   * Activa la lista de una combinación de filtros. Devuelve true si ya tenía
+   * personajes cargados (se restauran tal cual); si no, empieza vacía.
+   */
+  activate(key: string, source: CharacterListSource): boolean {
+    const cached = this.lists.get(key);
+    const restored = !!cached && (cached.state.characters.length > 0 || this.isComplete(cached));
+    const entry: CachedList = restored ? cached : { ...source, state: INITIAL_LIST_STATE };
+
+    // Una carga de páginas que falló se retoma al llegar al final de la lista
+    if (restored && !entry.state.hasMore && !this.isComplete(entry)) {
+      entry.state = { ...entry.state, hasMore: true };
+    }
+
+    // Reinsertar para que el orden del Map sea el de uso más reciente
+    this.lists.delete(key);
+    this.lists.set(key, entry);
+    if (this.lists.size > MAX_CACHED_LISTS) {
+      this.lists.delete(this.lists.keys().next().value as string);
+    }
+
+    this.activeKey = key;
+    this.list.set(entry.state);
+    return restored;
+  }
+
+  /**
+   * Actualiza la lista activa
+   */
+  patch(changes: Partial<CharacterListState>): void {
+    const state = { ...this.list(), ...changes };
+    this.list.set(state);
+
+    const entry = this.activeKey !== null ? this.lists.get(this.activeKey) : undefined;
+    if (entry) {
+      entry.state = state;
+    }
+  }
+
+  /**
+   * Vacía la lista activa para volver a cargarla desde la primera página
+   */
+  reset(): void {
+    this.patch(INITIAL_LIST_STATE);
+  }
+
+  /**
+   * Descarta las listas de las demás combinaciones de filtros y vacía la activa
+   */
+  clear(): void {
+    const active = this.activeKey !== null ? this.lists.get(this.activeKey) : undefined;
+    this.lists.clear();
+    if (active && this.activeKey !== null) {
+      this.lists.set(this.activeKey, active);
+    }
+    this.reset();
+  }
+
+  setSelection(characters: Character[]): void {
+    this.selected.set(characters);
+  }
+
+  setExpanded(characterId: number | null): void {
+    this.expanded.set(characterId);
+  }
+
+  /**
+   * Personaje ya descargado en alguna de las listas o en la selección
+   */
+  getCharacter(id: number): Character | undefined {
+    for (const { state } of this.lists.values()) {
+      const character = state.characters.find(c => c.id === id) ?? state.sortedResults?.find(c => c.id === id);
+      if (character) return character;
+    }
+    return this.selected().find(character => character.id === id);
+  }
+
+  /**
+   * Todos los personajes que coinciden con unos filtros de la API, si alguna lista
+   * sin filtros en cliente los tiene ya cargados (en cualquier orden)
+   */
+  getCompleteResults(filters: CharacterFilters): Character[] | null {
+    const key = filtersKey(filters);
+    for (const entry of this.lists.values()) {
+      if (!entry.clientFiltered && this.isComplete(entry) && filtersKey(entry.apiFilters) === key) {
+        return entry.state.sortedResults ?? entry.state.characters;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Indica si la lista tiene todos los resultados: el resultado ordenado completo
+   * o todas las páginas de la API (un error de carga no llega a la última)
+   */
+  private isComplete({ state }: CachedList): boolean {
+    return state.sortedResults !== null
+      || (!state.hasMore && state.totalPages > 0 && state.currentPage >= state.totalPages);
+  }
+}
+
+/**
+ * Clave de unos filtros independiente del orden de sus propiedades y de los valores vacíos
+ */
+function filtersKey(filters: CharacterFilters): string {
+  return Object.entries({ ...filters, page: undefined })
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { CoAppearanceGraphService } from './co-appearance-graph.service';
+import { RickMortyApiService } from './rick-morty-api.service';
+import { Character } from '../models/character.model';
+import { CoAppearanceGraph } from '../models/co-appearance.model';
+import { Episode } from '../models/episode.model';
+
+describe('CoAppearanceGraphService', () => {
+  let service: CoAppearanceGraphService;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  // 1 y 2 comparten dos episodios; 3 enlaza con 1 (episodio 3) y con 4 (episodio 4)
+  const characters = [
+    [1, [1, 2, 3]],
+    [2, [1, 2]],
+    [3, [3, 4]],
+    [4, [4]]
+  ].map(([id, episodeIds]) => ({
+    id,
+    name: `Character ${id}`,
+    episode: (episodeIds as number[]).map(episodeId => `${API_URL}/episode/${episodeId}`)
+  }) as Character);
+
+  const episodes = [1, 2, 3, 4].map(id => ({
+    id,
+    url: `${API_URL}/episode/${id}`,
+    characters: characters
+      .filter(character => character.episode.includes(`${API_URL}/episode/${id}`))
+      .map(character => `${API_URL}/character/${character.id}`)
+  }) as Episode);
+
+  const summarize = (graph: CoAppearanceGraph | null) => graph && {
+    nodes: graph.nodes.map(node => [node.character.id, node.depth]),
+    edges: graph.edges.map(edge => [edge.source, edge.target, edge.sharedEpisodes]),
+    truncated: graph.truncated
+  };
+
+  beforeEach(() => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getCharacterById', 'getMultipleCharacters', 'getMultipleEpisodes']);
+    mockApiService.getCharacterById.and.callFake(id => of(characters.find(character => character.id === id) ?? null));
+    mockApiService.getMultipleCharacters.and.callFake(ids => of(characters.filter(character => ids.includes(character.id))));
+    mockApiService.getMultipleEpisodes.and.callFake(ids => of(episodes.filter(episode => ids.includes(episode.id))));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: RickMortyApiService, useValue: mockApiService }]
+    });
+    service = TestBed.inject(CoAppearanceGraphService);
+  });
+
+  it('debería conectar al personaje central con quienes comparten episodios', () => {
+    let graph: CoAppearanceGraph | null = null;
+    service.buildGraph(1).subscribe(g => graph = g);
+
+    expect(mockApiService.getMultipleEpisodes).toHaveBeenCalledWith([1, 2, 3]);
+    expect(summarize(graph)).toEqual({
+      nodes: [[1, 0], [2, 1], [3, 1]],
+      edges: [[1, 2, 2], [1, 3, 1]],
+      truncated: false
+    });
+  });
+
+  it('debería añadir los vecinos de los vecinos hasta la profundidad indicada', () => {
+    let graph: CoAppearanceGraph | null = null;
+    service.buildGraph(1, { depth: 2 }).subscribe(g => graph = g);
+
+    expect(summarize(graph)?.nodes).toEqual([[1, 0], [2, 1], [3, 1], [4, 2]]);
+    expect(summarize(graph)?.edges).toContain([3, 4, 1]);
+  });
+
+  it('debería aplicar el mínimo de episodios compartidos a nodos y aristas', () => {
+    let graph: CoAppearanceGraph | null = null;
+    service.buildGraph(1, { depth: 2, minSharedEpisodes: 2 }).subscribe(g => graph = g);
+
+    expect(summarize(graph)).toEqual({ nodes: [[1, 0], [2, 1]], edges: [[1, 2, 2]], truncated: false });
+  });
+
+  it('debería conservar los vecinos más fuertes al alcanzar el límite de nodos', () => {
+    let graph: CoAppearanceGraph | null = null;
+    service.buildGraph(1, { maxNodes: 2 }).subscribe(g => graph = g);
+
+    expect(summarize(graph)).toEqual({ nodes: [[1, 0], [2, 1]], edges: [[1, 2, 2]], truncated: true });
+  });
+
+  it('debería emitir null si el personaje central no existe', () => {
+    let graph: CoAppearanceGraph | null | undefined;
+    service.buildGraph(999).subscribe(g => graph = g);
+
+    expect(graph).toBeNull();
+    expect(mockApiService.getMultipleEpisodes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { Injectable, inject } from '@angular/core';
+import { EMPTY, Observable, expand, last, map, of, switchMap } from 'rxjs';
+
+import { Character } from '../models/character.model';
+import { CoAppearanceGraph, CoAppearanceGraphOptions } from '../models/co-appearance.model';
+import { extractIdsFromUrls } from '../utils/api-url.utils';
+import { buildCoAppearanceEdges } from '../utils/co-appearance.utils';
+import { RickMortyApiService } from './rick-morty-api.service';
+
+export const DEFAULT_CO_APPEARANCE_OPTIONS: CoAppearanceGraphOptions = {
+  depth: 1,
+  minSharedEpisodes: 1,
+  maxNodes: 40
+};
+
+/**
+ * Estado de la búsqueda en anchura nivel a nivel
+ */
+interface GraphExpansion {
+  characters: Map<number, Character>;
+  depths: Map<number, number>;
+  frontier: Character[];
+  level: number;
+  truncated: boolean;
+}
+
+/**
+ * Construye la red de personajes que aparecen juntos en algún episodio
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CoAppearanceGraphService {
+  private readonly apiService = inject(RickMortyApiService);
+
+  /**
+   * Grafo centrado en un personaje. Cada nivel añade los personajes que comparten
+   * al menos `minSharedEpisodes` con algún personaje del nivel anterior; las aristas
+   * unen cualquier par de nodos que cumpla ese mínimo.
+   * @returns Observable con el grafo, o null si el personaje central no existe
+   */
+  buildGraph(centerId: number, options: Partial<CoAppearanceGraphOptions> = {}): Observable<CoAppearanceGraph | null> {
+    const settings = { ...DEFAULT_CO_APPEARANCE_OPTIONS, ...options };
+
+    return this.apiService.getCharacterById(centerId).pipe(
+      switchMap(center => {
+        if (!center) {
+          return of(null);
+        }
+
+        const initial: GraphExpansion = {
+          characters: new Map([[center.id, center]]),
+          depths: new Map([[center.id, 0]]),
+          frontier: [center],
+          level: 0,
+          truncated: false
+        };
+
+        return of(initial).pipe(
+          expand(state => state.level < settings.depth && state.frontier.length > 0
+            ? this.expandLevel(state, settings)
+            : EMPTY
+          ),
+          last(),
+          map(state => this.toGraph(center.id, state, settings))
+        );
+      })
+    );
+  }
+
+  /**
+   * Añade el siguiente nivel: carga los episodios de la frontera para saber quién
+   * aparece en ellos y después los personajes nuevos
+   */
+  private expandLevel(state: GraphExpansion, settings: CoAppearanceGraphOptions): Observable<GraphExpansion> {
+    const episodeIds = Array.from(new Set(state.frontier.flatMap(character => extractIdsFromUrls(character.episode))));
+
+    return this.apiService.getMultipleEpisodes(episodeIds).pipe(
+      switchMap(episodes => {
+        const castByEpisode = new Map(episodes.map(episode => [episode.id, extractIdsFromUrls(episode.characters)]));
+
+        // Puntuación de cada candidato: máximo de episodios compartidos con un nodo de la frontera
+        const scores = new Map<number, number>();
+        for (const character of state.frontier) {
+          const shared = new Map<number, number>();
+          for (const episodeId of extractIdsFromUrls(character.episode)) {
+            for (const id of castByEpisode.get(episodeId) ?? []) {
+              if (!state.characters.has(id)) {
+                shared.set(id, (shared.get(id) ?? 0) + 1);
+              }
+            }
+          }
+          shared.forEach((count, id) => scores.set(id, Math.max(scores.get(id) ?? 0, count)));
+        }
+
+        const candidates = Array.from(scores.entries())
+          .filter(([, count]) => count >= settings.minSharedEpisodes)
+          .sort(([idA, a], [idB, b]) => b - a || idA - idB)
+          .map(([id]) => id);
+        const available = Math.max(settings.maxNodes - state.characters.size, 0);
+        const newIds = candidates.slice(0, available);
+
+        return this.apiService.getMultipleCharacters(newIds).pipe(
+          map(characters => {
+            const next = new Map(state.characters);
+            const depths = new Map(state.depths);
+            characters.forEach(character => {
+              next.set(character.id, character);
+              depths.set(character.id, state.level + 1);
+            });
+
+            return {
+              characters: next,
+              depths,
+              frontier: characters,
+              level: state.level + 1,
+              truncated: state.truncated || candidates.length > available
+            };
+          })
+        );
+      })
+    );
+  }
+
+  private toGraph(centerId: number, state: GraphExpansion, settings: CoAppearanceGraphOptions): CoAppearanceGraph {
+    const characters = Array.from(state.characters.values());
+
+    return {
+      centerId,
+      nodes: characters.map(character => ({ character, depth: state.depths.get(character.id) ?? 0 })),
+      edges: buildCoAppearanceEdges(characters, settings.minSharedEpisodes),
+      truncated: state.truncated
+    };
+  }
+}
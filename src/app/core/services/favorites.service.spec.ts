@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FAVORITES_STORAGE_KEY, FavoritesService } from './favorites.service';
+
+describe('FavoritesService', () => {
+  const createService = () => {
+    TestBed.configureTestingModule({});
+    return TestBed.inject(FavoritesService);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+  });
+
+  it('debería migrar el formato antiguo (array de IDs) sin perder datos', () => {
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify([1, '2', 3, 3, 'abc']));
+    const service = createService();
+
+    expect(service.ids()).toEqual([1, 2, 3]);
+    const stored = JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY)!);
+    expect(stored.version).toBe(2);
+    expect(stored.favorites.map((entry: { id: number }) => entry.id)).toEqual([1, 2, 3]);
+  });
+
+  it('debería alternar favoritos y persistirlos', () => {
+    const service = createService();
+
+    service.toggle(5);
+    expect(service.isFavorite(5)).toBe(true);
+    expect(localStorage.getItem(FAVORITES_STORAGE_KEY)).toContain('"id":5');
+
+    service.toggle(5);
+    expect(service.isFavorite(5)).toBe(false);
+    expect(service.count()).toBe(0);
+  });
+
+  it('debería sincronizarse con los cambios de otras pestañas', () => {
+    const service = createService();
+    const newValue = JSON.stringify({ version: 2, favorites: [{ id: 7, addedAt: '2024-01-01T00:00:00.000Z' }] });
+
+    localStorage.setItem(FAVORITES_STORAGE_KEY, newValue);
+    window.dispatchEvent(new StorageEvent('storage', { key: FAVORITES_STORAGE_KEY, newValue }));
+
+    expect(service.ids()).toEqual([7]);
+  });
+
+  it('debería importar un archivo combinándolo con los favoritos existentes', async () => {
+    const service = createService();
+    service.add(1);
+
+    const file = new File([JSON.stringify([1, 2, 3])], 'favorites.json', { type: 'application/json' });
+    const added = await service.importFromFile(file);
+
+    expect(added).toBe(2);
+    expect(service.ids()).toEqual([1, 2, 3]);
+  });
+
+  it('debería rechazar archivos con un formato no reconocido', async () => {
+    const service = createService();
+    const file = new File([JSON.stringify({ foo: 'bar' })], 'favorites.json');
+
+    await expectAsync(service.importFromFile(file)).toBeRejected();
+    expect(service.count()).toBe(0);
+  });
+});
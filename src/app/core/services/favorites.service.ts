@@ -0,0 +1,175 @@
+import { Injectable, OnDestroy, computed, signal } from '@angular/core';
+
+export interface FavoriteEntry {
+  id: number;
+  addedAt: string;
+}
+
+/**
+ * Formato guardado en localStorage y en los archivos exportados.
+ * La versión 1 (implícita) era un array plano de IDs.
+ */
+export interface FavoritesData {
+  version: 2;
+  favorites: FavoriteEntry[];
+}
+
+export const FAVORITES_STORAGE_KEY = 'rickmorty_favorites';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FavoritesService implements OnDestroy {
+  private readonly entries = signal<FavoriteEntry[]>([]);
+
+  // Favoritos en el orden en que se añadieron
+  readonly favorites = this.entries.asReadonly();
+  readonly ids = computed(() => this.entries().map(entry => entry.id));
+  readonly count = computed(() => this.entries().length);
+
+  // Sincroniza los cambios hechos en otras pestañas
+  private readonly storageListener = (event: StorageEvent) => {
+    if (event.key === FAVORITES_STORAGE_KEY || event.key === null) {
+      this.entries.set(this.load());
+    }
+  };
+
+  constructor() {
+    this.entries.set(this.load());
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  ngOnDestroy(): void {
+    window.removeEventListener('storage', this.storageListener);
+  }
+
+  /**
+   * Verifica si un personaje es favorito
+   */
+  isFavorite(characterId: number): boolean {
+    return this.entries().some(entry => entry.id === characterId);
+  }
+
+  /**
+   * Alterna el estado de favorito de un personaje
+   */
+  toggle(characterId: number): void {
+    if (this.isFavorite(characterId)) {
+      this.remove(characterId);
+    } else {
+      this.add(characterId);
+    }
+  }
+
+  add(characterId: number): void {
+    if (this.isFavorite(characterId)) return;
+    this.save([...this.entries(), { id: characterId, addedAt: new Date().toISOString() }]);
+  }
+
+  remove(characterId: number): void {
+    this.save(this.entries().filter(entry => entry.id !== characterId));
+  }
+
+  clear(): void {
+    this.save([]);
+  }
+
+  /**
+   * Descarga los favoritos como archivo JSON
+   */
+  exportToFile(): void {
+    const data: FavoritesData = { version: 2, favorites: this.entries() };
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `rick-morty-favorites-${new Date().toISOString().split('T')[0]}.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Importa favoritos desde un archivo JSON (formato actual o array de IDs)
+   * @param file Archivo seleccionado por el usuario
+   * @param mode 'merge' añade a los existentes, 'replace' los sustituye
+   * @returns Número de favoritos nuevos importados
+   */
+  async importFromFile(file: File, mode: 'merge' | 'replace' = 'merge'): Promise<number> {
+    const imported = this.parse(JSON.parse(await file.text()));
+    if (imported === null) {
+      throw new Error('The file does not contain a valid favorites list');
+    }
+
+    const current = mode === 'replace' ? [] : this.entries();
+    const newEntries = imported.filter(entry => !current.some(existing => existing.id === entry.id));
+    this.save([...current, ...newEntries]);
+    return newEntries.length;
+  }
+
+  /**
+   * Carga los favoritos de localStorage, migrando el formato antiguo si hace falta
+   */
+  private load(): FavoriteEntry[] {
+    const stored = localStorage.getItem(FAVORITES_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      const raw = JSON.parse(stored);
+      const entries = this.parse(raw) ?? [];
+      // Reescribir en el formato actual los datos de la versión anterior
+      if (Array.isArray(raw)) {
+        this.write(entries);
+      }
+      return entries;
+    } catch (error) {
+      console.error('Error reading favorites:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Valida datos de favoritos en cualquiera de los formatos soportados
+   * @returns Las entradas válidas sin duplicados, o null si el formato no es reconocible
+   */
+  private parse(raw: unknown): FavoriteEntry[] | null {
+    let candidates: unknown[];
+
+    if (Array.isArray(raw)) {
+      // Versión 1: array de IDs (números o strings numéricos)
+      const migratedAt = new Date().toISOString();
+      candidates = raw.map(id => ({ id: Number(id), addedAt: migratedAt }));
+    } else if (raw && typeof raw === 'object' && Array.isArray((raw as FavoritesData).favorites)) {
+      candidates = (raw as FavoritesData).favorites;
+    } else {
+      return null;
+    }
+
+    const entries: FavoriteEntry[] = [];
+    for (const candidate of candidates) {
+      const entry = candidate as Partial<FavoriteEntry> | null;
+      const id = Number(entry?.id);
+      if (Number.isInteger(id) && id > 0 && !entries.some(existing => existing.id === id)) {
+        const addedAt = typeof entry?.addedAt === 'string' && !Number.isNaN(Date.parse(entry.addedAt))
+          ? entry.addedAt
+          : new Date().toISOString();
+        entries.push({ id, addedAt });
+      }
+    }
+    return entries;
+  }
+
+  private save(entries: FavoriteEntry[]): void {
+    this.entries.set(entries);
+    this.write(entries);
+  }
+
+  private write(entries: FavoriteEntry[]): void {
+    const data: FavoritesData = { version: 2, favorites: entries };
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(data));
+  }
+}
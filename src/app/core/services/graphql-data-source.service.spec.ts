@@ -0,0 +1,109 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { RickMortyApiService } from './rick-morty-api.service';
+import { provideRickMortyDataSource } from './rick-morty-data-source';
+import { ApiResponse, Character, CharacterDetailData } from '../models/character.model';
+
+describe('GraphqlDataSource', () => {
+  let service: RickMortyApiService;
+  let httpMock: HttpTestingController;
+
+  // Servidor stub local: las peticiones se responden con HttpTestingController
+  const GRAPHQL_URL = 'http://localhost:4000/graphql';
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  const rawCharacter = {
+    id: '1',
+    name: 'Rick Sanchez',
+    status: 'Alive',
+    species: 'Human',
+    type: '',
+    gender: 'Male',
+    image: `${API_URL}/character/avatar/1.jpeg`,
+    created: '2017-11-04T18:48:46.250Z',
+    origin: { id: null, name: 'unknown' },
+    location: { id: '3', name: 'Citadel of Ricks' },
+    episode: [{ id: '1' }, { id: '2' }]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRickMortyDataSource({ type: 'graphql', url: GRAPHQL_URL })
+      ]
+    });
+
+    service = TestBed.inject(RickMortyApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('debería mapear la página de personajes a ApiResponse con URLs de la API REST', () => {
+    let response: ApiResponse<Character> | undefined;
+    service.getCharacters({ name: 'Rick', status: '', page: 2 }).subscribe(r => response = r);
+
+    const request = httpMock.expectOne(GRAPHQL_URL);
+    expect(request.request.method).toBe('POST');
+    expect(request.request.body.variables).toEqual({ page: 2, filter: { name: 'Rick' } });
+    // Los listados solo piden el ID de los episodios
+    expect(request.request.body.query).toContain('episode { id }');
+    request.flush({
+      data: { characters: { info: { count: 107, pages: 6, next: 3, prev: 1 }, results: [rawCharacter] } }
+    });
+
+    expect(response?.info).toEqual({
+      count: 107,
+      pages: 6,
+      next: `${API_URL}/character?page=3&name=Rick`,
+      prev: `${API_URL}/character?page=1&name=Rick`
+    });
+    expect(response?.results[0]).toEqual(jasmine.objectContaining({
+      id: 1,
+      origin: { name: 'unknown', url: '' },
+      location: { name: 'Citadel of Ricks', url: `${API_URL}/location/3` },
+      episode: [`${API_URL}/episode/1`, `${API_URL}/episode/2`],
+      url: `${API_URL}/character/1`
+    }));
+  });
+
+  it('debería resolver el detalle del personaje en una sola consulta', () => {
+    let detail: CharacterDetailData | null | undefined;
+    service.getCharacterDetail(1).subscribe(d => detail = d);
+
+    httpMock.expectOne(GRAPHQL_URL).flush({
+      data: {
+        character: {
+          ...rawCharacter,
+          origin: { id: null, name: 'unknown', type: '', dimension: '', created: '', residents: [] },
+          location: { id: '3', name: 'Citadel of Ricks', type: 'Space station', dimension: 'unknown', created: '', residents: [{ id: '1' }] },
+          episode: [{ id: '1', name: 'Pilot', air_date: 'December 2, 2013', episode: 'S01E01', created: '', characters: [{ id: '1' }] }]
+        }
+      }
+    });
+
+    expect(detail?.character.name).toBe('Rick Sanchez');
+    expect(detail?.episodes?.map(episode => episode.episode)).toEqual(['S01E01']);
+    expect(detail?.origin).toBeNull();
+    expect(detail?.location?.residents).toEqual([`${API_URL}/character/1`]);
+  });
+
+  it('debería tratar los errores 404 de GraphQL como recursos inexistentes', () => {
+    let response: ApiResponse<Character> | undefined;
+    let character: Character | null | undefined;
+    service.getCharacters({ name: 'zzz' }).subscribe(r => response = r);
+    httpMock.expectOne(GRAPHQL_URL).flush({ data: { characters: null }, errors: [{ message: '404: Not Found' }] });
+
+    service.getCharacterById(9999).subscribe(c => character = c);
+    httpMock.expectOne(GRAPHQL_URL).flush({ data: { character: null } });
+
+    expect(response?.results).toEqual([]);
+    expect(character).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+
+import { ApiResponse, Character, CharacterDetailData, CharacterFilters, CharacterGender, CharacterStatus, Info } from '../models/character.model';
+import { Episode, EpisodeFilters } from '../models/episode.model';
+import { LocationDetail, LocationFilters } from '../models/location.model';
+import { ApiError } from '../models/api-error.model';
+import { RickMortyDataSource } from './rick-morty-data-source';
+import { API_BASE_URL } from './api-base-url';
+
+export interface GraphqlDataSourceConfig {
+  /** Endpoint GraphQL (p. ej. un servidor stub local para pruebas) */
+  url: string;
+}
+
+export const GRAPHQL_DATA_SOURCE_CONFIG = new InjectionToken<GraphqlDataSourceConfig>('GRAPHQL_DATA_SOURCE_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({ url: 'https://rickandmortyapi.com/graphql' })
+});
+
+interface GraphqlResponse<T> {
+  data?: T | null;
+  errors?: { message: string }[];
+}
+
+interface RawRef {
+  id: string | null;
+}
+
+interface RawPage<T> {
+  info: { count: number; pages: number; next: number | null; prev: number | null };
+  results: T[];
+}
+
+interface RawCharacter {
+  id: string;
+  name: string;
+  status: CharacterStatus;
+  species: string;
+  type: string;
+  gender: CharacterGender;
+  image: string;
+  created: string;
+  origin: RawRef & { name: string };
+  location: RawRef & { name: string };
+  episode: RawRef[];
+}
+
+interface RawEpisode {
+  id: string;
+  name: string;
+  air_date: string;
+  episode: string;
+  created: string;
+  characters: RawRef[];
+}
+
+interface RawLocation {
+  id: string | null;
+  name: string;
+  type: string;
+  dimension: string;
+  created: string;
+  residents: RawRef[];
+}
+
+interface RawCharacterDetail extends Omit<RawCharacter, 'origin' | 'location' | 'episode'> {
+  origin: RawLocation;
+  location: RawLocation;
+  episode: RawEpisode[];
+}
+
+// Campos que necesita cada vista: en los listados las relaciones solo llevan el ID
+const INFO_FIELDS = 'info { count pages next prev }';
+const CHARACTER_BASE_FIELDS = 'id name status species type gender image created';
+const CHARACTER_FIELDS = `${CHARACTER_BASE_FIELDS} origin { id name } location { id name } episode { id }`;
+const EPISODE_FIELDS = 'id name air_date episode created characters { id }';
+const LOCATION_FIELDS = 'id name type dimension created residents { id }';
+
+/**
+ * Backend GraphQL de la API (https://rickandmortyapi.com/documentation/#graphql).
+ * Mapea las respuestas a los mismos modelos que la API REST, reconstruyendo las URLs.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GraphqlDataSource implements RickMortyDataSource {
+  private readonly http = inject(HttpClient);
+  private readonly config = inject(GRAPHQL_DATA_SOURCE_CONFIG);
+  private readonly apiUrl = inject(API_BASE_URL);
+
+  getCharacters(filters: CharacterFilters): Observable<ApiResponse<Character>> {
+    const { page, ...filter } = filters;
+    return this.query<{ characters: RawPage<RawCharacter> | null }>(
+      `query Characters($page: Int, $filter: FilterCharacter) {
+        characters(page: $page, filter: $filter) { ${INFO_FIELDS} results { ${CHARACTER_FIELDS} } }
+      }`,
+      { page: page ?? 1, filter: this.compact(filter) }
+    ).pipe(
+      map(data => this.toApiResponse(this.required(data.characters), 'character', filter, character => this.toCharacter(character)))
+    );
+  }
+
+  getCharacterById(id: number): Observable<Character> {
+    return this.query<{ character: RawCharacter | null }>(
+      `query Character($id: ID!) { character(id: $id) { ${CHARACTER_FIELDS} } }`,
+      { id }
+    ).pipe(
+      map(data => this.toCharacter(this.required(data.character)))
+    );
+  }
+
+  getMultipleCharacters(ids: number[]): Observable<Character[]> {
+    return this.query<{ charactersByIds: (RawCharacter | null)[] | null }>(
+      `query CharactersByIds($ids: [ID!]!) { charactersByIds(ids: $ids) { ${CHARACTER_FIELDS} } }`,
+      { ids }
+    ).pipe(
+      map(data => this.present(data.charactersByIds).map(character => this.toCharacter(character)))
+    );
+  }
+
+  /**
+   * Personaje con sus episodios, origen y ubicación en una sola consulta
+   */
+  getCharacterDetail(id: number): Observable<CharacterDetailData> {
+    return this.query<{ character: RawCharacterDetail | null }>(
+      `query CharacterDetail($id: ID!) {
+        character(id: $id) {
+          ${CHARACTER_BASE_FIELDS}
+          origin { ${LOCATION_FIELDS} }
+          location { ${LOCATION_FIELDS} }
+          episode { ${EPISODE_FIELDS} }
+        }
+      }`,
+      { id }
+    ).pipe(
+      map(data => {
+        const raw = this.required(data.character);
+        return {
+          character: this.toCharacter(raw),
+          episodes: raw.episode.map(episode => this.toEpisode(episode)),
+          // Las ubicaciones "unknown" no tienen ID
+          origin: raw.origin?.id ? this.toLocation(raw.origin) : null,
+          location: raw.location?.id ? this.toLocation(raw.location) : null
+        };
+      })
+    );
+  }
+
+  getEpisodes(filters: EpisodeFilters): Observable<ApiResponse<Episode>> {
+    const { page, ...filter } = filters;
+    return this.query<{ episodes: RawPage<RawEpisode> | null }>(
+      `query Episodes($page: Int, $filter: FilterEpisode) {
+        episodes(page: $page, filter: $filter) { ${INFO_FIELDS} results { ${EPISODE_FIELDS} } }
+      }`,
+      { page: page ?? 1, filter: this.compact(filter) }
+    ).pipe(
+      map(data => this.toApiResponse(this.required(data.episodes), 'episode', filter, episode => this.toEpisode(episode)))
+    );
+  }
+
+  getEpisodeById(id: number): Observable<Episode> {
+    return this.query<{ episode: RawEpisode | null }>(
+      `query Episode($id: ID!) { episode(id: $id) { ${EPISODE_FIELDS} } }`,
+      { id }
+    ).pipe(
+      map(data => this.toEpisode(this.required(data.episode)))
+    );
+  }
+
+  getMultipleEpisodes(ids: number[]): Observable<Episode[]> {
+    return this.query<{ episodesByIds: (RawEpisode | null)[] | null }>(
+      `query EpisodesByIds($ids: [ID!]!) { episodesByIds(ids: $ids) { ${EPISODE_FIELDS} } }`,
+      { ids }
+    ).pipe(
+      map(data => this.present(data.episodesByIds).map(episode => this.toEpisode(episode)))
+    );
+  }
+
+  getLocations(filters: LocationFilters): Observable<ApiResponse<LocationDetail>> {
+    const { page, ...filter } = filters;
+    return this.query<{ locations: RawPage<RawLocation> | null }>(
+      `query Locations($page: Int, $filter: FilterLocation) {
+        locations(page: $page, filter: $filter) { ${INFO_FIELDS} results { ${LOCATION_FIELDS} } }
+      }`,
+      { page: page ?? 1, filter: this.compact(filter) }
+    ).pipe(
+      map(data => this.toApiResponse(this.required(data.locations), 'location', filter, location => this.toLocation(location)))
+    );
+  }
+
+  getLocationById(id: number): Observable<LocationDetail> {
+    return this.query<{ location: RawLocation | null }>(
+      `query Location($id: ID!) { location(id: $id) { ${LOCATION_FIELDS} } }`,
+      { id }
+    ).pipe(
+      map(data => this.toLocation(this.required(data.location)))
+    );
+  }
+
+  getMultipleLocations(ids: number[]): Observable<LocationDetail[]> {
+    return this.query<{ locationsByIds: (RawLocation | null)[] | null }>(
+      `query LocationsByIds($ids: [ID!]!) { locationsByIds(ids: $ids) { ${LOCATION_FIELDS} } }`,
+      { ids }
+    ).pipe(
+      map(data => this.present(data.locationsByIds).map(location => this.toLocation(location)))
+    );
+  }
+
+  /**
+   * Ejecuta una consulta. Los errores GraphQL llegan con HTTP 200: un "404" se
+   * convierte en ApiError 'not-found' y el resto en 'unknown'.
+   */
+  private query<T>(query: string, variables: Record<string, unknown>): Observable<T> {
+    return this.http.post<GraphqlResponse<T>>(this.config.url, { query, variables }).pipe(
+      map(response => {
+        if (response.errors?.length) {
+          const notFound = response.errors.some(error => error.message.includes('404'));
+          throw new ApiError(notFound ? 'not-found' : 'unknown', notFound ? 404 : 0, response.errors);
+        }
+        if (!response.data) {
+          throw new ApiError('unknown', 0, response);
+        }
+        return response.data;
+      })
+    );
+  }
+
+  /**
+   * Un recurso null en la respuesta equivale a un 404 de la API REST
+   */
+  private required<T>(value: T | null | undefined): T {
+    if (value === null || value === undefined) {
+      throw new ApiError('not-found', 404);
+    }
+    return value;
+  }
+
+  private present<T>(values: (T | null)[] | null): T[] {
+    return (values ?? []).filter((value): value is T => value !== null);
+  }
+
+  /**
+   * Descarta filtros vacíos (la API GraphQL trata "" como filtro literal)
+   */
+  private compact(filter: object): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(filter).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    );
+  }
+
+  private toApiResponse<R, T>(
+    page: RawPage<R>,
+    resource: string,
+    filter: object,
+    mapItem: (item: R) => T
+  ): ApiResponse<T> {
+    return {
+      info: this.toInfo(page.info, resource, filter),
+      results: page.results.map(mapItem)
+    };
+  }
+
+  /**
+   * GraphQL devuelve números de página en next/prev; se convierten en las URLs de la API REST
+   */
+  private toInfo(info: RawPage<unknown>['info'], resource: string, filter: object): Info {
+    const pageUrl = (page: number | null) => {
+      if (page === null) return null;
+      const params = new HttpParams({ fromObject: { page, ...this.compact(filter) } });
+      return `${this.apiUrl}/${resource}?${params.toString()}`;
+    };
+    return { count: info.count, pages: info.pages, next: pageUrl(info.next), prev: pageUrl(info.prev) };
+  }
+
+  private toCharacter(raw: RawCharacter | RawCharacterDetail): Character {
+    return {
+      id: Number(raw.id),
+      name: raw.name,
+      status: raw.status,
+      species: raw.species,
+      type: raw.type,
+      gender: raw.gender,
+      origin: { name: raw.origin?.name ?? 'unknown', url: this.resourceUrl('location', raw.origin?.id) },
+      location: { name: raw.location?.name ?? 'unknown', url: this.resourceUrl('location', raw.location?.id) },
+      image: raw.image,
+      episode: raw.episode.map(episode => this.resourceUrl('episode', episode.id)),
+      url: this.resourceUrl('character', raw.id),
+      created: raw.created
+    };
+  }
+
+  private toEpisode(raw: RawEpisode): Episode {
+    return {
+      id: Number(raw.id),
+      name: raw.name,
+      air_date: raw.air_date,
+      episode: raw.episode,
+      characters: raw.characters.map(character => this.resourceUrl('character', character.id)),
+      url: this.resourceUrl('episode', raw.id),
+      created: raw.created
+    };
+  }
+
+  private toLocation(raw: RawLocation): LocationDetail {
+    return {
+      id: Number(raw.id),
+      name: raw.name,
+      type: raw.type,
+      dimension: raw.dimension,
+      residents: raw.residents.map(resident => this.resourceUrl('character', resident.id)),
+      url: this.resourceUrl('location', raw.id),
+      created: raw.created
+    };
+  }
+
+  private resourceUrl(resource: string, id: string | null | undefined): string {
+    return id ? `${this.apiUrl}/${resource}/${id}` : '';
+  }
+}
@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+
+import { I18nService, LOCALE_STORAGE_KEY } from './i18n.service';
+
+describe('I18nService', () => {
+  const createService = () => {
+    TestBed.configureTestingModule({});
+    return TestBed.inject(I18nService);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem(LOCALE_STORAGE_KEY);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(LOCALE_STORAGE_KEY);
+  });
+
+  it('debería usar inglés sin idioma guardado', () => {
+    const service = createService();
+
+    expect(service.locale()).toBe('en');
+    expect(service.t('nav.characters')).toBe('Characters');
+  });
+
+  it('debería cambiar de idioma y recordarlo entre sesiones', async () => {
+    await createService().setLocale('es');
+
+    expect(localStorage.getItem(LOCALE_STORAGE_KEY)).toBe('es');
+
+    TestBed.resetTestingModule();
+    const service = createService();
+    await service.ready;
+    expect(service.locale()).toBe('es');
+    expect(service.t('nav.characters')).toBe('Personajes');
+  });
+
+  it('debería mantener el idioma actual hasta cargar el catálogo del nuevo', async () => {
+    const service = createService();
+    const loaded = service.setLocale('es');
+
+    expect(service.locale()).toBe('en');
+    expect(service.t('nav.characters')).toBe('Characters');
+
+    await loaded;
+    expect(service.t('nav.characters')).toBe('Personajes');
+  });
+
+  it('debería aplicar solo el último idioma elegido', async () => {
+    const service = createService();
+    const spanish = service.setLocale('es');
+    await service.setLocale('en');
+    await spanish;
+
+    expect(service.locale()).toBe('en');
+  });
+
+  it('debería ignorar un idioma guardado que no existe', () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'fr');
+
+    expect(createService().locale()).toBe('en');
+  });
+
+  it('debería elegir la forma plural e interpolar los parámetros', () => {
+    const service = createService();
+
+    expect(service.t('characters.announce.found', { count: 1 })).toBe('1 character found');
+    expect(service.t('characters.announce.found', { count: 826 })).toBe('826 characters found');
+    expect(service.t('savedSearch.saved', { name: 'Dead Ricks' })).toBe('Saved search "Dead Ricks"');
+  });
+
+  it('debería formatear números y fechas según el idioma', async () => {
+    const service = createService();
+    expect(service.t('characters.announce.found', { count: 1234 })).toBe('1,234 characters found');
+
+    await service.setLocale('es');
+    expect(service.t('characters.announce.found', { count: 12345 })).toBe('12.345 personajes encontrados');
+    expect(service.formatNumber(2.5, '1.0-1')).toBe('2,5');
+    expect(service.formatDate(new Date(2017, 10, 4), 'longDate')).toBe('4 de noviembre de 2017');
+  });
+});
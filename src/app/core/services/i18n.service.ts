@@ -0,0 +1,107 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT, formatDate, formatNumber, registerLocaleData } from '@angular/common';
+
+import { APP_LOCALES, AppLocale, Message, MessageParams } from '../models/i18n.model';
+import { EN_MESSAGES, MessageKey } from '../i18n/messages.en';
+
+export const LOCALE_STORAGE_KEY = 'rickmorty_locale';
+
+const LOCALE_IDS: Record<AppLocale, string> = { en: 'en-US', es: 'es' };
+
+type Messages = Partial<Record<MessageKey, Message>>;
+
+// El inglés va en el bundle inicial (es el idioma de respaldo); los demás catálogos,
+// con sus datos de formato de fechas y números, se descargan al elegir el idioma
+const CATALOG_LOADERS: Record<Exclude<AppLocale, 'en'>, () => Promise<Messages>> = {
+  es: async () => {
+    const [{ ES_MESSAGES }, { default: localeEs }] = await Promise.all([
+      import('../i18n/messages.es'),
+      import('@angular/common/locales/es')
+    ]);
+    registerLocaleData(localeEs);
+    return ES_MESSAGES;
+  }
+};
+
+/**
+ * Idioma de la interfaz, elegido en tiempo de ejecución y guardado en localStorage
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+  private readonly document = inject(DOCUMENT);
+  private readonly current = signal<AppLocale>('en');
+  private readonly catalogs = new Map<AppLocale, Messages>([['en', EN_MESSAGES]]);
+  private requested: AppLocale = 'en';
+
+  readonly locale = this.current.asReadonly();
+  /** Identificador de locale de Angular para formatear fechas y números */
+  readonly localeId = computed(() => LOCALE_IDS[this.current()]);
+  private readonly pluralRules = computed(() => new Intl.PluralRules(this.localeId()));
+
+  /** Se resuelve al activar el idioma guardado (app.config.ts espera a ello al arrancar) */
+  readonly ready: Promise<void>;
+
+  constructor() {
+    effect(() => this.document.documentElement.lang = this.current());
+    this.ready = this.activate(this.load());
+  }
+
+  /**
+   * Cambia de idioma; se resuelve cuando su catálogo está cargado y activo
+   */
+  setLocale(locale: AppLocale): Promise<void> {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    return this.activate(locale);
+  }
+
+  /**
+   * Traduce un mensaje. Los parámetros numéricos se formatean según el idioma
+   * y `count` elige la forma plural.
+   */
+  t(key: MessageKey, params: MessageParams = {}): string {
+    const message = this.catalogs.get(this.current())?.[key] ?? EN_MESSAGES[key] ?? key;
+    const text = typeof message === 'string' ? message : this.pluralForm(message, params['count']);
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? this.formatNumber(value) : value;
+    });
+  }
+
+  formatNumber(value: number, digitsInfo?: string): string {
+    return formatNumber(value, this.localeId(), digitsInfo);
+  }
+
+  formatDate(value: string | number | Date, format = 'mediumDate'): string {
+    return formatDate(value, format, this.localeId());
+  }
+
+  private pluralForm(message: Exclude<Message, string>, count: string | number | undefined): string {
+    const form = typeof count === 'number' ? this.pluralRules().select(count) : 'other';
+    return (form === 'one' ? message.one : undefined) ?? message.other;
+  }
+
+  private async activate(locale: AppLocale): Promise<void> {
+    this.requested = locale;
+    if (locale !== 'en' && !this.catalogs.has(locale)) {
+      try {
+        this.catalogs.set(locale, await CATALOG_LOADERS[locale]());
+      } catch {
+        // Sin el catálogo (p. ej. sin conexión y sin caché) se mantiene el idioma actual
+        return;
+      }
+    }
+    // Si entretanto se eligió otro idioma, prevalece el último
+    if (this.requested === locale) {
+      this.current.set(locale);
+    }
+  }
+
+  private load(): AppLocale {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return APP_LOCALES.find(locale => locale === stored) ?? 'en';
+  }
+}
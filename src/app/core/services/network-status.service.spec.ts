@@ -0,0 +1,19 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NetworkStatusService } from './network-status.service';
+
+describe('NetworkStatusService', () => {
+  it('debería seguir los eventos online/offline del navegador', () => {
+    const onLine = spyOnProperty(navigator, 'onLine').and.returnValue(true);
+    const service = TestBed.inject(NetworkStatusService);
+    expect(service.online()).toBe(true);
+
+    onLine.and.returnValue(false);
+    window.dispatchEvent(new Event('offline'));
+    expect(service.online()).toBe(false);
+
+    onLine.and.returnValue(true);
+    window.dispatchEvent(new Event('online'));
+    expect(service.online()).toBe(true);
+  });
+});
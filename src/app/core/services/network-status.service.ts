@@ -0,0 +1,25 @@
+import { Injectable, OnDestroy, signal } from '@angular/core';
+
+/**
+ * Estado de la conexión del navegador (eventos online/offline de window)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NetworkStatusService implements OnDestroy {
+  private readonly status = signal(navigator.onLine);
+
+  readonly online = this.status.asReadonly();
+
+  private readonly listener = () => this.status.set(navigator.onLine);
+
+  constructor() {
+    window.addEventListener('online', this.listener);
+    window.addEventListener('offline', this.listener);
+  }
+
+  ngOnDestroy(): void {
+    window.removeEventListener('online', this.listener);
+    window.removeEventListener('offline', this.listener);
+  }
+}
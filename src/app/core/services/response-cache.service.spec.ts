@@ -0,0 +1,132 @@
+import { signal } from '@angular/core';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+
+import { ResponseCacheService, provideResponseCache } from './response-cache.service';
+import { NetworkStatusService } from './network-status.service';
+
+describe('ResponseCacheService', () => {
+  let service: ResponseCacheService;
+
+  const online = signal(true);
+
+  const setup = (config: Parameters<typeof provideResponseCache>[0] = {}) => {
+    online.set(true);
+    TestBed.configureTestingModule({
+      providers: [
+        provideResponseCache({ ttlMs: 1000, ...config }),
+        { provide: NetworkStatusService, useValue: { online } }
+      ]
+    });
+    service = TestBed.inject(ResponseCacheService);
+  };
+
+  afterEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('debería devolver la respuesta cacheada mientras no expire el TTL', fakeAsync(() => {
+    setup();
+    const request = jasmine.createSpy('request').and.callFake(() => of('value'));
+
+    service.get('key', request).subscribe();
+    tick(999);
+    service.get('key', request).subscribe();
+    expect(request).toHaveBeenCalledTimes(1);
+
+    tick(1);
+    service.get('key', request).subscribe();
+    expect(request).toHaveBeenCalledTimes(2);
+  }));
+
+  it('debería compartir una sola petición entre llamadas concurrentes', () => {
+    setup();
+    const response$ = new Subject<string>();
+    const request = jasmine.createSpy('request').and.returnValue(response$);
+    const results: string[] = [];
+
+    service.get<string>('key', request).subscribe(value => results.push(value));
+    service.get<string>('key', request).subscribe(value => results.push(value));
+    response$.next('value');
+    response$.complete();
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(['value', 'value']);
+  });
+
+  it('no debería cachear errores', () => {
+    setup();
+    const request = jasmine.createSpy('request').and.returnValues(throwError(() => new Error('boom')), of('value'));
+
+    service.get('key', request).subscribe({ error: () => undefined });
+    let result: string | undefined;
+    service.get<string>('key', request).subscribe(value => result = value);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(result).toBe('value');
+  });
+
+  it('debería invalidar manualmente por prefijo', () => {
+    setup();
+    const request = jasmine.createSpy('request').and.callFake(() => of('value'));
+
+    service.get('character?page=2', request).subscribe();
+    service.get('episode/1', request).subscribe();
+    service.invalidate('character');
+    service.get('character?page=2', request).subscribe();
+    service.get('episode/1', request).subscribe();
+
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('no debería guardar la respuesta de una petición invalidada mientras estaba en curso', () => {
+    setup();
+    const stale$ = new Subject<string>();
+    const fresh$ = new Subject<string>();
+    const request = jasmine.createSpy('request').and.returnValues(stale$, fresh$, of('other'));
+    const results: string[] = [];
+
+    service.get<string>('character/1', request).subscribe(value => results.push(value));
+    service.invalidate('character');
+    service.get<string>('character/1', request).subscribe(value => results.push(value));
+    stale$.next('stale');
+    stale$.complete();
+    service.get<string>('character/1', request).subscribe(value => results.push(value));
+    fresh$.next('fresh');
+    fresh$.complete();
+    service.get<string>('character/1', request).subscribe(value => results.push(value));
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(results).toEqual(['stale', 'fresh', 'fresh', 'fresh']);
+  });
+
+  it('debería persistir las respuestas en sessionStorage si se configura', () => {
+    setup({ storage: 'session' });
+    service.get('character/1', () => of({ id: 1 })).subscribe();
+
+    expect(sessionStorage.getItem('rickmorty_cache:character/1')).toContain('"id":1');
+  });
+
+  it('debería servir las respuestas caducadas sin conexión', fakeAsync(() => {
+    setup();
+    const request = jasmine.createSpy('request').and.callFake(() => of('value'));
+
+    service.get('key', request).subscribe();
+    tick(1000);
+    online.set(false);
+    let result: string | undefined;
+    service.get<string>('key', request).subscribe(value => result = value);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(result).toBe('value');
+  }));
+
+  it('debería listar por prefijo las respuestas de memoria y del almacenamiento', () => {
+    sessionStorage.setItem('rickmorty_cache:character/2', JSON.stringify({ value: { id: 2 }, expiresAt: 0 }));
+    setup({ storage: 'session' });
+    service.get('character/1', () => of({ id: 1 })).subscribe();
+    service.get('episode/1', () => of({ id: 10 })).subscribe();
+
+    expect(service.values<{ id: number }>('character/').map(value => value.id).sort()).toEqual([1, 2]);
+  });
+});
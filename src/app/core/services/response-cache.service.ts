@@ -0,0 +1,212 @@
+import { Injectable, InjectionToken, Provider, inject } from '@angular/core';
+import { Observable, finalize, of, share, tap } from 'rxjs';
+
+import { NetworkStatusService } from './network-status.service';
+
+export type ResponseCacheStorage = 'none' | 'session' | 'local';
+
+export interface ResponseCacheConfig {
+  /** Tiempo de vida de cada respuesta en milisegundos */
+  ttlMs: number;
+  /** Dónde persistir las respuestas además de en memoria */
+  storage: ResponseCacheStorage;
+  /** Número máximo de respuestas en memoria (se descartan las más antiguas) */
+  maxEntries: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  ttlMs: 5 * 60 * 1000,
+  storage: 'none',
+  maxEntries: 200
+};
+
+export const RESPONSE_CACHE_CONFIG = new InjectionToken<ResponseCacheConfig>('RESPONSE_CACHE_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_RESPONSE_CACHE_CONFIG
+});
+
+/**
+ * Configura la caché de respuestas de la API (ver app.config.ts)
+ */
+export function provideResponseCache(config: Partial<ResponseCacheConfig> = {}): Provider {
+  return {
+    provide: RESPONSE_CACHE_CONFIG,
+    useValue: { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...config }
+  };
+}
+
+const STORAGE_PREFIX = 'rickmorty_cache:';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ResponseCacheService {
+  private readonly config = inject(RESPONSE_CACHE_CONFIG);
+  private readonly network = inject(NetworkStatusService);
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private readonly inFlight = new Map<string, Observable<unknown>>();
+
+  /**
+   * Devuelve la respuesta cacheada para la clave o ejecuta la petición.
+   * Las llamadas concurrentes con la misma clave comparten una sola petición.
+   * Los errores no se cachean. Sin conexión se sirven también las respuestas
+   * caducadas, que se conservan hasta que se reemplazan o invalidan.
+   * @param key Clave normalizada de la petición
+   * @param request Función que crea la petición real
+   */
+  get<T>(key: string, request: () => Observable<T>): Observable<T> {
+    const cached = this.read<T>(key);
+    if (cached && (cached.expiresAt > Date.now() || !this.network.online())) {
+      return of(cached.value);
+    }
+
+    const pending = this.inFlight.get(key) as Observable<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    // Una petición invalidada mientras estaba en curso ya no es la registrada:
+    // su respuesta llega a quien la pidió, pero no se guarda
+    const request$: Observable<T> = request().pipe(
+      tap(value => {
+        if (this.inFlight.get(key) === request$) {
+          this.write(key, value);
+        }
+      }),
+      finalize(() => {
+        if (this.inFlight.get(key) === request$) {
+          this.inFlight.delete(key);
+        }
+      }),
+      share()
+    );
+    this.inFlight.set(key, request$);
+    return request$;
+  }
+
+  /**
+   * Todas las respuestas cacheadas (también las caducadas) cuyas claves empiezan por el prefijo
+   */
+  values<T>(prefix: string): T[] {
+    const storage = this.getStorage();
+    const keys = new Set(Array.from(this.entries.keys()).filter(key => key.startsWith(prefix)));
+
+    if (storage) {
+      this.getStorageKeys(storage)
+        .filter(storageKey => storageKey.startsWith(STORAGE_PREFIX + prefix))
+        .forEach(storageKey => keys.add(storageKey.slice(STORAGE_PREFIX.length)));
+    }
+
+    // Sin pasar por read() para no cargar en memoria todo el almacenamiento
+    return Array.from(keys)
+      .map(key => (this.entries.get(key) as CacheEntry<T> | undefined) ?? this.readFromStorage<T>(key))
+      .filter((entry): entry is CacheEntry<T> => !!entry)
+      .map(entry => entry.value);
+  }
+
+  /**
+   * Invalida manualmente las respuestas cacheadas y las peticiones en curso
+   * @param prefix Si se indica, solo se invalidan las claves que empiezan por él
+   */
+  invalidate(prefix: string = ''): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+
+    for (const key of Array.from(this.inFlight.keys())) {
+      if (key.startsWith(prefix)) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    const storage = this.getStorage();
+    if (!storage) return;
+
+    for (const storageKey of this.getStorageKeys(storage)) {
+      if (storageKey.startsWith(STORAGE_PREFIX + prefix)) {
+        storage.removeItem(storageKey);
+      }
+    }
+  }
+
+  /**
+   * Lee una entrada (vigente o caducada) de memoria o, si no está, del almacenamiento
+   */
+  private read<T>(key: string): CacheEntry<T> | null {
+    let entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (!entry) {
+      entry = this.readFromStorage<T>(key) ?? undefined;
+      if (entry) {
+        this.entries.set(key, entry);
+      }
+    }
+
+    return entry ?? null;
+  }
+
+  private write<T>(key: string, value: T): void {
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + this.config.ttlMs };
+
+    // Reinsertar para mantener el orden de antigüedad del Map
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.invalidateKey(oldest);
+    }
+
+    try {
+      this.getStorage()?.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      // Almacenamiento lleno o no disponible: la caché en memoria sigue funcionando
+      console.warn('Could not persist cached response:', error);
+    }
+  }
+
+  private invalidateKey(key: string): void {
+    this.entries.delete(key);
+    this.getStorage()?.removeItem(STORAGE_PREFIX + key);
+  }
+
+  private readFromStorage<T>(key: string): CacheEntry<T> | null {
+    const stored = this.getStorage()?.getItem(STORAGE_PREFIX + key);
+    if (!stored) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(stored) as CacheEntry<T>;
+      return typeof parsed?.expiresAt === 'number' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getStorage(): Storage | null {
+    try {
+      switch (this.config.storage) {
+        case 'session':
+          return sessionStorage;
+        case 'local':
+          return localStorage;
+        default:
+          return null;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  private getStorageKeys(storage: Storage): string[] {
+    return Array.from({ length: storage.length }, (_, i) => storage.key(i))
+      .filter((key): key is string => key !== null);
+  }
+}
@@ -0,0 +1,112 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+
+import { ApiResponse, Character, CharacterFilters } from '../models/character.model';
+import { Episode, EpisodeFilters } from '../models/episode.model';
+import { LocationDetail, LocationFilters } from '../models/location.model';
+import { RickMortyDataSource } from './rick-morty-data-source';
+import { API_BASE_URL } from './api-base-url';
+
+/**
+ * Backend REST de la API (https://rickandmortyapi.com/documentation/#rest)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RestDataSource implements RickMortyDataSource {
+  private readonly http = inject(HttpClient);
+  private readonly API_URL = inject(API_BASE_URL);
+
+  getCharacters(filters: CharacterFilters): Observable<ApiResponse<Character>> {
+    let params = new HttpParams();
+
+    // Construir parámetros dinámicamente
+    if (filters.name) {
+      params = params.set('name', filters.name);
+    }
+    if (filters.status) {
+      params = params.set('status', filters.status as string);
+    }
+    if (filters.species) {
+      params = params.set('species', filters.species);
+    }
+    if (filters.type) {
+      params = params.set('type', filters.type);
+    }
+    if (filters.gender) {
+      params = params.set('gender', filters.gender as string);
+    }
+    if (filters.page) {
+      params = params.set('page', filters.page.toString());
+    }
+
+    return this.http.get<ApiResponse<Character>>(`${this.API_URL}/character`, { params });
+  }
+
+  getCharacterById(id: number): Observable<Character> {
+    return this.http.get<Character>(`${this.API_URL}/character/${id}`);
+  }
+
+  getMultipleCharacters(ids: number[]): Observable<Character[]> {
+    // La API devuelve un objeto (no un array) cuando se pide un solo ID
+    return this.http.get<Character | Character[]>(`${this.API_URL}/character/${ids.join(',')}`).pipe(
+      map(response => Array.isArray(response) ? response : [response])
+    );
+  }
+
+  getEpisodes(filters: EpisodeFilters): Observable<ApiResponse<Episode>> {
+    let params = new HttpParams();
+
+    if (filters.name) {
+      params = params.set('name', filters.name);
+    }
+    if (filters.episode) {
+      params = params.set('episode', filters.episode);
+    }
+    if (filters.page) {
+      params = params.set('page', filters.page.toString());
+    }
+
+    return this.http.get<ApiResponse<Episode>>(`${this.API_URL}/episode`, { params });
+  }
+
+  getEpisodeById(id: number): Observable<Episode> {
+    return this.http.get<Episode>(`${this.API_URL}/episode/${id}`);
+  }
+
+  getMultipleEpisodes(ids: number[]): Observable<Episode[]> {
+    return this.http.get<Episode | Episode[]>(`${this.API_URL}/episode/${ids.join(',')}`).pipe(
+      map(response => Array.isArray(response) ? response : [response])
+    );
+  }
+
+  getLocations(filters: LocationFilters): Observable<ApiResponse<LocationDetail>> {
+    let params = new HttpParams();
+
+    if (filters.name) {
+      params = params.set('name', filters.name);
+    }
+    if (filters.type) {
+      params = params.set('type', filters.type);
+    }
+    if (filters.dimension) {
+      params = params.set('dimension', filters.dimension);
+    }
+    if (filters.page) {
+      params = params.set('page', filters.page.toString());
+    }
+
+    return this.http.get<ApiResponse<LocationDetail>>(`${this.API_URL}/location`, { params });
+  }
+
+  getLocationById(id: number): Observable<LocationDetail> {
+    return this.http.get<LocationDetail>(`${this.API_URL}/location/${id}`);
+  }
+
+  getMultipleLocations(ids: number[]): Observable<LocationDetail[]> {
+    return this.http.get<LocationDetail | LocationDetail[]>(`${this.API_URL}/location/${ids.join(',')}`).pipe(
+      map(response => Array.isArray(response) ? response : [response])
+    );
+  }
+}
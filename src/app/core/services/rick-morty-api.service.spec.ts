@@ -0,0 +1,245 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { RickMortyApiService } from './rick-morty-api.service';
+import { ApiError } from '../models/api-error.model';
+import { ApiResponse, Character } from '../models/character.model';
+import { Episode } from '../models/episode.model';
+import { createCharacter } from '../../../testing/character.fixture';
+
+describe('RickMortyApiService', () => {
+  let service: RickMortyApiService;
+  let httpMock: HttpTestingController;
+
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(RickMortyApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('Error Handling', () => {
+    it('debería emitir una respuesta vacía cuando el filtro no tiene coincidencias (404)', () => {
+      let response: unknown;
+      service.getCharacters({ name: 'zzz' }).subscribe(r => response = r);
+
+      httpMock.expectOne(`${API_URL}/character?name=zzz`)
+        .flush({ error: 'There is nothing here' }, { status: 404, statusText: 'Not Found' });
+
+      expect(response).toEqual({ info: { count: 0, pages: 0, next: null, prev: null }, results: [] });
+    });
+
+    it('debería devolver null cuando un personaje no existe', () => {
+      let character: unknown;
+      service.getCharacterById(9999).subscribe(c => character = c);
+
+      httpMock.expectOne(`${API_URL}/character/9999`)
+        .flush({ error: 'Character not found' }, { status: 404, statusText: 'Not Found' });
+
+      expect(character).toBeNull();
+    });
+
+    it('debería reintentar los errores 5xx con backoff y emitir un ApiError al agotar los reintentos', fakeAsync(() => {
+      let error: ApiError | undefined;
+      service.getCharacters().subscribe({ error: e => error = e });
+
+      httpMock.expectOne(`${API_URL}/character`).flush(null, { status: 500, statusText: 'Server Error' });
+      tick(500);
+      httpMock.expectOne(`${API_URL}/character`).flush(null, { status: 502, statusText: 'Bad Gateway' });
+      tick(1000);
+      httpMock.expectOne(`${API_URL}/character`).flush(null, { status: 503, statusText: 'Unavailable' });
+      tick(2000);
+      httpMock.expectOne(`${API_URL}/character`).flush(null, { status: 500, statusText: 'Server Error' });
+
+      expect(error).toEqual(jasmine.any(ApiError));
+      expect(error?.kind).toBe('server');
+      expect(error?.status).toBe(500);
+    }));
+
+    it('debería respetar Retry-After en los errores 429', fakeAsync(() => {
+      let characters: unknown;
+      service.getMultipleCharacters([1, 2]).subscribe(c => characters = c);
+
+      httpMock.expectOne(`${API_URL}/character/1,2`).flush(null, {
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { 'Retry-After': '2' }
+      });
+
+      tick(1999);
+      httpMock.expectNone(`${API_URL}/character/1,2`);
+      tick(1);
+      httpMock.expectOne(`${API_URL}/character/1,2`).flush([{ id: 1 }, { id: 2 }]);
+
+      expect(characters).toEqual([{ id: 1 }, { id: 2 }] as unknown);
+    }));
+
+    it('no debería reintentar errores que no son transitorios', () => {
+      let error: ApiError | undefined;
+      service.getEpisodes({ page: 99 }).subscribe({ error: e => error = e });
+
+      httpMock.expectOne(`${API_URL}/episode?page=99`).flush(null, { status: 400, statusText: 'Bad Request' });
+
+      expect(error?.kind).toBe('unknown');
+      expect(error?.retryable).toBe(false);
+    });
+
+    it('debería clasificar un fallo de red sin conexión como offline', () => {
+      spyOnProperty(navigator, 'onLine').and.returnValue(false);
+      let error: ApiError | undefined;
+      service.getCharacterById(1).subscribe({ error: e => error = e });
+
+      httpMock.expectOne(`${API_URL}/character/1`).error(new ProgressEvent('error'));
+
+      expect(error?.kind).toBe('offline');
+    });
+  });
+
+  it('debería filtrar sin conexión los personajes ya cacheados', () => {
+    service.getCharacters({ name: 'rick' }).subscribe();
+    httpMock.expectOne(`${API_URL}/character?name=rick`).flush({
+      info: { count: 2, pages: 1, next: null, prev: null },
+      results: [
+        createCharacter(1, { name: 'Rick Sanchez' }),
+        createCharacter(8, { name: 'Adjudicator Rick', status: 'Dead' })
+      ]
+    });
+    service.getCharacterById(2).subscribe();
+    httpMock.expectOne(`${API_URL}/character/2`).flush(createCharacter(2, { name: 'Morty Smith' }));
+
+    spyOnProperty(navigator, 'onLine').and.returnValue(false);
+    let response: ApiResponse<Character> | undefined;
+    service.getCharacters({ status: 'Alive' }).subscribe(r => response = r);
+    httpMock.expectOne(`${API_URL}/character?status=Alive`).error(new ProgressEvent('error'));
+
+    expect(response?.info).toEqual({ count: 2, pages: 1, next: null, prev: null });
+    expect(response?.results.map(character => character.id)).toEqual([1, 2]);
+  });
+
+  it('debería enviar el tipo a la API y filtrar en el cliente origen, ubicación y episodios', () => {
+    const clone = (id: number, origin: string, episodes: number) => createCharacter(id, {
+      type: 'Clone',
+      origin: { name: origin, url: '' },
+      location: { name: 'Citadel of Ricks', url: '' },
+      episode: Array.from({ length: episodes }, (_, i) => `${i + 1}`)
+    });
+    let response: ApiResponse<Character> | undefined;
+    service.getCharacters({ type: 'Clone', origin: 'earth', minEpisodes: 2 }).subscribe(r => response = r);
+
+    httpMock.expectOne(`${API_URL}/character?type=Clone`).flush({
+      info: { count: 3, pages: 1, next: null, prev: null },
+      results: [
+        clone(1, 'Earth (C-137)', 2),
+        clone(2, 'Earth (C-137)', 1),
+        clone(3, 'Gazorpazorp', 3)
+      ]
+    });
+
+    // `info` sigue siendo el de la API
+    expect(response?.info.count).toBe(3);
+    expect(response?.results.map(character => character.id)).toEqual([1]);
+
+    // La respuesta de la API se reutiliza con otros filtros en cliente
+    service.getCharacters({ type: 'clone', location: 'citadel' }).subscribe(r => response = r);
+    httpMock.expectNone(`${API_URL}/character?type=clone`);
+    expect(response?.results.length).toBe(3);
+  });
+
+  it('debería normalizar la respuesta de un solo ID a un array', () => {
+    let characters: unknown;
+    service.getMultipleCharacters([1]).subscribe(c => characters = c);
+
+    httpMock.expectOne(`${API_URL}/character/1`).flush({ id: 1 });
+
+    expect(characters).toEqual([{ id: 1 }] as unknown);
+  });
+
+  it('debería recorrer todas las páginas de episodios', () => {
+    let episodes: Episode[] | undefined;
+    service.getAllEpisodes().subscribe(e => episodes = e);
+
+    httpMock.expectOne(`${API_URL}/episode?page=1`).flush({
+      info: { count: 3, pages: 2, next: `${API_URL}/episode?page=2`, prev: null },
+      results: [{ id: 1 }, { id: 2 }]
+    });
+    httpMock.expectOne(`${API_URL}/episode?page=2`).flush({
+      info: { count: 3, pages: 2, next: null, prev: `${API_URL}/episode?page=1` },
+      results: [{ id: 3 }]
+    });
+
+    expect(episodes?.map(episode => episode.id)).toEqual([1, 2, 3]);
+  });
+
+  it('debería componer el detalle del personaje con peticiones REST independientes', () => {
+    let detail: unknown;
+    service.getCharacterDetail(1).subscribe(d => detail = d);
+
+    httpMock.expectOne(`${API_URL}/character/1`).flush({
+      id: 1,
+      episode: [`${API_URL}/episode/1`, `${API_URL}/episode/2`],
+      origin: { name: 'Earth (C-137)', url: `${API_URL}/location/1` },
+      location: { name: 'unknown', url: '' }
+    });
+    httpMock.expectOne(`${API_URL}/episode/1,2`).flush(null, { status: 400, statusText: 'Bad Request' });
+    httpMock.expectOne(`${API_URL}/location/1`).flush({ id: 1, name: 'Earth (C-137)' });
+
+    expect(detail).toEqual(jasmine.objectContaining({
+      episodes: null,
+      origin: { id: 1, name: 'Earth (C-137)' },
+      location: null
+    }));
+  });
+
+  it('debería pedir solo las relaciones de un personaje ya descargado', () => {
+    const character = {
+      id: 1,
+      episode: [`${API_URL}/episode/1`],
+      origin: { name: 'unknown', url: '' },
+      location: { name: 'unknown', url: '' }
+    } as Character;
+    let detail: unknown;
+    service.getCharacterDetail(character).subscribe(d => detail = d);
+
+    httpMock.expectNone(`${API_URL}/character/1`);
+    httpMock.expectOne(`${API_URL}/episode/1`).flush({ id: 1, name: 'Pilot' });
+
+    expect(detail).toEqual(jasmine.objectContaining({
+      character,
+      episodes: [jasmine.objectContaining({ name: 'Pilot' })]
+    }));
+  });
+
+  describe('Cache', () => {
+    it('debería reutilizar la respuesta para filtros equivalentes', () => {
+      service.getCharacters({ name: ' Rick ', page: 1 }).subscribe();
+      httpMock.expectOne(`${API_URL}/character?name=Rick`).flush({
+        info: { count: 0, pages: 0, next: null, prev: null },
+        results: []
+      });
+
+      service.getCharacters({ name: 'rick', status: '' }).subscribe();
+      httpMock.expectNone(`${API_URL}/character?name=rick`);
+    });
+
+    it('debería volver a pedir los datos tras invalidar la caché', () => {
+      service.getCharacterById(1).subscribe();
+      httpMock.expectOne(`${API_URL}/character/1`).flush({ id: 1 });
+
+      service.clearCache('character');
+      service.getCharacterById(1).subscribe();
+      httpMock.expectOne(`${API_URL}/character/1`).flush({ id: 1 });
+    });
+  });
+});
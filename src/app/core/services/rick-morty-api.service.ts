@@ -1,64 +1,120 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, catchError, of, shareReplay } from 'rxjs';
-import { ApiResponse, Character, CharacterFilters } from '../models/character.model';
+import { Observable, catchError, concat, forkJoin, map, mergeMap, of, range, retry, scan, switchMap, throwError, timer } from 'rxjs';
+import { ApiResponse, Character, CharacterCollectionProgress, CharacterDetailData, CharacterFilters } from '../models/character.model';
+import { Episode, EpisodeFilters } from '../models/episode.model';
+import { LocationDetail, LocationFilters } from '../models/location.model';
+import { ApiError } from '../models/api-error.model';
+import { apiCharacterFilters, characterFiltersKey, hasClientCharacterFilters, matchesCharacterFilters, normalizeCharacterFilters } from '../utils/character-filters.utils';
+import { extractIdFromUrl, extractIdsFromUrls } from '../utils/api-url.utils';
+import { ResponseCacheService } from './response-cache.service';
+import { RICK_MORTY_DATA_SOURCE } from './rick-morty-data-source';
 
 @Injectable({
   providedIn: 'root'
 })
 export class RickMortyApiService {
-  private readonly http = inject(HttpClient);
-  private readonly API_URL = 'https://rickandmortyapi.com/api';
+  // REST o GraphQL según provideRickMortyDataSource (ver app.config.ts)
+  private readonly dataSource = inject(RICK_MORTY_DATA_SOURCE);
+  private readonly cache = inject(ResponseCacheService);
+
+  // Reintentos automáticos para errores transitorios (429, 5xx, red)
+  private readonly MAX_RETRIES = 3;
+  private readonly RETRY_BASE_DELAY_MS = 500;
+
+  // Páginas pedidas en paralelo al recorrer un listado completo
+  private readonly PAGE_CONCURRENCY = 3;
+
+  // Resultados por página de la API
+  private readonly PAGE_SIZE = 20;
 
   /**
    * Obtiene personajes con filtros opcionales
    * @param filters Filtros para la búsqueda
-   * @returns Observable con la respuesta de la API
+   * @returns Observable con la respuesta de la API. Si ningún personaje coincide
+   * (404) emite una respuesta vacía; cualquier otro fallo se emite como ApiError.
+   * Sin conexión, una búsqueda que no está en caché se resuelve con los personajes
+   * ya cacheados (ver getCachedCharacters).
+   * Los filtros que la API no admite (origen, ubicación, episodios) se aplican sobre la
+   * página recibida, que puede quedar con menos resultados; `info` es el de la API.
    */
   getCharacters(filters: CharacterFilters = {}): Observable<ApiResponse<Character>> {
-    let params = new HttpParams();
+    filters = normalizeCharacterFilters(filters);
+    const apiFilters = apiCharacterFilters(filters);
 
-    // Construir parámetros dinámicamente
-    if (filters.name) {
-      params = params.set('name', filters.name);
-    }
-    if (filters.status) {
-      params = params.set('status', filters.status as string);
-    }
-    if (filters.species) {
-      params = params.set('species', filters.species);
-    }
-    if (filters.gender) {
-      params = params.set('gender', filters.gender as string);
-    }
-    if (filters.page) {
-      params = params.set('page', filters.page.toString());
-    }
+    // Se cachea la respuesta de la API para reutilizarla con cualquier filtro en cliente
+    return this.cache.get(`character?${characterFiltersKey(apiFilters)}`, () =>
+      this.request(this.dataSource.getCharacters(apiFilters)).pipe(
+        this.emptyWhenNotFound<Character>()
+      )
+    ).pipe(
+      map(response => hasClientCharacterFilters(filters)
+        ? { ...response, results: response.results.filter(character => matchesCharacterFilters(character, filters)) }
+        : response),
+      catchError((error: ApiError) => error.kind === 'offline'
+        ? this.searchCachedCharacters(filters, error)
+        : throwError(() => error))
+    );
+  }
+
+  /**
+   * Personajes de todas las respuestas cacheadas (incluidas las caducadas), sin
+   * duplicados y ordenados por ID como en la API
+   */
+  getCachedCharacters(): Character[] {
+    const fromLists = this.cache.values<ApiResponse<Character>>('character?').flatMap(response => response.results);
+    const fromIds = this.cache.values<Character | Character[] | CharacterDetailData | null>('character/').flatMap(value => {
+      if (!value) return [];
+      if (Array.isArray(value)) return value;
+      return 'character' in value ? [value.character] : [value];
+    });
+
+    const byId = new Map([...fromLists, ...fromIds].map(character => [character.id, character]));
+    return Array.from(byId.values()).sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Obtiene todos los personajes que coinciden con los filtros, recorriendo todas las páginas
+   * @param filters Filtros para la búsqueda (se ignora la página)
+   * @returns Observable que emite el progreso tras cada página; la última emisión
+   * tiene `complete: true` y los personajes en el orden de la API
+   */
+  getAllCharacters(filters: CharacterFilters = {}): Observable<CharacterCollectionProgress> {
+    const baseFilters: CharacterFilters = { ...filters, page: undefined };
 
-    return this.http.get<ApiResponse<Character>>(`${this.API_URL}/character`, { params }).pipe(
-      catchError((error) => {
-        console.error('Error fetching characters:', error);
-        // Retornar respuesta vacía en caso de error (ej: no se encontraron resultados)
-        return of({
-          info: { count: 0, pages: 0, next: null, prev: null },
-          results: []
-        });
-      }),
-      shareReplay(1) // Cachear la última respuesta para suscriptores múltiples
+    return this.getCharacters({ ...baseFilters, page: 1 }).pipe(
+      switchMap(first => {
+        const totalPages = Math.max(first.info.pages, 1);
+        const remainingPages$ = range(2, totalPages - 1).pipe(
+          mergeMap(page => this.getCharacters({ ...baseFilters, page }).pipe(
+            map(response => ({ page, results: response.results }))
+          ), this.PAGE_CONCURRENCY)
+        );
+
+        return concat(of({ page: 1, results: first.results }), remainingPages$).pipe(
+          scan((pages, page) => new Map(pages).set(page.page, page.results), new Map<number, Character[]>()),
+          map(pages => ({
+            // Las páginas llegan en paralelo: se reordenan por número de página
+            characters: Array.from(pages.keys()).sort((a, b) => a - b).flatMap(page => pages.get(page) ?? []),
+            loadedPages: pages.size,
+            totalPages,
+            complete: pages.size === totalPages
+          }))
+        );
+      })
     );
   }
 
   /**
    * Obtiene un personaje por ID
    * @param id ID del personaje
-   * @returns Observable con el personaje
+   * @returns Observable con el personaje, o null si no existe (404).
+   * Cualquier otro error se emite como ApiError.
    */
   getCharacterById(id: number): Observable<Character | null> {
-    return this.http.get<Character>(`${this.API_URL}/character/${id}`).pipe(
-      catchError((error) => {
-        console.error(`Error fetching character ${id}:`, error);
-        return of(null);
-      })
+    return this.cache.get(`character/${id}`, () =>
+      this.request(this.dataSource.getCharacterById(id)).pipe(
+        this.nullWhenNotFound<Character>()
+      )
     );
   }
 
@@ -72,12 +128,237 @@ export class RickMortyApiService {
       return of([]);
     }
 
-    const idsString = ids.join(',');
-    return this.http.get<Character[]>(`${this.API_URL}/character/${idsString}`).pipe(
-      catchError((error) => {
-        console.error('Error fetching multiple characters:', error);
-        return of([]);
+    return this.cache.get(`character/${ids.join(',')}`, () =>
+      this.request(this.dataSource.getMultipleCharacters(ids)).pipe(
+        catchError((error: ApiError) => error.kind === 'not-found' ? of([]) : throwError(() => error))
+      )
+    );
+  }
+
+  /**
+   * Obtiene un personaje con sus episodios, origen y ubicación actual
+   * @param idOrCharacter ID del personaje, o el personaje si ya está descargado
+   * (con REST solo se piden entonces sus relaciones)
+   * @returns Observable con los datos, o null si el personaje no existe (404).
+   * Un fallo al cargar las relaciones no invalida el personaje: se emiten como null.
+   */
+  getCharacterDetail(idOrCharacter: number | Character): Observable<CharacterDetailData | null> {
+    const id = typeof idOrCharacter === 'number' ? idOrCharacter : idOrCharacter.id;
+    const getCharacterDetail = this.dataSource.getCharacterDetail?.bind(this.dataSource);
+
+    // El backend resuelve las relaciones en una sola petición
+    if (getCharacterDetail) {
+      return this.cache.get(`character/${id}/detail`, () =>
+        this.request(getCharacterDetail(id)).pipe(
+          this.nullWhenNotFound<CharacterDetailData>()
+        )
+      );
+    }
+
+    const character$ = typeof idOrCharacter === 'number' ? this.getCharacterById(id) : of(idOrCharacter);
+    return character$.pipe(
+      switchMap(character => !character ? of(null) : forkJoin({
+        character: of(character),
+        episodes: this.getMultipleEpisodes(extractIdsFromUrls(character.episode)).pipe(
+          catchError(() => of(null))
+        ),
+        origin: this.getLocationByUrl(character.origin.url),
+        location: this.getLocationByUrl(character.location.url)
+      }))
+    );
+  }
+
+  /**
+   * Obtiene episodios con filtros opcionales
+   * @param filters Filtros para la búsqueda
+   * @returns Observable con la respuesta de la API (vacía si no hay coincidencias)
+   */
+  getEpisodes(filters: EpisodeFilters = {}): Observable<ApiResponse<Episode>> {
+    return this.cache.get(`episode?${this.filtersKey(filters)}`, () =>
+      this.request(this.dataSource.getEpisodes(filters)).pipe(
+        this.emptyWhenNotFound<Episode>()
+      )
+    );
+  }
+
+  /**
+   * Obtiene todos los episodios, recorriendo todas las páginas
+   * @returns Observable con los episodios en el orden de la API
+   */
+  getAllEpisodes(): Observable<Episode[]> {
+    return this.getEpisodes({ page: 1 }).pipe(
+      switchMap(first => {
+        const remainingPages = Array.from({ length: Math.max(first.info.pages - 1, 0) }, (_, i) => this.getEpisodes({ page: i + 2 }));
+        if (remainingPages.length === 0) {
+          return of(first.results);
+        }
+        return forkJoin(remainingPages).pipe(
+          map(responses => [first, ...responses].flatMap(response => response.results))
+        );
+      })
+    );
+  }
+
+  /**
+   * Obtiene un episodio por ID
+   * @param id ID del episodio
+   * @returns Observable con el episodio, o null si no existe (404)
+   */
+  getEpisodeById(id: number): Observable<Episode | null> {
+    return this.cache.get(`episode/${id}`, () =>
+      this.request(this.dataSource.getEpisodeById(id)).pipe(
+        this.nullWhenNotFound<Episode>()
+      )
+    );
+  }
+
+  /**
+   * Obtiene múltiples episodios por IDs
+   * @param ids Array de IDs
+   * @returns Observable con array de episodios
+   */
+  getMultipleEpisodes(ids: number[]): Observable<Episode[]> {
+    if (ids.length === 0) {
+      return of([]);
+    }
+
+    return this.cache.get(`episode/${ids.join(',')}`, () =>
+      this.request(this.dataSource.getMultipleEpisodes(ids))
+    );
+  }
+
+  /**
+   * Obtiene ubicaciones con filtros opcionales
+   * @param filters Filtros para la búsqueda
+   * @returns Observable con la respuesta de la API (vacía si no hay coincidencias)
+   */
+  getLocations(filters: LocationFilters = {}): Observable<ApiResponse<LocationDetail>> {
+    return this.cache.get(`location?${this.filtersKey(filters)}`, () =>
+      this.request(this.dataSource.getLocations(filters)).pipe(
+        this.emptyWhenNotFound<LocationDetail>()
+      )
+    );
+  }
+
+  /**
+   * Obtiene una ubicación por ID
+   * @param id ID de la ubicación
+   * @returns Observable con la ubicación, o null si no existe (404)
+   */
+  getLocationById(id: number): Observable<LocationDetail | null> {
+    return this.cache.get(`location/${id}`, () =>
+      this.request(this.dataSource.getLocationById(id)).pipe(
+        this.nullWhenNotFound<LocationDetail>()
+      )
+    );
+  }
+
+  /**
+   * Obtiene múltiples ubicaciones por IDs
+   * @param ids Array de IDs
+   * @returns Observable con array de ubicaciones
+   */
+  getMultipleLocations(ids: number[]): Observable<LocationDetail[]> {
+    if (ids.length === 0) {
+      return of([]);
+    }
+
+    return this.cache.get(`location/${ids.join(',')}`, () =>
+      this.request(this.dataSource.getMultipleLocations(ids)).pipe(
+        catchError((error: ApiError) => error.kind === 'not-found' ? of([]) : throwError(() => error))
+      )
+    );
+  }
+
+  /**
+   * Invalida las respuestas cacheadas para forzar una nueva descarga
+   * @param resource Recurso a invalidar; si se omite se vacía toda la caché
+   */
+  clearCache(resource?: 'character' | 'episode' | 'location'): void {
+    this.cache.invalidate(resource ?? '');
+  }
+
+  /**
+   * Carga una ubicación a partir de su URL (vacía para ubicaciones "unknown").
+   * Los errores se emiten como null.
+   */
+  private getLocationByUrl(url: string): Observable<LocationDetail | null> {
+    const id = extractIdFromUrl(url);
+    if (id === null) {
+      return of(null);
+    }
+    return this.getLocationById(id).pipe(
+      catchError(() => of(null))
+    );
+  }
+
+  /**
+   * Resuelve una búsqueda sin conexión filtrando y paginando los personajes cacheados.
+   * Las URLs next/prev van vacías: solo se pueden pedir otras páginas por número.
+   * @param error Error original, que se emite si no hay nada en caché
+   */
+  private searchCachedCharacters(filters: CharacterFilters, error: ApiError): Observable<ApiResponse<Character>> {
+    const cached = this.getCachedCharacters();
+    if (cached.length === 0) {
+      return throwError(() => error);
+    }
+
+    const matches = cached.filter(character => matchesCharacterFilters(character, filters));
+    const page = filters.page ?? 1;
+    return of({
+      info: { count: matches.length, pages: Math.ceil(matches.length / this.PAGE_SIZE), next: null, prev: null },
+      results: matches.slice((page - 1) * this.PAGE_SIZE, page * this.PAGE_SIZE)
+    });
+  }
+
+  /**
+   * Clave de caché estable para unos filtros, omitiendo los vacíos
+   */
+  private filtersKey(filters: object): string {
+    return Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+  }
+
+  /**
+   * Convierte los errores HTTP en ApiError y reintenta con backoff exponencial
+   * los errores transitorios. Los errores 429 respetan la cabecera Retry-After.
+   */
+  private request<T>(request$: Observable<T>): Observable<T> {
+    return request$.pipe(
+      catchError((error) => throwError(() => ApiError.from(error))),
+      retry({
+        count: this.MAX_RETRIES,
+        delay: (error: ApiError, retryCount) => {
+          if (!error.retryable) {
+            return throwError(() => error);
+          }
+          const backoff = this.RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1);
+          return timer(Math.max(error.retryAfterMs ?? 0, backoff));
+        }
       })
     );
   }
+
+  /**
+   * En los listados la API responde 404 cuando el filtro no tiene coincidencias
+   */
+  private emptyWhenNotFound<T>() {
+    return catchError<ApiResponse<T>, Observable<ApiResponse<T>>>((error: ApiError) =>
+      error.kind === 'not-found'
+        ? of({ info: { count: 0, pages: 0, next: null, prev: null }, results: [] })
+        : throwError(() => error)
+    );
+  }
+
+  /**
+   * En las consultas por ID un 404 significa que el recurso no existe
+   */
+  private nullWhenNotFound<T>() {
+    return catchError<T, Observable<T | null>>((error: ApiError) =>
+      error.kind === 'not-found' ? of(null) : throwError(() => error)
+    );
+  }
 }
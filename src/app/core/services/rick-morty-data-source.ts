@@ -0,0 +1,54 @@
+import { InjectionToken, Provider, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { ApiResponse, Character, CharacterDetailData, CharacterFilters } from '../models/character.model';
+import { Episode, EpisodeFilters } from '../models/episode.model';
+import { LocationDetail, LocationFilters } from '../models/location.model';
+import { RestDataSource } from './rest-data-source.service';
+import { GRAPHQL_DATA_SOURCE_CONFIG, GraphqlDataSource } from './graphql-data-source.service';
+
+/**
+ * Backend del que RickMortyApiService obtiene los datos.
+ *
+ * Las implementaciones solo hacen las peticiones: los errores pueden ser HttpErrorResponse
+ * o ApiError, y un recurso inexistente (o un filtro sin coincidencias) debe emitir un error
+ * 'not-found'. La caché, los reintentos y el mapeo de los 404 los aplica RickMortyApiService.
+ */
+export interface RickMortyDataSource {
+  getCharacters(filters: CharacterFilters): Observable<ApiResponse<Character>>;
+  getCharacterById(id: number): Observable<Character>;
+  getMultipleCharacters(ids: number[]): Observable<Character[]>;
+  getEpisodes(filters: EpisodeFilters): Observable<ApiResponse<Episode>>;
+  getEpisodeById(id: number): Observable<Episode>;
+  getMultipleEpisodes(ids: number[]): Observable<Episode[]>;
+  getLocations(filters: LocationFilters): Observable<ApiResponse<LocationDetail>>;
+  getLocationById(id: number): Observable<LocationDetail>;
+  getMultipleLocations(ids: number[]): Observable<LocationDetail[]>;
+  /**
+   * Opcional: resuelve el personaje y sus relaciones en una sola petición.
+   * Si no se implementa, RickMortyApiService las pide por separado.
+   */
+  getCharacterDetail?(id: number): Observable<CharacterDetailData>;
+}
+
+export const RICK_MORTY_DATA_SOURCE = new InjectionToken<RickMortyDataSource>('RICK_MORTY_DATA_SOURCE', {
+  providedIn: 'root',
+  factory: () => inject(RestDataSource)
+});
+
+export type RickMortyDataSourceConfig =
+  | { type: 'rest' }
+  | { type: 'graphql'; url?: string };
+
+/**
+ * Selecciona el backend de datos (ver app.config.ts)
+ */
+export function provideRickMortyDataSource(config: RickMortyDataSourceConfig): Provider[] {
+  if (config.type === 'graphql') {
+    return [
+      ...(config.url ? [{ provide: GRAPHQL_DATA_SOURCE_CONFIG, useValue: { url: config.url } }] : []),
+      { provide: RICK_MORTY_DATA_SOURCE, useExisting: GraphqlDataSource }
+    ];
+  }
+  return [{ provide: RICK_MORTY_DATA_SOURCE, useExisting: RestDataSource }];
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SAVED_SEARCHES_STORAGE_KEY, SavedSearchesService } from './saved-searches.service';
+
+describe('SavedSearchesService', () => {
+  const createService = () => {
+    TestBed.configureTestingModule({});
+    return TestBed.inject(SavedSearchesService);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem(SAVED_SEARCHES_STORAGE_KEY);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(SAVED_SEARCHES_STORAGE_KEY);
+  });
+
+  it('debería guardar búsquedas y sobrescribir las que tienen el mismo nombre', () => {
+    const service = createService();
+
+    const first = service.save('Dead Ricks', { name: 'Rick', status: 'Dead' });
+    const second = service.save(' dead ricks ', { name: 'Rick', status: 'Alive' });
+
+    expect(service.searches().length).toBe(1);
+    expect(second.id).toBe(first.id);
+    expect(service.searches()[0].filters).toEqual({ name: 'Rick', status: 'Alive' });
+    expect(localStorage.getItem(SAVED_SEARCHES_STORAGE_KEY)).toContain('"status":"Alive"');
+  });
+
+  it('debería renombrar y rechazar nombres duplicados', () => {
+    const service = createService();
+    const aliens = service.save('Aliens', { species: 'Alien' });
+    service.save('Humans', { species: 'Human' });
+
+    expect(service.rename(aliens.id, 'humans')).toBe(false);
+    expect(service.rename(aliens.id, 'Space aliens')).toBe(true);
+    expect(service.searches().map(search => search.name)).toEqual(['Humans', 'Space aliens']);
+  });
+
+  it('debería validar estado, género y fechas al cargar', () => {
+    localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify([
+      {
+        id: 'a',
+        name: 'Tampered',
+        filters: { status: 'Zombie', gender: 'Female', createdStartDate: '2017-13-45', createdEndDate: '2017-12-31' },
+        createdAt: '2024-01-01T00:00:00.000Z'
+      },
+      { id: 'b', name: '' },
+      'invalid'
+    ]));
+    const service = createService();
+
+    expect(service.searches().length).toBe(1);
+    expect(service.searches()[0].filters).toEqual({ gender: 'Female', createdEndDate: '2017-12-31' });
+  });
+
+  it('debería generar los query params de la búsqueda', () => {
+    const service = createService();
+    const search = service.save('Range', { species: 'Human', createdStartDate: '2017-11-01' });
+
+    expect(service.toQueryParams(search)).toEqual({ species: 'Human', createdStartDate: '2017-11-01' });
+  });
+});
@@ -0,0 +1,165 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { CharacterGender, CharacterStatus } from '../models/character.model';
+import { isCharacterGender, isCharacterStatus, isEpisodeCount } from '../utils/character-filters.utils';
+import { fromDateParam } from '../utils/date-param.utils';
+
+/**
+ * Filtros de una búsqueda guardada, con las fechas en formato YYYY-MM-DD
+ * (los mismos valores que se usan en los query params)
+ */
+export interface SavedSearchFilters {
+  /** Búsqueda avanzada (ver parseCharacterQuery) */
+  query?: string;
+  name?: string;
+  status?: CharacterStatus;
+  species?: string;
+  type?: string;
+  gender?: CharacterGender;
+  origin?: string;
+  location?: string;
+  minEpisodes?: number;
+  maxEpisodes?: number;
+  createdStartDate?: string;
+  createdEndDate?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  createdAt: string;
+}
+
+export const SAVED_SEARCHES_STORAGE_KEY = 'rickmorty_saved_searches';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedSearchesService {
+  private readonly entries = signal<SavedSearch[]>(this.load());
+
+  // Ordenadas alfabéticamente para el menú
+  readonly searches = computed(() =>
+    [...this.entries()].sort((a, b) => a.name.localeCompare(b.name))
+  );
+
+  /**
+   * Guarda los filtros con un nombre. Si ya existe una búsqueda con ese nombre se sobrescribe.
+   */
+  save(name: string, filters: SavedSearchFilters): SavedSearch {
+    const trimmed = name.trim();
+    const existing = this.findByName(trimmed);
+    const search: SavedSearch = {
+      id: existing?.id ?? this.createId(),
+      name: trimmed,
+      filters: this.sanitizeFilters(filters),
+      createdAt: existing?.createdAt ?? new Date().toISOString()
+    };
+
+    this.write(existing
+      ? this.entries().map(entry => entry.id === existing.id ? search : entry)
+      : [...this.entries(), search]);
+    return search;
+  }
+
+  /**
+   * Renombra una búsqueda
+   * @returns false si el nombre está vacío o ya lo usa otra búsqueda
+   */
+  rename(id: string, name: string): boolean {
+    const trimmed = name.trim();
+    const existing = this.findByName(trimmed);
+    if (!trimmed || (existing && existing.id !== id)) {
+      return false;
+    }
+
+    this.write(this.entries().map(entry => entry.id === id ? { ...entry, name: trimmed } : entry));
+    return true;
+  }
+
+  remove(id: string): void {
+    this.write(this.entries().filter(entry => entry.id !== id));
+  }
+
+  findByName(name: string): SavedSearch | undefined {
+    const lower = name.trim().toLowerCase();
+    return this.entries().find(entry => entry.name.toLowerCase() === lower);
+  }
+
+  /**
+   * Query params equivalentes a la búsqueda (mismo formato que la URL de la tabla)
+   */
+  toQueryParams(search: SavedSearch): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(search.filters)) {
+      if (value !== undefined && value !== '') params[key] = String(value);
+    }
+    return params;
+  }
+
+  /**
+   * Conserva solo los filtros válidos; descarta estados, géneros o fechas desconocidos
+   */
+  private sanitizeFilters(raw: unknown): SavedSearchFilters {
+    const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const filters: SavedSearchFilters = {};
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+    if (text(source['query'])) filters.query = text(source['query']);
+    if (text(source['name'])) filters.name = text(source['name']);
+    if (isCharacterStatus(source['status'])) filters.status = source['status'];
+    if (text(source['species'])) filters.species = text(source['species']);
+    if (text(source['type'])) filters.type = text(source['type']);
+    if (isCharacterGender(source['gender'])) filters.gender = source['gender'];
+    if (text(source['origin'])) filters.origin = text(source['origin']);
+    if (text(source['location'])) filters.location = text(source['location']);
+    if (isEpisodeCount(source['minEpisodes'])) filters.minEpisodes = source['minEpisodes'];
+    if (isEpisodeCount(source['maxEpisodes'])) filters.maxEpisodes = source['maxEpisodes'];
+    if (fromDateParam(text(source['createdStartDate']))) filters.createdStartDate = text(source['createdStartDate']);
+    if (fromDateParam(text(source['createdEndDate']))) filters.createdEndDate = text(source['createdEndDate']);
+
+    return filters;
+  }
+
+  private load(): SavedSearch[] {
+    const stored = localStorage.getItem(SAVED_SEARCHES_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      const raw: unknown = JSON.parse(stored);
+      if (!Array.isArray(raw)) {
+        return [];
+      }
+
+      const searches: SavedSearch[] = [];
+      for (const candidate of raw as Partial<SavedSearch>[]) {
+        const name = typeof candidate?.name === 'string' ? candidate.name.trim() : '';
+        if (!name || typeof candidate.id !== 'string' || searches.some(search => search.id === candidate.id)) {
+          continue;
+        }
+        searches.push({
+          id: candidate.id,
+          name,
+          filters: this.sanitizeFilters(candidate.filters),
+          createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date().toISOString()
+        });
+      }
+      return searches;
+    } catch (error) {
+      console.error('Error reading saved searches:', error);
+      return [];
+    }
+  }
+
+  private write(searches: SavedSearch[]): void {
+    this.entries.set(searches);
+    localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify(searches));
+  }
+
+  private createId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+
+import { THEME_STORAGE_KEY, ThemeService } from './theme.service';
+
+describe('ThemeService', () => {
+  let prefersDark: boolean;
+  let changeListener: ((event: MediaQueryListEvent) => void) | undefined;
+
+  const setSystemDark = (matches: boolean) => {
+    prefersDark = matches;
+    changeListener?.({ matches } as MediaQueryListEvent);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem(THEME_STORAGE_KEY);
+    prefersDark = false;
+    changeListener = undefined;
+    spyOn(window, 'matchMedia').and.callFake(() => ({
+      matches: prefersDark,
+      addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => changeListener = listener,
+      removeEventListener: () => changeListener = undefined
+    }) as unknown as MediaQueryList);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(THEME_STORAGE_KEY);
+    document.documentElement.classList.remove('theme-light', 'theme-dark', 'theme-high-contrast');
+    document.documentElement.style.colorScheme = '';
+    document.getElementById('app-theme-stylesheet')?.remove();
+  });
+
+  it('debería seguir el tema del sistema por defecto', () => {
+    prefersDark = true;
+    const service = TestBed.inject(ThemeService);
+
+    expect(service.preference()).toBe('system');
+    expect(service.theme()).toBe('dark');
+
+    setSystemDark(false);
+    expect(service.theme()).toBe('light');
+  });
+
+  it('debería guardar la preferencia e ignorar el sistema al elegir un tema', () => {
+    const service = TestBed.inject(ThemeService);
+    service.setPreference('high-contrast');
+    setSystemDark(true);
+
+    expect(service.theme()).toBe('high-contrast');
+    expect(localStorage.getItem(THEME_STORAGE_KEY)).toBe('high-contrast');
+  });
+
+  it('debería recuperar la preferencia guardada e ignorar valores desconocidos', () => {
+    localStorage.setItem(THEME_STORAGE_KEY, 'dark');
+    expect(TestBed.inject(ThemeService).preference()).toBe('dark');
+
+    TestBed.resetTestingModule();
+    localStorage.setItem(THEME_STORAGE_KEY, 'sepia');
+    expect(TestBed.inject(ThemeService).preference()).toBe('system');
+  });
+
+  it('debería aplicar la clase del tema al documento', () => {
+    const service = TestBed.inject(ThemeService);
+    TestBed.flushEffects();
+    expect(document.documentElement.classList).toContain('theme-light');
+
+    service.setPreference('dark');
+    TestBed.flushEffects();
+    expect(document.documentElement.classList).toContain('theme-dark');
+    expect(document.documentElement.classList).not.toContain('theme-light');
+    expect(document.documentElement.style.colorScheme).toBe('dark');
+  });
+
+  it('debería cargar la hoja de colores solo para los temas alternativos', () => {
+    const service = TestBed.inject(ThemeService);
+    const stylesheet = () => document.getElementById('app-theme-stylesheet')?.getAttribute('href');
+    TestBed.flushEffects();
+    expect(stylesheet()).toBeUndefined();
+
+    service.setPreference('high-contrast');
+    TestBed.flushEffects();
+    expect(stylesheet()).toBe('theme-high-contrast.css');
+
+    service.setPreference('light');
+    TestBed.flushEffects();
+    expect(stylesheet()).toBeUndefined();
+  });
+});
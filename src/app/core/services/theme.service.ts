@@ -0,0 +1,84 @@
+import { Injectable, OnDestroy, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+import { AppTheme, THEME_PREFERENCES, ThemePreference } from '../models/theme.model';
+
+export const THEME_STORAGE_KEY = 'rickmorty_theme';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+// Hojas con los colores de Material de los temas alternativos (bundles no inyectados
+// de angular.json): solo se descargan al activar el tema
+const THEME_STYLESHEETS: Partial<Record<AppTheme, string>> = {
+  dark: 'theme-dark.css',
+  'high-contrast': 'theme-high-contrast.css'
+};
+const THEME_STYLESHEET_ID = 'app-theme-stylesheet';
+
+/**
+ * Tema de la interfaz. Aplica la clase `theme-<tema>` al elemento <html>, donde
+ * styles.scss define las variables `--app-*`, y carga la hoja del tema con los
+ * colores de Material (el tema claro va incluido en styles.scss).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ThemeService implements OnDestroy {
+  private readonly document = inject(DOCUMENT);
+  private readonly mediaQuery = window.matchMedia(DARK_SCHEME_QUERY);
+  private readonly preferenceState = signal<ThemePreference>(this.load());
+  private readonly systemDark = signal(this.mediaQuery.matches);
+
+  readonly preference = this.preferenceState.asReadonly();
+  /** Tema efectivo: resuelve 'system' con la preferencia del sistema operativo */
+  readonly theme = computed<AppTheme>(() => {
+    const preference = this.preferenceState();
+    if (preference !== 'system') return preference;
+    return this.systemDark() ? 'dark' : 'light';
+  });
+
+  private readonly listener = (event: MediaQueryListEvent) => this.systemDark.set(event.matches);
+
+  constructor() {
+    this.mediaQuery.addEventListener('change', this.listener);
+
+    effect(() => {
+      const theme = this.theme();
+      const root = this.document.documentElement;
+      root.classList.remove(...THEME_PREFERENCES.map(preference => `theme-${preference}`));
+      root.classList.add(`theme-${theme}`);
+      // Controles nativos (barras de desplazamiento, inputs) acordes al tema
+      root.style.colorScheme = theme === 'dark' ? 'dark' : 'light';
+      this.loadStylesheet(THEME_STYLESHEETS[theme]);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.mediaQuery.removeEventListener('change', this.listener);
+  }
+
+  setPreference(preference: ThemePreference): void {
+    this.preferenceState.set(preference);
+    localStorage.setItem(THEME_STORAGE_KEY, preference);
+  }
+
+  private loadStylesheet(href: string | undefined): void {
+    let link = this.document.getElementById(THEME_STYLESHEET_ID) as HTMLLinkElement | null;
+    if (!href) {
+      link?.remove();
+      return;
+    }
+    if (!link) {
+      link = this.document.createElement('link');
+      link.id = THEME_STYLESHEET_ID;
+      link.rel = 'stylesheet';
+      this.document.head.appendChild(link);
+    }
+    link.setAttribute('href', href);
+  }
+
+  private load(): ThemePreference {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return THEME_PREFERENCES.find(preference => preference === stored) ?? 'system';
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Extrae el ID numérico del final de una URL de la API
+ * (ej: https://rickandmortyapi.com/api/episode/28 -> 28)
+ * @returns El ID o null si la URL está vacía o no termina en un número
+ */
+export function extractIdFromUrl(url: string | null | undefined): number | null {
+  if (!url) {
+    return null;
+  }
+  const match = /\/(\d+)\/?$/.exec(url);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Extrae los IDs de una lista de URLs, descartando las inválidas
+ */
+export function extractIdsFromUrls(urls: string[]): number[] {
+  return urls
+    .map(url => extractIdFromUrl(url))
+    .filter((id): id is number => id !== null);
+}
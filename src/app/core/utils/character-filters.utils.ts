@@ -0,0 +1,95 @@
+import { CHARACTER_GENDERS, CHARACTER_STATUSES, Character, CharacterFilters, CharacterGender, CharacterStatus } from '../models/character.model';
+
+/**
+ * Normaliza los filtros de personajes: recorta espacios y descarta valores
+ * vacíos. La página 1 se omite porque es la que la API devuelve por defecto.
+ */
+export function normalizeCharacterFilters(filters: CharacterFilters): CharacterFilters {
+  const normalized: CharacterFilters = {};
+
+  const name = filters.name?.trim();
+  const species = filters.species?.trim();
+  const type = filters.type?.trim();
+  const origin = filters.origin?.trim();
+  const location = filters.location?.trim();
+
+  if (name) normalized.name = name;
+  if (filters.status) normalized.status = filters.status;
+  if (species) normalized.species = species;
+  if (type) normalized.type = type;
+  if (filters.gender) normalized.gender = filters.gender;
+  if (filters.page && filters.page > 1) normalized.page = filters.page;
+  if (origin) normalized.origin = origin;
+  if (location) normalized.location = location;
+  if (isEpisodeCount(filters.minEpisodes)) normalized.minEpisodes = filters.minEpisodes;
+  if (isEpisodeCount(filters.maxEpisodes)) normalized.maxEpisodes = filters.maxEpisodes;
+
+  return normalized;
+}
+
+/**
+ * Filtros normalizados que acepta la API (sin los que se aplican en el cliente)
+ */
+export function apiCharacterFilters(filters: CharacterFilters): CharacterFilters {
+  const { origin, location, minEpisodes, maxEpisodes, ...apiFilters } = normalizeCharacterFilters(filters);
+  return apiFilters;
+}
+
+/**
+ * Indica si hay filtros que la API no admite y se aplican en el cliente
+ */
+export function hasClientCharacterFilters(filters: CharacterFilters): boolean {
+  const normalized = normalizeCharacterFilters(filters);
+  return !!(normalized.origin || normalized.location)
+    || normalized.minEpisodes !== undefined
+    || normalized.maxEpisodes !== undefined;
+}
+
+/**
+ * Genera una clave estable para unos filtros, independiente del orden de las
+ * propiedades y de mayúsculas (la API no distingue mayúsculas en los filtros)
+ */
+export function characterFiltersKey(filters: CharacterFilters): string {
+  const normalized = normalizeCharacterFilters(filters);
+  return (Object.keys(normalized) as (keyof CharacterFilters)[])
+    .sort()
+    .map(key => `${key}=${String(normalized[key]).toLowerCase()}`)
+    .join('&');
+}
+
+/**
+ * Aplica los filtros como la API: nombre, especie y tipo son coincidencias parciales,
+ * estado y género exactos, sin distinguir mayúsculas. Origen y ubicación también son
+ * parciales y el rango de episodios es inclusivo. Se ignora la página.
+ */
+export function matchesCharacterFilters(character: Character, filters: CharacterFilters): boolean {
+  const normalized = normalizeCharacterFilters(filters);
+  const contains = (value: string, search?: string) => !search || value.toLowerCase().includes(search.toLowerCase());
+  const equals = (value: string, search?: string) => !search || value.toLowerCase() === search.toLowerCase();
+  const episodes = character.episode.length;
+
+  return contains(character.name, normalized.name)
+    && contains(character.species, normalized.species)
+    && contains(character.type, normalized.type)
+    && equals(character.status, normalized.status)
+    && equals(character.gender, normalized.gender)
+    && contains(character.origin.name, normalized.origin)
+    && contains(character.location.name, normalized.location)
+    && (normalized.minEpisodes === undefined || episodes >= normalized.minEpisodes)
+    && (normalized.maxEpisodes === undefined || episodes <= normalized.maxEpisodes);
+}
+
+export function isCharacterStatus(value: unknown): value is CharacterStatus {
+  return CHARACTER_STATUSES.includes(value as CharacterStatus);
+}
+
+export function isCharacterGender(value: unknown): value is CharacterGender {
+  return CHARACTER_GENDERS.includes(value as CharacterGender);
+}
+
+/**
+ * Número de episodios válido para los filtros (entero no negativo)
+ */
+export function isEpisodeCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
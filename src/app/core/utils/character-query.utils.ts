@@ -0,0 +1,372 @@
+import { CHARACTER_GENDERS, CHARACTER_STATUSES, Character, CharacterFilters, CharacterGender, CharacterStatus } from '../models/character.model';
+
+/**
+ * Búsqueda avanzada de personajes, p. ej.:
+ * `rick status:alive -location:earth episodes:>10 created:2017-11..2017-12`
+ *
+ * Los términos sin campo buscan en el nombre, `-` niega un término y los valores
+ * con espacios van entre comillas (`origin:"earth (c-137)"`).
+ */
+
+export type CharacterQueryTextField = 'name' | 'species' | 'type' | 'origin' | 'location';
+export type CharacterQueryField = CharacterQueryTextField | 'status' | 'gender' | 'episodes' | 'created';
+
+/** Rango inclusivo; null deja el extremo abierto */
+export interface QueryRange<T> {
+  min: T | null;
+  max: T | null;
+}
+
+interface ClauseBase {
+  negated: boolean;
+}
+
+export type CharacterQueryClause = ClauseBase & (
+  | { field: CharacterQueryTextField; text: string }
+  | { field: 'status'; value: CharacterStatus }
+  | { field: 'gender'; value: CharacterGender }
+  | { field: 'episodes'; range: QueryRange<number> }
+  | { field: 'created'; range: QueryRange<Date> }
+);
+
+export type CharacterQueryErrorCode =
+  'unclosedQuote' | 'emptyTerm' | 'unknownField' | 'missingValue' | 'invalidStatus' | 'invalidGender' |
+  'invalidEpisodes' | 'invalidDate' | 'emptyRange';
+
+/**
+ * Error de sintaxis con la posición del término en la consulta. El texto se
+ * traduce en la interfaz a partir del código (mensajes `query.error.*`).
+ */
+export interface CharacterQueryError {
+  code: CharacterQueryErrorCode;
+  params: Record<string, string>;
+  start: number;
+  end: number;
+}
+
+export interface CharacterQueryParseResult {
+  clauses: CharacterQueryClause[];
+  error: CharacterQueryError | null;
+}
+
+export interface CharacterQuerySuggestion {
+  label: string;
+  /** Consulta completa tras aceptar la sugerencia */
+  query: string;
+}
+
+/** Valores conocidos para autocompletar los campos de texto */
+export type CharacterQuerySuggestionValues = Partial<Record<CharacterQueryTextField, string[]>>;
+
+export const CHARACTER_QUERY_FIELDS: CharacterQueryField[] = [
+  'name', 'status', 'species', 'type', 'gender', 'origin', 'location', 'episodes', 'created'
+];
+
+// Campos que tienen equivalente en CharacterFilters (el resto siempre se filtra aquí)
+const FILTER_FIELDS = ['name', 'status', 'species', 'type', 'gender', 'origin', 'location'] as const;
+
+const FIELD_ALIASES: Record<string, CharacterQueryField> = { episode: 'episodes' };
+
+const EPISODES_EXAMPLES = ['>10', '<5', '1', '2..5'];
+const CREATED_EXAMPLES = ['2017-11..2017-12', '2017-11', '>=2020-01', '..2017-12-31'];
+const MAX_SUGGESTIONS = 8;
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parsea una consulta. Ante el primer error se devuelven las cláusulas vacías.
+ */
+export function parseCharacterQuery(query: string): CharacterQueryParseResult {
+  const clauses: CharacterQueryClause[] = [];
+  const tokens = tokenize(query);
+
+  if ('code' in tokens) {
+    return { clauses: [], error: tokens };
+  }
+
+  for (const token of tokens) {
+    const clause = parseToken(token);
+    if ('code' in clause) {
+      return { clauses: [], error: clause };
+    }
+    clauses.push(clause);
+  }
+
+  return { clauses, error: null };
+}
+
+/**
+ * Reparte las cláusulas entre CharacterFilters y el cliente. La primera cláusula positiva
+ * de un campo con filtro equivalente se convierte en filtro si `apiFilters` no tiene ya
+ * ese campo; el resto se aplica con matchesCharacterQuery.
+ */
+export function splitCharacterQuery(
+  clauses: CharacterQueryClause[],
+  apiFilters: CharacterFilters = {}
+): { apiFilters: CharacterFilters; clientClauses: CharacterQueryClause[] } {
+  const filters: CharacterFilters = { ...apiFilters };
+  const clientClauses: CharacterQueryClause[] = [];
+
+  for (const clause of clauses) {
+    const field = clause.field;
+    const apiField = FILTER_FIELDS.find(candidate => candidate === field);
+
+    if (clause.negated || !apiField || filters[apiField]) {
+      clientClauses.push(clause);
+    } else if (clause.field === 'status') {
+      filters.status = clause.value;
+    } else if (clause.field === 'gender') {
+      filters.gender = clause.value;
+    } else if (clause.field !== 'episodes' && clause.field !== 'created') {
+      filters[clause.field] = clause.text;
+    }
+  }
+
+  return { apiFilters: filters, clientClauses };
+}
+
+/**
+ * Indica si un personaje cumple todas las cláusulas
+ */
+export function matchesCharacterQuery(character: Character, clauses: CharacterQueryClause[]): boolean {
+  return clauses.every(clause => matchesClause(character, clause) !== clause.negated);
+}
+
+/**
+ * Fecha de creación máxima que permiten las cláusulas (null si no la limitan)
+ */
+export function createdUpperBound(clauses: CharacterQueryClause[]): Date | null {
+  const bounds = clauses.flatMap(clause => clause.field === 'created' && !clause.negated && clause.range.max
+    ? [clause.range.max]
+    : []
+  );
+  return bounds.length > 0 ? new Date(Math.min(...bounds.map(date => date.getTime()))) : null;
+}
+
+/**
+ * Sugerencias para el término que se está escribiendo (el último de la consulta):
+ * campos si aún no tiene `:`, o valores del campo si ya lo tiene
+ */
+export function suggestCharacterQuery(query: string, values: CharacterQuerySuggestionValues = {}): CharacterQuerySuggestion[] {
+  const tokenStart = /\S*$/.exec(query)?.index ?? query.length;
+  const prefix = query.slice(0, tokenStart);
+  const token = query.slice(tokenStart);
+  const negation = token.startsWith('-') ? '-' : '';
+  const term = token.slice(negation.length);
+  const colon = term.indexOf(':');
+
+  if (colon === -1) {
+    const partial = term.toLowerCase();
+    return CHARACTER_QUERY_FIELDS
+      .filter(field => field.startsWith(partial))
+      .map(field => ({ label: `${negation}${field}:`, query: `${prefix}${negation}${field}:` }));
+  }
+
+  const field = resolveField(term.slice(0, colon));
+  if (!field) {
+    return [];
+  }
+
+  const partial = term.slice(colon + 1).replace(/^"/, '').toLowerCase();
+  return fieldValues(field, values)
+    .filter(value => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => {
+      const clause = `${negation}${field}:${/\s/.test(value) ? `"${value}"` : value}`;
+      return { label: clause, query: `${prefix}${clause} ` };
+    });
+}
+
+/**
+ * Divide la consulta en términos separados por espacios, respetando las comillas
+ */
+function tokenize(query: string): QueryToken[] | CharacterQueryError {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        const closing = query.indexOf('"', i + 1);
+        if (closing === -1) {
+          return { code: 'unclosedQuote', params: {}, start: i, end: query.length };
+        }
+        i = closing;
+      }
+      i++;
+    }
+    tokens.push({ text: query.slice(start, i), start, end: i });
+  }
+
+  return tokens;
+}
+
+function parseToken(token: QueryToken): CharacterQueryClause | CharacterQueryError {
+  const negated = token.text.length > 1 && token.text.startsWith('-');
+  const term = negated ? token.text.slice(1) : token.text;
+  const error = (code: CharacterQueryErrorCode, params: Record<string, string> = {}): CharacterQueryError =>
+    ({ code, params, start: token.start, end: token.end });
+
+  // Sin campo (o con comillas antes de los dos puntos): búsqueda por nombre
+  const qualifier = /^([a-z]+):/i.exec(term);
+  if (!qualifier) {
+    const text = unquote(term);
+    return text ? { field: 'name', negated, text } : error('emptyTerm');
+  }
+
+  const field = resolveField(qualifier[1]);
+  if (!field) {
+    return error('unknownField', { field: qualifier[1], fields: CHARACTER_QUERY_FIELDS.join(', ') });
+  }
+
+  const value = unquote(term.slice(qualifier[0].length));
+  if (!value) {
+    return error('missingValue', { field });
+  }
+
+  switch (field) {
+    case 'status': {
+      const status = CHARACTER_STATUSES.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+      return status
+        ? { field, negated, value: status }
+        : error('invalidStatus', { value, values: CHARACTER_STATUSES.join(', ').toLowerCase() });
+    }
+    case 'gender': {
+      const gender = CHARACTER_GENDERS.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+      return gender
+        ? { field, negated, value: gender }
+        : error('invalidGender', { value, values: CHARACTER_GENDERS.join(', ').toLowerCase() });
+    }
+    case 'episodes': {
+      const range = parseRange(value, parseCount);
+      if (!range) {
+        return error('invalidEpisodes', { value });
+      }
+      return isEmptyRange(range) ? error('emptyRange', { value }) : { field, negated, range };
+    }
+    case 'created': {
+      const range = parseRange(value, parseDatePeriod);
+      if (!range) {
+        return error('invalidDate', { value });
+      }
+      return isEmptyRange(range) ? error('emptyRange', { value }) : { field, negated, range };
+    }
+    default:
+      return { field, negated, text: value };
+  }
+}
+
+function resolveField(name: string): CharacterQueryField | null {
+  const lower = name.toLowerCase();
+  return CHARACTER_QUERY_FIELDS.find(field => field === lower) ?? FIELD_ALIASES[lower] ?? null;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '').trim();
+}
+
+/**
+ * Parsea `valor`, `>valor`, `>=valor`, `<valor`, `<=valor` o `desde..hasta` (con un extremo
+ * opcional). `parseValue` devuelve el primer y el último valor que abarca un término
+ * (un número se abarca a sí mismo; un mes, del día 1 al último instante del mes).
+ */
+function parseRange<T extends number | Date>(value: string, parseValue: (text: string) => QueryRange<T> | null): QueryRange<T> | null {
+  const rangeMatch = /^(.*)\.\.(.*)$/.exec(value);
+  if (rangeMatch) {
+    const [, from, to] = rangeMatch;
+    if (!from && !to) return null;
+    const min = from ? parseValue(from) : null;
+    const max = to ? parseValue(to) : null;
+    if ((from && !min) || (to && !max)) return null;
+    return { min: min?.min ?? null, max: max?.max ?? null };
+  }
+
+  const comparison = /^(>=|<=|>|<)?(.+)$/.exec(value);
+  const bounds = comparison ? parseValue(comparison[2]) : null;
+  if (!comparison || !bounds) return null;
+
+  switch (comparison[1]) {
+    case '>': return { min: after(bounds.max!), max: null };
+    case '>=': return { min: bounds.min, max: null };
+    case '<': return { min: null, max: before(bounds.min!) };
+    case '<=': return { min: null, max: bounds.max };
+    default: return bounds;
+  }
+}
+
+function parseCount(text: string): QueryRange<number> | null {
+  if (!/^\d+$/.test(text)) return null;
+  const count = Number(text);
+  return { min: count, max: count };
+}
+
+/**
+ * Un año, mes o día en hora local, como el filtro de fechas del listado
+ */
+function parseDatePeriod(text: string): QueryRange<Date> | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(text);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (day !== null && (day < 1 || day > new Date(year, month! + 1, 0).getDate())) return null;
+
+  const start = new Date(year, month ?? 0, day ?? 1);
+  const nextPeriod = day !== null
+    ? new Date(year, month!, day + 1)
+    : month !== null ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+  return { min: start, max: new Date(nextPeriod.getTime() - 1) };
+}
+
+function after<T extends number | Date>(value: T): T {
+  return (typeof value === 'number' ? value + 1 : new Date(value.getTime() + 1)) as T;
+}
+
+function before<T extends number | Date>(value: T): T {
+  return (typeof value === 'number' ? value - 1 : new Date(value.getTime() - 1)) as T;
+}
+
+function isEmptyRange(range: QueryRange<number | Date>): boolean {
+  return range.min !== null && range.max !== null && range.min.valueOf() > range.max.valueOf();
+}
+
+function inRange(value: number, range: QueryRange<number | Date>): boolean {
+  return (range.min === null || value >= range.min.valueOf()) && (range.max === null || value <= range.max.valueOf());
+}
+
+function matchesClause(character: Character, clause: CharacterQueryClause): boolean {
+  const contains = (value: string, search: string) => value.toLowerCase().includes(search.toLowerCase());
+
+  switch (clause.field) {
+    case 'status': return character.status === clause.value;
+    case 'gender': return character.gender === clause.value;
+    case 'episodes': return inRange(character.episode.length, clause.range);
+    case 'created': return inRange(new Date(character.created).getTime(), clause.range);
+    case 'origin': return contains(character.origin.name, clause.text);
+    case 'location': return contains(character.location.name, clause.text);
+    default: return contains(character[clause.field], clause.text);
+  }
+}
+
+function fieldValues(field: CharacterQueryField, values: CharacterQuerySuggestionValues): string[] {
+  switch (field) {
+    case 'status': return CHARACTER_STATUSES.map(status => status.toLowerCase());
+    case 'gender': return CHARACTER_GENDERS.map(gender => gender.toLowerCase());
+    case 'episodes': return EPISODES_EXAMPLES;
+    case 'created': return CREATED_EXAMPLES;
+    default: return values[field] ?? [];
+  }
+}
@@ -0,0 +1,84 @@
+import { Character, CharacterSort, CharacterSortColumn } from '../models/character.model';
+
+export const CHARACTER_SORT_COLUMNS: CharacterSortColumn[] = [
+  'name', 'status', 'species', 'gender', 'origin', 'location', 'created', 'episode'
+];
+
+// Criterio principal + criterio secundario
+export const MAX_SORT_KEYS = 2;
+
+const SORT_VALUES: Record<CharacterSortColumn, (character: Character) => string | number> = {
+  name: character => character.name,
+  status: character => character.status,
+  species: character => character.species,
+  gender: character => character.gender,
+  origin: character => character.origin.name,
+  location: character => character.location.name,
+  created: character => new Date(character.created).getTime(),
+  episode: character => character.episode.length
+};
+
+/**
+ * Ordena personajes por varios criterios. El ID desempata para que el orden sea estable.
+ */
+export function sortCharacters(characters: Character[], sorts: CharacterSort[]): Character[] {
+  if (sorts.length === 0) {
+    return characters;
+  }
+
+  return [...characters].sort((a, b) => {
+    for (const sort of sorts) {
+      const result = compareValues(SORT_VALUES[sort.column](a), SORT_VALUES[sort.column](b));
+      if (result !== 0) {
+        return sort.direction === 'asc' ? result : -result;
+      }
+    }
+    return a.id - b.id;
+  });
+}
+
+/**
+ * Aplica un clic en una cabecera: la columna pasa a ser el criterio principal
+ * y el anterior principal queda como secundario
+ */
+export function applySortChange(current: CharacterSort[], column: CharacterSortColumn, direction: 'asc' | 'desc' | ''): CharacterSort[] {
+  const others = current.filter(sort => sort.column !== column);
+  if (!direction) {
+    return others;
+  }
+  return [{ column, direction }, ...others].slice(0, MAX_SORT_KEYS);
+}
+
+/**
+ * Parsea el query param de orden (ej: "name:asc,created:desc"), descartando valores inválidos
+ */
+export function parseSortParam(value: string | null | undefined): CharacterSort[] {
+  if (!value) {
+    return [];
+  }
+
+  const sorts: CharacterSort[] = [];
+  for (const part of value.split(',')) {
+    const [column, direction] = part.split(':');
+    if (CHARACTER_SORT_COLUMNS.includes(column as CharacterSortColumn)
+      && (direction === 'asc' || direction === 'desc')
+      && !sorts.some(sort => sort.column === column)) {
+      sorts.push({ column: column as CharacterSortColumn, direction });
+    }
+  }
+  return sorts.slice(0, MAX_SORT_KEYS);
+}
+
+/**
+ * Serializa el orden para guardarlo en la URL
+ */
+export function serializeSort(sorts: CharacterSort[]): string {
+  return sorts.map(sort => `${sort.column}:${sort.direction}`).join(',');
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
@@ -0,0 +1,97 @@
+import { Character } from '../models/character.model';
+import { toDateParam } from './date-param.utils';
+
+/**
+ * Grupo de una distribución. `filter` son los query params del listado de personajes
+ * que muestran ese grupo, o null si el listado no puede filtrarlo.
+ */
+export interface StatBucket {
+  label: string;
+  count: number;
+  filter: Record<string, string> | null;
+}
+
+/** Etiqueta del grupo que suma los valores fuera del top (ver topBuckets) */
+export const OTHER_BUCKET_LABEL = 'Other';
+
+// Límites inferiores de los intervalos del histograma de episodios
+const EPISODE_COUNT_BINS = [1, 2, 3, 6, 11, 21, 51];
+
+/**
+ * Cuenta los personajes por un valor, de mayor a menor (y alfabéticamente en empates)
+ * @param filterFor Query params del listado para un valor, si se puede filtrar por él
+ */
+export function countBy(
+  characters: Character[],
+  value: (character: Character) => string,
+  filterFor: (label: string) => Record<string, string> | null = () => null
+): StatBucket[] {
+  const counts = new Map<string, number>();
+  for (const character of characters) {
+    const label = value(character) || 'unknown';
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort(([labelA, a], [labelB, b]) => b - a || labelA.localeCompare(labelB))
+    .map(([label, count]) => ({ label, count, filter: filterFor(label) }));
+}
+
+/**
+ * Conserva los `limit` grupos mayores y suma el resto en "Other"
+ */
+export function topBuckets(buckets: StatBucket[], limit: number): StatBucket[] {
+  if (buckets.length <= limit) {
+    return buckets;
+  }
+
+  const other = buckets.slice(limit).reduce((sum, bucket) => sum + bucket.count, 0);
+  return [...buckets.slice(0, limit), { label: OTHER_BUCKET_LABEL, count: other, filter: null }];
+}
+
+/**
+ * Personajes creados por mes (hora local, como el filtro de fechas del listado),
+ * incluyendo los meses vacíos intermedios
+ */
+export function createdByMonth(characters: Character[]): StatBucket[] {
+  const dates = characters.map(character => new Date(character.created)).filter(date => !isNaN(date.getTime()));
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const monthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+  const counts = new Map<number, number>();
+  dates.forEach(date => counts.set(monthIndex(date), (counts.get(monthIndex(date)) ?? 0) + 1));
+
+  const first = Math.min(...counts.keys());
+  const last = Math.max(...counts.keys());
+
+  return Array.from({ length: last - first + 1 }, (_, i) => {
+    const year = Math.floor((first + i) / 12);
+    const month = (first + i) % 12;
+    return {
+      label: `${year}-${String(month + 1).padStart(2, '0')}`,
+      count: counts.get(first + i) ?? 0,
+      filter: {
+        createdStartDate: toDateParam(new Date(year, month, 1)),
+        createdEndDate: toDateParam(new Date(year, month + 1, 0))
+      }
+    };
+  });
+}
+
+/**
+ * Histograma del número de episodios en que aparece cada personaje
+ */
+export function episodeCountHistogram(characters: Character[]): StatBucket[] {
+  return EPISODE_COUNT_BINS.map((min, i) => {
+    const next = EPISODE_COUNT_BINS[i + 1];
+    const max = next !== undefined ? next - 1 : Infinity;
+    const label = max === Infinity ? `${min}+` : min === max ? `${min}` : `${min}–${max}`;
+    const count = characters.filter(character => character.episode.length >= min && character.episode.length <= max).length;
+    const filter: Record<string, string> = max === Infinity
+      ? { minEpisodes: String(min) }
+      : { minEpisodes: String(min), maxEpisodes: String(max) };
+    return { label, count, filter };
+  });
+}
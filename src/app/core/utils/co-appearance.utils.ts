@@ -0,0 +1,28 @@
+import { Character } from '../models/character.model';
+import { CoAppearanceEdge } from '../models/co-appearance.model';
+
+/**
+ * Número de episodios en los que aparecen los dos personajes
+ */
+export function countSharedEpisodes(a: Character, b: Character): number {
+  const episodes = new Set(a.episode);
+  return b.episode.filter(url => episodes.has(url)).length;
+}
+
+/**
+ * Aristas entre todos los pares de personajes que comparten al menos `minSharedEpisodes`
+ */
+export function buildCoAppearanceEdges(characters: Character[], minSharedEpisodes: number): CoAppearanceEdge[] {
+  const edges: CoAppearanceEdge[] = [];
+
+  characters.forEach((a, i) => {
+    for (const b of characters.slice(i + 1)) {
+      const sharedEpisodes = countSharedEpisodes(a, b);
+      if (sharedEpisodes >= Math.max(minSharedEpisodes, 1)) {
+        edges.push({ source: a.id, target: b.id, sharedEpisodes });
+      }
+    }
+  });
+
+  return edges;
+}
@@ -0,0 +1,24 @@
+/**
+ * Convierte una fecha a 'YYYY-MM-DD' usando la zona horaria local
+ * (toISOString usa UTC y puede desplazar el día)
+ */
+export function toDateParam(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parsea un valor 'YYYY-MM-DD' como medianoche local
+ * (new Date('YYYY-MM-DD') lo interpreta como UTC)
+ * @returns La fecha, o null si el valor no es una fecha válida
+ */
+export function fromDateParam(value: string | null | undefined): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? '');
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Date desborda los valores fuera de rango (2017-13-45); se rechazan
+  return toDateParam(date) === value ? date : null;
+}
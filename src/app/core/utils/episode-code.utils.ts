@@ -0,0 +1,16 @@
+export interface EpisodeCode {
+  season: number;
+  episode: number;
+}
+
+/**
+ * Parsea un código de episodio de la API (ej: "S02E05")
+ * @returns Temporada y número de episodio, o null si el formato no es válido
+ */
+export function parseEpisodeCode(code: string): EpisodeCode | null {
+  const match = /^S(\d+)E(\d+)$/i.exec(code.trim());
+  if (!match) {
+    return null;
+  }
+  return { season: Number(match[1]), episode: Number(match[2]) };
+}
@@ -0,0 +1,46 @@
+import { Episode } from '../models/episode.model';
+import { EpisodeTimeline, TimelineEpisode, TimelineGap } from '../models/episode-timeline.model';
+import { parseEpisodeCode } from './episode-code.utils';
+
+/**
+ * Sitúa las apariciones de un personaje en la rejilla de temporadas y episodios.
+ * Los episodios se ordenan por su código (SxxEyy); los que no lo tienen válido se ignoran.
+ * @param episodes Todos los episodios de la serie
+ * @param appearanceIds IDs de los episodios en los que aparece el personaje
+ */
+export function buildEpisodeTimeline(episodes: Episode[], appearanceIds: number[]): EpisodeTimeline {
+  const appearances = new Set(appearanceIds);
+
+  const ordered = episodes
+    .flatMap(episode => {
+      const code = parseEpisodeCode(episode.episode);
+      return code ? [{ episode, season: code.season, number: code.episode, appears: appearances.has(episode.id) }] : [];
+    })
+    .sort((a, b) => a.season - b.season || a.number - b.number);
+
+  const seasons = new Map<number, TimelineEpisode[]>();
+  ordered.forEach(entry => seasons.set(entry.season, [...(seasons.get(entry.season) ?? []), entry]));
+
+  // Posiciones de las apariciones en el orden de emisión
+  const positions = ordered.flatMap((entry, i) => entry.appears ? [i] : []);
+
+  let longestGap: TimelineGap | null = null;
+  for (let i = 1; i < positions.length; i++) {
+    const missedEpisodes = positions[i] - positions[i - 1] - 1;
+    if (missedEpisodes > (longestGap?.missedEpisodes ?? 0)) {
+      longestGap = { from: ordered[positions[i - 1]].episode, to: ordered[positions[i]].episode, missedEpisodes };
+    }
+  }
+
+  return {
+    seasons: Array.from(seasons, ([season, seasonEpisodes]) => ({
+      season,
+      episodes: seasonEpisodes,
+      appearances: seasonEpisodes.filter(entry => entry.appears).length
+    })),
+    appearances: positions.length,
+    firstAppearance: positions.length > 0 ? ordered[positions[0]].episode : null,
+    lastAppearance: positions.length > 0 ? ordered[positions[positions.length - 1]].episode : null,
+    longestGap
+  };
+}
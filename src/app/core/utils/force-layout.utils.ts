@@ -0,0 +1,96 @@
+export interface LayoutLink {
+  source: number;
+  target: number;
+  /** Las aristas con más peso acercan más a sus nodos */
+  weight: number;
+}
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  /** Distancia ideal entre nodos conectados */
+  idealDistance: number;
+  iterations: number;
+  /** Atracción hacia el origen, para que los componentes sueltos no se alejen */
+  gravity: number;
+}
+
+const DEFAULT_OPTIONS: ForceLayoutOptions = {
+  idealDistance: 90,
+  iterations: 300,
+  gravity: 0.01
+};
+
+// Ángulo áureo: reparte las posiciones iniciales en espiral sin solapes
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Distribución por fuerzas (Fruchterman-Reingold): los nodos se repelen entre sí
+ * y las aristas los atraen. El primer nodo queda fijo en el origen.
+ * Es determinista: las mismas entradas dan siempre las mismas posiciones.
+ */
+export function computeForceLayout(
+  nodeIds: number[],
+  links: LayoutLink[],
+  options: Partial<ForceLayoutOptions> = {}
+): Map<number, LayoutPoint> {
+  const { idealDistance: k, iterations, gravity } = { ...DEFAULT_OPTIONS, ...options };
+  const positions = nodeIds.map((_, i) => ({
+    x: i === 0 ? 0 : k * Math.sqrt(i) * Math.cos(i * GOLDEN_ANGLE),
+    y: i === 0 ? 0 : k * Math.sqrt(i) * Math.sin(i * GOLDEN_ANGLE)
+  }));
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const edges = links
+    .filter(link => index.has(link.source) && index.has(link.target))
+    .map(link => ({ a: index.get(link.source)!, b: index.get(link.target)!, strength: 1 + Math.log(Math.max(link.weight, 1)) }));
+
+  const initialTemperature = k * Math.sqrt(nodeIds.length);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = k * k / distance;
+        displacement[i].x += dx / distance * force;
+        displacement[i].y += dy / distance * force;
+        displacement[j].x -= dx / distance * force;
+        displacement[j].y -= dy / distance * force;
+      }
+    }
+
+    for (const { a, b, strength } of edges) {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = distance * distance / k * strength;
+      displacement[a].x -= dx / distance * force;
+      displacement[a].y -= dy / distance * force;
+      displacement[b].x += dx / distance * force;
+      displacement[b].y += dy / distance * force;
+    }
+
+    // El movimiento máximo se enfría linealmente hasta cero
+    const temperature = initialTemperature * (1 - iteration / iterations);
+
+    for (let i = 1; i < positions.length; i++) {
+      displacement[i].x -= positions[i].x * gravity * k;
+      displacement[i].y -= positions[i].y * gravity * k;
+
+      const length = Math.hypot(displacement[i].x, displacement[i].y);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        positions[i].x += displacement[i].x / length * step;
+        positions[i].y += displacement[i].y / length * step;
+      }
+    }
+  }
+
+  return new Map(nodeIds.map((id, i) => [id, positions[i]]));
+}
@@ -0,0 +1,118 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { BehaviorSubject, of, throwError } from 'rxjs';
+
+import { CharacterCompareComponent, parseCompareIds } from './character-compare.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+import { createCharacter } from '../../../../testing/character.fixture';
+
+describe('CharacterCompareComponent', () => {
+  let component: CharacterCompareComponent;
+  let fixture: ComponentFixture<CharacterCompareComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+  let router: Router;
+  let queryParamMap$: BehaviorSubject<ReturnType<typeof convertToParamMap>>;
+
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  const character = (id: number, name: string, status: Character['status'], episodeIds: number[]): Character => createCharacter(id, {
+    name,
+    status,
+    origin: { name: 'Earth (C-137)', url: `${API_URL}/location/1` },
+    location: { name: 'Citadel of Ricks', url: `${API_URL}/location/3` },
+    episode: episodeIds.map(episodeId => `${API_URL}/episode/${episodeId}`),
+    url: `${API_URL}/character/${id}`
+  });
+
+  const rick = character(1, 'Rick Sanchez', 'Alive', [1, 2, 3]);
+  const morty = character(2, 'Morty Smith', 'Alive', [2, 3, 4]);
+  const adjudicator = character(8, 'Adjudicator Rick', 'Dead', [3, 10]);
+
+  const episode = (id: number, name: string): Episode =>
+    ({ id, name, air_date: '', episode: `S01E0${id}`, characters: [], url: '', created: '' });
+
+  beforeEach(async () => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getMultipleCharacters', 'getMultipleEpisodes']);
+    queryParamMap$ = new BehaviorSubject(convertToParamMap({ ids: '8,1,2' }));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        CharacterCompareComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: RickMortyApiService, useValue: mockApiService },
+        provideRouter([]),
+        { provide: ActivatedRoute, useValue: { queryParamMap: queryParamMap$ } }
+      ]
+    }).compileComponents();
+
+    // Router real para los enlaces de la plantilla; solo se espía la navegación
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+
+    fixture = TestBed.createComponent(CharacterCompareComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería limitar y depurar los IDs de la URL', () => {
+    expect(parseCompareIds('3, 1,abc,3,-2,0,7,9,12')).toEqual([3, 1, 7, 9]);
+    expect(parseCompareIds(null)).toEqual([]);
+  });
+
+  it('debería mostrar los personajes en el orden de la URL y marcar las diferencias', () => {
+    mockApiService.getMultipleCharacters.and.returnValue(of([rick, morty, adjudicator]));
+    mockApiService.getMultipleEpisodes.and.returnValue(of([episode(3, 'Anatomy Park')]));
+    fixture.detectChanges();
+
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith([8, 1, 2]);
+    expect(component.state()).toBe('ready');
+    expect(component.characters().map(character => character.id)).toEqual([8, 1, 2]);
+
+    const rows = component.rows();
+    expect(rows.find(row => row.label === 'Status')).toEqual({ label: 'Status', values: ['Dead', 'Alive', 'Alive'], differs: true });
+    expect(rows.find(row => row.label === 'Origin')?.differs).toBe(false);
+  });
+
+  it('debería resolver los episodios comunes a todos los personajes', () => {
+    mockApiService.getMultipleCharacters.and.returnValue(of([rick, morty, adjudicator]));
+    mockApiService.getMultipleEpisodes.and.returnValue(of([episode(3, 'Anatomy Park')]));
+    fixture.detectChanges();
+
+    expect(mockApiService.getMultipleEpisodes).toHaveBeenCalledWith([3]);
+    expect(component.sharedEpisodes().map(e => e.name)).toEqual(['Anatomy Park']);
+    expect(fixture.nativeElement.querySelector('.episode-list').textContent).toContain('Anatomy Park');
+  });
+
+  it('debería conservar la comparación si fallan los episodios comunes', () => {
+    mockApiService.getMultipleCharacters.and.returnValue(of([rick, morty]));
+    mockApiService.getMultipleEpisodes.and.returnValue(throwError(() => new Error('boom')));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('ready');
+    expect(component.sharedEpisodesError()).toBe(true);
+  });
+
+  it('debería pedir al menos dos personajes existentes', () => {
+    mockApiService.getMultipleCharacters.and.returnValue(of([rick]));
+    fixture.detectChanges();
+    expect(component.state()).toBe('too-few');
+
+    queryParamMap$.next(convertToParamMap({ ids: '1' }));
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledTimes(1);
+    expect(component.state()).toBe('too-few');
+  });
+
+  it('debería quitar un personaje actualizando la URL', () => {
+    mockApiService.getMultipleCharacters.and.returnValue(of([rick, morty, adjudicator]));
+    mockApiService.getMultipleEpisodes.and.returnValue(of([]));
+    fixture.detectChanges();
+
+    component.remove(rick);
+
+    expect(router.navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { ids: '8,2' } });
+  });
+});
@@ -0,0 +1,214 @@
+import { Component, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, ActivatedRoute, RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Observable, Subject, catchError, map, of, switchMap, takeUntil } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character, CharacterStatus } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+import { extractIdsFromUrls } from '../../../core/utils/api-url.utils';
+import { I18nService } from '../../../core/services/i18n.service';
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { STATUS_KEYS } from '../../../core/i18n/message-keys';
+
+export type CharacterCompareState = 'loading' | 'ready' | 'too-few' | 'error';
+
+/** Máximo de personajes que se pueden comparar a la vez */
+export const MAX_COMPARED_CHARACTERS = 4;
+
+interface CompareAttribute {
+  label: MessageKey;
+  value: (character: Character, i18n: I18nService) => string;
+}
+
+export interface CompareRow {
+  label: string;
+  values: string[];
+  differs: boolean;
+}
+
+const COMPARE_ATTRIBUTES: CompareAttribute[] = [
+  { label: 'columns.status', value: (character, i18n) => i18n.t(`status.${character.status}`) },
+  { label: 'columns.species', value: character => character.species },
+  { label: 'columns.type', value: character => character.type || '—' },
+  { label: 'columns.gender', value: (character, i18n) => i18n.t(`gender.${character.gender}`) },
+  { label: 'columns.origin', value: character => character.origin.name },
+  { label: 'compare.lastKnownLocation', value: character => character.location.name },
+  { label: 'common.episodes', value: (character, i18n) => i18n.formatNumber(character.episode.length) }
+];
+
+/**
+ * Convierte el parámetro `ids` (p. ej. "1,2,3") en IDs válidos sin duplicados,
+ * limitados a MAX_COMPARED_CHARACTERS
+ */
+export function parseCompareIds(value: string | null): number[] {
+  const ids = (value ?? '')
+    .split(',')
+    .map(id => Number(id.trim()))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARED_CHARACTERS);
+}
+
+@Component({
+  selector: 'app-character-compare',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatProgressSpinnerModule,
+    TranslatePipe
+  ],
+  templateUrl: './character-compare.component.html',
+  styleUrls: ['./character-compare.component.scss']
+})
+export class CharacterCompareComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly i18n = inject(I18nService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly reload$ = new Subject<void>();
+
+  state = signal<CharacterCompareState>('loading');
+  characters = signal<Character[]>([]);
+  sharedEpisodes = signal<Episode[]>([]);
+  sharedEpisodesError = signal<boolean>(false);
+  maxCompared = MAX_COMPARED_CHARACTERS;
+  statusKeys = STATUS_KEYS;
+
+  // Atributos en filas y personajes en columnas; se marcan las filas con valores distintos
+  rows = computed<CompareRow[]>(() => COMPARE_ATTRIBUTES.map(attribute => {
+    const values = this.characters().map(character => attribute.value(character, this.i18n));
+    return {
+      label: this.i18n.t(attribute.label),
+      values,
+      differs: new Set(values.map(value => value.toLowerCase())).size > 1
+    };
+  }));
+
+  private currentIds: number[] = [];
+
+  ngOnInit(): void {
+    // switchMap cancela la carga anterior si cambian los IDs o se reintenta
+    this.reload$
+      .pipe(
+        switchMap(() => this.loadComparison(this.currentIds)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe();
+
+    this.route.queryParamMap
+      .pipe(
+        map(params => parseCompareIds(params.get('ids'))),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(ids => {
+        this.currentIds = ids;
+        this.reload$.next();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga de la comparación actual
+   */
+  retry(): void {
+    this.reload$.next();
+  }
+
+  /**
+   * Quita un personaje de la comparación (actualiza la URL)
+   */
+  remove(character: Character): void {
+    const ids = this.characters().map(c => c.id).filter(id => id !== character.id);
+    this.router.navigate(['/compare'], { queryParams: { ids: ids.join(',') } });
+  }
+
+  /**
+   * Vuelve al listado de personajes
+   */
+  goBack(): void {
+    this.router.navigate(['/characters']);
+  }
+
+  /**
+   * Obtiene la clase CSS para el estado del personaje
+   */
+  getStatusClass(status: CharacterStatus): string {
+    return `status-${status.toLowerCase()}`;
+  }
+
+  /**
+   * Carga los personajes (en el orden de la URL) y los episodios que comparten
+   */
+  private loadComparison(ids: number[]): Observable<void> {
+    if (ids.length < 2) {
+      this.resetData();
+      this.state.set('too-few');
+      return of(undefined);
+    }
+
+    this.state.set('loading');
+    this.sharedEpisodesError.set(false);
+
+    return this.apiService.getMultipleCharacters(ids).pipe(
+      map(characters => ids
+        .map(id => characters.find(character => character.id === id))
+        .filter((character): character is Character => character !== undefined)
+      ),
+      switchMap(characters => {
+        if (characters.length < 2) {
+          this.resetData();
+          this.state.set('too-few');
+          return of(undefined);
+        }
+
+        this.characters.set(characters);
+        this.state.set('ready');
+        return this.loadSharedEpisodes(characters);
+      }),
+      catchError(() => {
+        this.resetData();
+        this.state.set('error');
+        return of(undefined);
+      })
+    );
+  }
+
+  /**
+   * Resuelve los nombres de los episodios en los que aparecen todos los personajes.
+   * Un fallo no invalida la comparación: solo se marca el error de esa sección.
+   */
+  private loadSharedEpisodes(characters: Character[]): Observable<void> {
+    const [first, ...others] = characters.map(character => extractIdsFromUrls(character.episode));
+    const sharedIds = first.filter(id => others.every(episodeIds => episodeIds.includes(id)));
+
+    return this.apiService.getMultipleEpisodes(sharedIds).pipe(
+      map(episodes => {
+        this.sharedEpisodes.set([...episodes].sort((a, b) => a.id - b.id));
+      }),
+      catchError(() => {
+        this.sharedEpisodes.set([]);
+        this.sharedEpisodesError.set(true);
+        return of(undefined);
+      })
+    );
+  }
+
+  private resetData(): void {
+    this.characters.set([]);
+    this.sharedEpisodes.set([]);
+  }
+}
@@ -0,0 +1,109 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router, convertToParamMap } from '@angular/router';
+import { BehaviorSubject, of, throwError } from 'rxjs';
+
+import { CharacterDetailComponent } from './character-detail.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { CharacterDetailData } from '../../../core/models/character.model';
+import { createCharacter } from '../../../../testing/character.fixture';
+
+describe('CharacterDetailComponent', () => {
+  let component: CharacterDetailComponent;
+  let fixture: ComponentFixture<CharacterDetailComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+  let mockRouter: jasmine.SpyObj<Router>;
+  let paramMap$: BehaviorSubject<ReturnType<typeof convertToParamMap>>;
+
+  const mockCharacter = createCharacter(1, {
+    name: 'Rick Sanchez',
+    origin: { name: 'Earth (C-137)', url: 'https://rickandmortyapi.com/api/location/1' },
+    location: { name: 'Citadel of Ricks', url: 'https://rickandmortyapi.com/api/location/3' },
+    image: 'https://rickandmortyapi.com/api/character/avatar/1.jpeg',
+    episode: [
+      'https://rickandmortyapi.com/api/episode/1',
+      'https://rickandmortyapi.com/api/episode/2'
+    ],
+    url: 'https://rickandmortyapi.com/api/character/1'
+  });
+
+  beforeEach(async () => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getCharacterDetail', 'getAllEpisodes']);
+    mockApiService.getAllEpisodes.and.returnValue(of([]));
+    mockRouter = jasmine.createSpyObj('Router', ['navigate']);
+    paramMap$ = new BehaviorSubject(convertToParamMap({ id: '1' }));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        CharacterDetailComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: RickMortyApiService, useValue: mockApiService },
+        { provide: Router, useValue: mockRouter },
+        { provide: ActivatedRoute, useValue: { paramMap: paramMap$ } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CharacterDetailComponent);
+    component = fixture.componentInstance;
+  });
+
+  const mockDetail: CharacterDetailData = {
+    character: mockCharacter,
+    episodes: [
+      { id: 1, name: 'Pilot', air_date: 'December 2, 2013', episode: 'S01E01', characters: [], url: '', created: '' },
+      { id: 2, name: 'Lawnmower Dog', air_date: 'December 9, 2013', episode: 'S01E02', characters: [], url: '', created: '' }
+    ],
+    origin: { id: 1, name: 'Earth (C-137)', type: 'Planet', dimension: 'Dimension C-137', residents: [], url: '', created: '' },
+    location: { id: 3, name: 'Citadel of Ricks', type: 'Space station', dimension: 'unknown', residents: [], url: '', created: '' }
+  };
+
+  it('debería cargar el personaje con sus episodios y ubicaciones', () => {
+    mockApiService.getCharacterDetail.and.returnValue(of(mockDetail));
+    fixture.detectChanges();
+
+    expect(mockApiService.getCharacterDetail).toHaveBeenCalledWith(1);
+    expect(component.state()).toBe('ready');
+    expect(component.episodes().map(e => e.episode)).toEqual(['S01E01', 'S01E02']);
+    expect(component.origin()?.dimension).toBe('Dimension C-137');
+    expect(component.location()?.type).toBe('Space station');
+  });
+
+  it('debería mostrar "not found" para un ID no numérico sin llamar a la API', () => {
+    paramMap$.next(convertToParamMap({ id: 'abc' }));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('not-found');
+    expect(mockApiService.getCharacterDetail).not.toHaveBeenCalled();
+  });
+
+  it('debería mostrar "not found" cuando la API no encuentra el personaje', () => {
+    mockApiService.getCharacterDetail.and.returnValue(of(null));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('not-found');
+    expect(component.character()).toBeNull();
+  });
+
+  it('debería mostrar el estado de error y permitir reintentar', () => {
+    mockApiService.getCharacterDetail.and.returnValues(
+      throwError(() => ({ status: 500 })),
+      of(mockDetail)
+    );
+    fixture.detectChanges();
+    expect(component.state()).toBe('error');
+
+    component.retry();
+    expect(component.state()).toBe('ready');
+    expect(mockApiService.getCharacterDetail).toHaveBeenCalledTimes(2);
+  });
+
+  it('debería mantener el personaje aunque fallen los episodios', () => {
+    mockApiService.getCharacterDetail.and.returnValue(of({ ...mockDetail, episodes: null }));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('ready');
+    expect(component.episodesError()).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { Component, OnInit, OnDestroy, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, ActivatedRoute } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatListModule } from '@angular/material/list';
+import { Observable, Subject, catchError, map, of, switchMap, takeUntil } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { CharactersStoreService } from '../../../core/services/characters-store.service';
+import { Character, CharacterStatus } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+import { LocationDetail } from '../../../core/models/location.model';
+import { LocalizedDatePipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { GENDER_KEYS, STATUS_KEYS } from '../../../core/i18n/message-keys';
+import { EpisodeTimelineComponent } from './episode-timeline.component';
+
+export type CharacterDetailState = 'loading' | 'ready' | 'not-found' | 'error';
+
+@Component({
+  selector: 'app-character-detail',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatProgressSpinnerModule,
+    MatListModule,
+    TranslatePipe,
+    LocalizedDatePipe,
+    EpisodeTimelineComponent
+  ],
+  templateUrl: './character-detail.component.html',
+  styleUrls: ['./character-detail.component.scss']
+})
+export class CharacterDetailComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly store = inject(CharactersStoreService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+  private readonly reload$ = new Subject<void>();
+
+  // Signals para estado reactivo
+  state = signal<CharacterDetailState>('loading');
+  character = signal<Character | null>(null);
+  episodes = signal<Episode[]>([]);
+  origin = signal<LocationDetail | null>(null);
+  location = signal<LocationDetail | null>(null);
+  episodesError = signal<boolean>(false);
+  statusKeys = STATUS_KEYS;
+  genderKeys = GENDER_KEYS;
+
+  private currentId: string | null = null;
+
+  ngOnInit(): void {
+    // switchMap cancela la carga anterior si cambia el ID o se reintenta
+    this.reload$
+      .pipe(
+        switchMap(() => this.loadCharacter(this.currentId)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe();
+
+    this.route.paramMap
+      .pipe(
+        map(params => params.get('id')),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(id => {
+        this.currentId = id;
+        this.reload$.next();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga del personaje actual
+   */
+  retry(): void {
+    this.reload$.next();
+  }
+
+  /**
+   * Vuelve al listado de personajes
+   */
+  goBack(): void {
+    this.router.navigate(['/characters']);
+  }
+
+  /**
+   * Abre el grafo de coapariciones centrado en el personaje
+   */
+  openGraph(character: Character): void {
+    this.router.navigate(['/graph'], { queryParams: { id: character.id } });
+  }
+
+  /**
+   * Obtiene la clase CSS para el estado del personaje
+   */
+  getStatusClass(status: CharacterStatus): string {
+    return `status-${status.toLowerCase()}`;
+  }
+
+  /**
+   * Carga el personaje y resuelve sus episodios y ubicaciones
+   */
+  private loadCharacter(rawId: string | null): Observable<void> {
+    const id = Number(rawId);
+
+    // IDs no numéricos o no positivos no pueden existir en la API
+    if (!rawId || !Number.isInteger(id) || id <= 0) {
+      this.resetData();
+      this.state.set('not-found');
+      return of(undefined);
+    }
+
+    this.state.set('loading');
+    this.episodesError.set(false);
+
+    // El servicio resuelve episodios y ubicaciones (en una sola consulta con GraphQL).
+    // Si el personaje ya se cargó en el listado no se vuelve a pedir.
+    return this.apiService.getCharacterDetail(this.store.getCharacter(id) ?? id).pipe(
+      map(data => {
+        if (!data) {
+          this.resetData();
+          this.state.set('not-found');
+          return;
+        }
+
+        this.character.set(data.character);
+        this.episodes.set(data.episodes ?? []);
+        this.episodesError.set(data.episodes === null);
+        this.origin.set(data.origin);
+        this.location.set(data.location);
+        this.state.set('ready');
+      }),
+      catchError(() => {
+        this.resetData();
+        this.state.set('error');
+        return of(undefined);
+      })
+    );
+  }
+
+  private resetData(): void {
+    this.character.set(null);
+    this.episodes.set([]);
+    this.origin.set(null);
+    this.location.set(null);
+  }
+}
@@ -1,25 +1,44 @@
-import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ApplicationRef } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { ViewportScroller } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
-import { ActivatedRoute, Router } from '@angular/router';
+import { ActivatedRoute, Router, provideRouter } from '@angular/router';
 import { BreakpointObserver } from '@angular/cdk/layout';
-import { of, throwError } from 'rxjs';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
+import { MatDialog } from '@angular/material/dialog';
+import { NEVER, of, throwError } from 'rxjs';
 
 import { CharactersTableComponent } from './characters-table.component';
+import { KeyboardShortcutsDialogComponent } from './keyboard-shortcuts-dialog.component';
+import { Character } from '../../../core/models/character.model';
 import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { ApiError } from '../../../core/models/api-error.model';
+import { LOCALE_STORAGE_KEY } from '../../../core/services/i18n.service';
+import { CharactersStoreService } from '../../../core/services/characters-store.service';
+import { createCharacter } from '../../../../testing/character.fixture';
 
 describe('CharactersTableComponent', () => {
   let component: CharactersTableComponent;
   let fixture: ComponentFixture<CharactersTableComponent>;
   let mockApiService: jasmine.SpyObj<RickMortyApiService>;
-  let mockRouter: jasmine.SpyObj<Router>;
+  let router: Router;
   let mockActivatedRoute: any;
   let mockBreakpointObserver: jasmine.SpyObj<BreakpointObserver>;
 
+  // Nombres de las filas que ha pintado el viewport virtual
+  const renderedNames = (): string[] => Array.from(
+    fixture.nativeElement.querySelectorAll('tr.clickable-row .character-link') as NodeListOf<HTMLElement>,
+    link => link.textContent?.trim() ?? ''
+  );
+
   beforeEach(async () => {
+    // Los textos esperados están en inglés, el idioma por defecto
+    localStorage.removeItem(LOCALE_STORAGE_KEY);
+
     // Crear mocks de los servicios
-    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getCharacters']);
-    mockRouter = jasmine.createSpyObj('Router', ['navigate']);
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getCharacters', 'getAllCharacters', 'getAllEpisodes']);
     mockActivatedRoute = {
       snapshot: {
         queryParams: {}
@@ -36,12 +55,16 @@ describe('CharactersTableComponent', () => {
       ],
       providers: [
         { provide: RickMortyApiService, useValue: mockApiService },
-        { provide: Router, useValue: mockRouter },
+        provideRouter([]),
         { provide: ActivatedRoute, useValue: mockActivatedRoute },
         { provide: BreakpointObserver, useValue: mockBreakpointObserver }
       ]
     }).compileComponents();
 
+    // Router real para los enlaces de la plantilla; solo se espía la navegación
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+
     fixture = TestBed.createComponent(CharactersTableComponent);
     component = fixture.componentInstance;
   });
@@ -97,26 +120,23 @@ describe('CharactersTableComponent', () => {
 
       spyOn(console, 'error');
       fixture.detectChanges();
+      expect(component.characters().length).toBe(1);
+      expect(component.hasMore()).toBe(true);
+
+      // Llegar al final de la lista pide la siguiente página (una sola vez aunque el viewport también lo detecte)
+      component.onRenderedRangeChange({ start: 0, end: 1 });
 
-      // Esperar que cargue la primera página
+      // Esperar a que se maneje el error
       setTimeout(() => {
+        expect(mockApiService.getCharacters).toHaveBeenCalledTimes(2);
         expect(component.characters().length).toBe(1);
-        expect(component.loading()).toBe(false);
-        expect(component.hasMore()).toBe(true);
-
-        component.loadNextPage();
-
-        // Esperar a que se maneje el error
-        setTimeout(() => {
-          expect(component.characters().length).toBe(1);
-          expect(component.characters()[0].name).toBe('Rick Sanchez');
-          expect(component.loadingMore()).toBe(false);
+        expect(component.characters()[0].name).toBe('Rick Sanchez');
+        expect(component.loadingMore()).toBe(false);
 
-          expect(component.hasMore()).toBe(false);
-          expect(console.error).toHaveBeenCalledWith('Error loading characters:', mockError);
+        expect(component.hasMore()).toBe(false);
+        expect(console.error).toHaveBeenCalledWith('Error loading characters:', mockError);
 
-          done();
-        }, 100);
+        done();
       }, 100);
     });
 
@@ -139,6 +159,44 @@ describe('CharactersTableComponent', () => {
     });
   });
 
+  describe('Error States', () => {
+    it('debería distinguir "sin resultados" de un error del servidor', () => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 0, pages: 0, next: null, prev: null },
+        results: []
+      }));
+      fixture.detectChanges();
+
+      expect(component.errorState()).toBeNull();
+      expect(fixture.nativeElement.textContent).toContain('No characters found');
+    });
+
+    it('debería mostrar el estado de error del servidor con opción de reintentar', () => {
+      mockApiService.getCharacters.and.returnValues(
+        throwError(() => new ApiError('server', 500)),
+        of({ info: { count: 0, pages: 0, next: null, prev: null }, results: [] })
+      );
+      spyOn(console, 'error');
+      fixture.detectChanges();
+
+      expect(component.errorState()).toBe('error');
+      expect(fixture.nativeElement.textContent).toContain('Server error');
+
+      component.retryLoad();
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(2);
+      expect(component.errorState()).toBeNull();
+    });
+
+    it('debería mostrar el estado offline sin conexión', () => {
+      mockApiService.getCharacters.and.returnValue(throwError(() => new ApiError('offline', 0)));
+      spyOn(console, 'error');
+      fixture.detectChanges();
+
+      expect(component.errorState()).toBe('offline');
+      expect(fixture.nativeElement.textContent).toContain('You are offline');
+    });
+  });
+
   describe('Successful Loading', () => {
     it('debería cargar personajes exitosamente', (done) => {
       const mockResponse = {
@@ -175,7 +233,8 @@ describe('CharactersTableComponent', () => {
         ]
       };
 
-      mockApiService.getCharacters.and.returnValue(of(mockResponse));
+      // Dos filas no llenan la pantalla: la segunda página queda pendiente
+      mockApiService.getCharacters.and.returnValues(of(mockResponse), NEVER);
 
       fixture.detectChanges();
 
@@ -192,4 +251,521 @@ describe('CharactersTableComponent', () => {
       }, 100);
     });
   });
+
+  describe('Date Range Filtering', () => {
+    // 3 páginas de 20 personajes: enero, febrero y marzo de 2018
+    const pageResponse = (page: number) => ({
+      info: { count: 60, pages: 3, next: page < 3 ? `page${page + 1}` : null, prev: null },
+      results: Array.from({ length: 20 }, (_, i) =>
+        createCharacter((page - 1) * 20 + i + 1, { created: `2018-0${page}-${String(i + 1).padStart(2, '0')}T12:00:00.000Z` }))
+    });
+
+    beforeEach(() => {
+      mockApiService.getCharacters.and.callFake(filters => of(pageResponse(filters?.page ?? 1)));
+    });
+
+    it('debería seguir pidiendo páginas hasta llenar una página de resultados', () => {
+      mockActivatedRoute.snapshot.queryParams = { createdStartDate: '2018-02-11' };
+      fixture.detectChanges();
+
+      // 10 coincidencias en la página 2 y 20 en la página 3
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(3);
+      expect(component.characters().length).toBe(30);
+      expect(component.hasMore()).toBe(false);
+      expect(component.totalCount()).toBe(30);
+      expect(component.totalCountIsEstimate()).toBe(false);
+    });
+
+    it('debería detenerse al pasar la fecha final y dar el total exacto', () => {
+      mockActivatedRoute.snapshot.queryParams = { createdEndDate: '2018-01-05' };
+      fixture.detectChanges();
+
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(1);
+      expect(component.characters().length).toBe(5);
+      expect(component.hasMore()).toBe(false);
+      expect(component.totalCount()).toBe(5);
+    });
+
+    it('debería marcar el total como estimado mientras queden páginas por revisar', () => {
+      mockActivatedRoute.snapshot.queryParams = { createdStartDate: '2018-01-01' };
+      fixture.detectChanges();
+
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(1);
+      expect(component.hasMore()).toBe(true);
+      expect(component.totalCountIsEstimate()).toBe(true);
+      expect(component.totalCount()).toBe(60);
+    });
+  });
+
+  describe('Advanced Search', () => {
+    const rick = (id: number, location: string, episodes: number): Character => createCharacter(id, {
+      name: `Rick ${id}`,
+      origin: { name: 'Earth (C-137)', url: '' },
+      location: { name: location, url: '' },
+      episode: Array.from({ length: episodes }, (_, i) => `https://rickandmortyapi.com/api/episode/${i + 1}`),
+      created: `2017-11-0${id}T12:00:00.000Z`
+    });
+
+    const characters = [
+      rick(1, 'Earth (Replacement Dimension)', 20),
+      rick(2, 'Citadel of Ricks', 2),
+      rick(3, 'Citadel of Ricks', 15)
+    ];
+
+    beforeEach(() => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 3, pages: 1, next: null, prev: null },
+        results: characters
+      }));
+    });
+
+    it('debería enviar a la API los campos admitidos y filtrar el resto en el cliente', () => {
+      mockActivatedRoute.snapshot.queryParams = { query: 'rick status:alive -location:earth episodes:>10' };
+      fixture.detectChanges();
+
+      expect(mockApiService.getCharacters).toHaveBeenCalledWith(jasmine.objectContaining({ name: 'rick', status: 'Alive', page: 1 }));
+      expect(component.characters().map(character => character.id)).toEqual([3]);
+      expect(component.totalCount()).toBe(1);
+    });
+
+    it('debería combinar la búsqueda con los filtros del formulario', () => {
+      mockActivatedRoute.snapshot.queryParams = { query: 'status:dead created:2017-11-01..2017-11-02', status: 'Alive' };
+      fixture.detectChanges();
+
+      // El estado del formulario va a la API y el de la búsqueda se aplica en el cliente
+      expect(mockApiService.getCharacters).toHaveBeenCalledWith(jasmine.objectContaining({ status: 'Alive' }));
+      expect(component.characters()).toEqual([]);
+    });
+
+    it('debería mostrar los errores de sintaxis sin recargar los resultados', fakeAsync(() => {
+      fixture.detectChanges();
+      mockApiService.getCharacters.calls.reset();
+
+      component.filtersForm.controls.query.setValue('status:zombie');
+      tick(300);
+
+      expect(component.queryError()?.message).toContain('Invalid status "zombie"');
+      expect(mockApiService.getCharacters).not.toHaveBeenCalled();
+
+      component.filtersForm.controls.query.setValue('created:2017-13');
+      tick(300);
+      expect(component.queryError()?.message).toContain('Invalid date');
+
+      component.filtersForm.controls.query.setValue('origin:"earth');
+      tick(300);
+      expect(component.queryError()?.message).toContain('Missing closing quote');
+    }));
+
+    it('debería autocompletar campos y valores', () => {
+      fixture.detectChanges();
+
+      component.filtersForm.controls.query.setValue('rick -loc');
+      expect(component.querySuggestions().map(suggestion => suggestion.query)).toEqual(['rick -location:']);
+
+      component.filtersForm.controls.query.setValue('rick status:al');
+      expect(component.querySuggestions().map(suggestion => suggestion.label)).toEqual(['status:alive']);
+
+      component.filtersForm.controls.query.setValue('location:cit');
+      expect(component.querySuggestions()).toEqual([
+        { label: 'location:"Citadel of Ricks"', query: 'location:"Citadel of Ricks" ' }
+      ]);
+    });
+  });
+
+  describe('Additional Filters', () => {
+    beforeEach(() => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 0, pages: 0, next: null, prev: null },
+        results: []
+      }));
+    });
+
+    it('debería leer de la URL el tipo, el origen, la ubicación y el rango de episodios', () => {
+      mockActivatedRoute.snapshot.queryParams = { type: 'Clone', origin: 'Earth', location: 'Citadel', minEpisodes: '2', maxEpisodes: 'x' };
+      fixture.detectChanges();
+
+      expect(component.filtersForm.getRawValue()).toEqual(jasmine.objectContaining({
+        type: 'Clone', origin: 'Earth', location: 'Citadel', minEpisodes: 2, maxEpisodes: null
+      }));
+      expect(mockApiService.getCharacters).toHaveBeenCalledWith(jasmine.objectContaining({
+        type: 'Clone', origin: 'Earth', location: 'Citadel', minEpisodes: 2, page: 1
+      }));
+      expect(component.hasActiveFilters()).toBe(true);
+    });
+
+    it('no debería recargar con un rango de episodios inválido', fakeAsync(() => {
+      fixture.detectChanges();
+      mockApiService.getCharacters.calls.reset();
+
+      component.filtersForm.controls.minEpisodes.setValue(-1);
+      tick(300);
+      expect(component.filtersForm.controls.minEpisodes.invalid).toBe(true);
+      expect(mockApiService.getCharacters).not.toHaveBeenCalled();
+
+      component.filtersForm.controls.minEpisodes.setValue(3);
+      tick(300);
+      expect(mockApiService.getCharacters).toHaveBeenCalledWith(jasmine.objectContaining({ minEpisodes: 3 }));
+    }));
+  });
+
+  describe('Keyboard Navigation', () => {
+    const characters = [1, 2, 3].map(id => createCharacter(id));
+
+    let announcer: LiveAnnouncer;
+
+    const rows = (): HTMLElement[] => Array.from(fixture.nativeElement.querySelectorAll('tr.clickable-row'));
+    const press = (target: EventTarget, key: string): KeyboardEvent => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+      target.dispatchEvent(event);
+      fixture.detectChanges();
+      return event;
+    };
+
+    beforeEach(async () => {
+      announcer = fixture.debugElement.injector.get(LiveAnnouncer);
+      spyOn(announcer, 'announce').and.returnValue(Promise.resolve());
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 3, pages: 1, next: null, prev: null },
+        results: characters
+      }));
+      fixture.detectChanges();
+      await fixture.whenStable();
+      fixture.detectChanges();
+    });
+
+    it('debería dejar tabulable solo una fila y moverse con las flechas', () => {
+      expect(rows().map(row => row.tabIndex)).toEqual([0, -1, -1]);
+
+      rows()[0].focus();
+      press(rows()[0], 'ArrowDown');
+      expect(document.activeElement).toBe(rows()[1]);
+      expect(rows().map(row => row.tabIndex)).toEqual([-1, 0, -1]);
+
+      press(rows()[1], 'End');
+      expect(document.activeElement).toBe(rows()[2]);
+
+      press(rows()[2], 'Home');
+      expect(component.activeCharacterId()).toBe(1);
+    });
+
+    it('debería abrir el detalle con Enter y alternar el favorito con f', () => {
+      const favorites = TestBed.inject(FavoritesService);
+      spyOn(favorites, 'toggle');
+
+      press(rows()[1], 'Enter');
+      expect(router.navigate).toHaveBeenCalledWith(['/characters', 2]);
+
+      const event = press(rows()[1], 'f');
+      expect(favorites.toggle).toHaveBeenCalledWith(2);
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('debería enlazar el nombre de cada fila con su detalle sin añadir paradas de tabulación', () => {
+      const link = rows()[1].querySelector('a.character-link') as HTMLAnchorElement;
+
+      expect(link.getAttribute('href')).toBe('/characters/2');
+      expect(link.tabIndex).toBe(-1);
+    });
+
+    it('no debería gestionar las teclas de los botones de la fila', () => {
+      const button = rows()[0].querySelector('button') as HTMLButtonElement;
+      press(button, 'Enter');
+
+      expect(router.navigate).not.toHaveBeenCalledWith(['/characters', 1]);
+    });
+
+    it('debería enfocar la búsqueda con / y limpiar los filtros con Esc', () => {
+      press(document.body, '/');
+      expect(document.activeElement?.getAttribute('formControlName')).toBe('query');
+
+      // Con el autocompletado abierto Esc solo lo cierra
+      (document.activeElement as HTMLElement).blur();
+      component.filtersForm.controls.name.setValue('rick');
+      press(document.body, 'Escape');
+      expect(component.filtersForm.controls.name.value).toBe('');
+      expect(announcer.announce).toHaveBeenCalledWith('Filters cleared');
+    });
+
+    it('debería abrir la ayuda con ?', () => {
+      const dialog = fixture.debugElement.injector.get(MatDialog);
+      spyOn(dialog, 'open');
+
+      press(document.body, '?');
+      expect(dialog.open).toHaveBeenCalledWith(KeyboardShortcutsDialogComponent, jasmine.any(Object));
+    });
+
+    it('debería anunciar el número de resultados, la carga de más páginas y los errores', () => {
+      expect(announcer.announce).toHaveBeenCalledWith('3 characters found');
+
+      mockApiService.getCharacters.and.returnValue(throwError(() => new ApiError('server', 500)));
+      spyOn(console, 'error');
+      TestBed.inject(CharactersStoreService).patch({ hasMore: true });
+      component.loadNextPage();
+
+      expect(announcer.announce).toHaveBeenCalledWith('Loading more characters');
+      expect(announcer.announce).toHaveBeenCalledWith('Characters could not be loaded. Please try again.', 'assertive');
+    });
+  });
+
+  describe('Virtual Scrolling', () => {
+    const characters = Array.from({ length: 100 }, (_, i) => createCharacter(i + 1));
+
+    beforeEach(() => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 200, pages: 2, next: 'page2', prev: null },
+        results: characters
+      }));
+    });
+
+    it('debería renderizar solo las filas del rango visible', async () => {
+      fixture.detectChanges();
+      await fixture.whenStable();
+      fixture.detectChanges();
+
+      const rows = fixture.nativeElement.querySelectorAll('tr.clickable-row');
+      expect(component.renderedRange().start).toBe(0);
+      expect(rows.length).toBe(component.renderedRange().end);
+      expect(rows.length).toBeLessThan(characters.length);
+      expect(rows[0].querySelector('.status-badge').textContent).toContain('Alive');
+    });
+
+    it('debería cargar la siguiente página cerca del final del rango renderizado', () => {
+      fixture.detectChanges();
+      mockApiService.getCharacters.calls.reset();
+
+      component.onRenderedRangeChange({ start: 40, end: 60 });
+      expect(mockApiService.getCharacters).not.toHaveBeenCalled();
+
+      component.onRenderedRangeChange({ start: 80, end: 96 });
+      expect(mockApiService.getCharacters).toHaveBeenCalledWith(jasmine.objectContaining({ page: 2 }));
+      expect(component.characters().length).toBe(200);
+    });
+
+    it('debería agrupar las tarjetas en filas según las columnas en móvil', () => {
+      fixture.detectChanges();
+      component.cardColumns.set(2);
+
+      expect(component.cardRows().length).toBe(50);
+      expect(component.cardRows()[0].map(character => character.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('Sorting', () => {
+    // 25 personajes en orden inverso por nombre para que la primera página no sirva
+    const allCharacters = Array.from({ length: 25 }, (_, i) =>
+      createCharacter(i + 1, { name: `Character ${String(25 - i).padStart(2, '0')}`, status: i % 2 === 0 ? 'Alive' : 'Dead' }));
+
+    beforeEach(() => {
+      mockApiService.getAllCharacters.and.returnValue(of(
+        { characters: allCharacters.slice(0, 20), loadedPages: 1, totalPages: 2, complete: false },
+        { characters: allCharacters, loadedPages: 2, totalPages: 2, complete: true }
+      ));
+    });
+
+    it('debería ordenar el resultado completo y no solo las páginas cargadas', () => {
+      mockActivatedRoute.snapshot.queryParams = { sort: 'name:asc' };
+      fixture.detectChanges();
+
+      expect(mockApiService.getAllCharacters).toHaveBeenCalledTimes(1);
+      expect(mockApiService.getCharacters).not.toHaveBeenCalled();
+      expect(component.characters().length).toBe(20);
+      expect(component.characters()[0].name).toBe('Character 01');
+      expect(component.totalCount()).toBe(25);
+      expect(component.hasMore()).toBe(true);
+
+      component.loadNextPage();
+      expect(component.characters().length).toBe(25);
+      expect(component.characters()[24].name).toBe('Character 25');
+      expect(component.hasMore()).toBe(false);
+    });
+
+    it('debería usar la columna anterior como criterio secundario y guardarlo en la URL', () => {
+      mockActivatedRoute.snapshot.queryParams = { sort: 'name:desc' };
+      fixture.detectChanges();
+
+      component.onSortChange({ active: 'status', direction: 'asc' });
+
+      expect(component.sorts()).toEqual([
+        { column: 'status', direction: 'asc' },
+        { column: 'name', direction: 'desc' }
+      ]);
+      expect(component.characters()[0].status).toBe('Alive');
+      expect(component.characters()[0].name).toBe('Character 25');
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { sort: 'status:asc,name:desc' }
+      }));
+      // El resultado completo ya estaba cargado: no se vuelve a pedir
+      expect(mockApiService.getAllCharacters).toHaveBeenCalledTimes(1);
+    });
+
+    it('debería seguir pintando las filas al reordenar un resultado completo', async () => {
+      mockActivatedRoute.snapshot.queryParams = { sort: 'name:asc' };
+      fixture.detectChanges();
+      await fixture.whenStable();
+      fixture.detectChanges();
+      expect(renderedNames()[0]).toBe('Character 01');
+
+      component.onSortChange({ active: 'name', direction: 'desc' });
+      fixture.detectChanges();
+      await fixture.whenStable();
+      fixture.detectChanges();
+
+      expect(mockApiService.getAllCharacters).toHaveBeenCalledTimes(1);
+      expect(renderedNames().length).toBeGreaterThan(0);
+      expect(renderedNames()[0]).toBe('Character 25');
+    });
+
+    it('debería ignorar valores de orden inválidos en la URL', () => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 0, pages: 0, next: null, prev: null },
+        results: []
+      }));
+      mockActivatedRoute.snapshot.queryParams = { sort: 'image:asc,name:sideways' };
+      fixture.detectChanges();
+
+      expect(component.sorts()).toEqual([]);
+      expect(mockApiService.getAllCharacters).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Compare Selection', () => {
+    const characters = Array.from({ length: 5 }, (_, i) => createCharacter(i + 1));
+
+    beforeEach(() => {
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 5, pages: 1, next: null, prev: null },
+        results: characters
+      }));
+      fixture.detectChanges();
+    });
+
+    it('debería permitir seleccionar hasta 4 personajes', () => {
+      characters.forEach(character => component.toggleSelection(character));
+
+      expect(component.selectedCharacters().map(character => character.id)).toEqual([1, 2, 3, 4]);
+      expect(component.isSelectionDisabled(5)).toBe(true);
+
+      component.toggleSelection(characters[0]);
+      expect(component.isSelectionDisabled(5)).toBe(false);
+    });
+
+    it('debería abrir la comparación con los IDs seleccionados', () => {
+      component.toggleSelection(characters[2]);
+      component.toggleSelection(characters[0]);
+      component.compareSelected();
+
+      expect(router.navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { ids: '3,1' } });
+    });
+  });
+
+  describe('Episode Timeline', () => {
+    const characters = [1, 2].map(id => createCharacter(id));
+
+    beforeEach(() => {
+      mockApiService.getAllEpisodes.and.returnValue(of([]));
+      mockApiService.getCharacters.and.returnValue(of({
+        info: { count: 2, pages: 1, next: null, prev: null },
+        results: characters
+      }));
+      fixture.detectChanges();
+    });
+
+    it('debería expandir la línea temporal de un solo personaje a la vez', async () => {
+      // Las filas se renderizan cuando el viewport virtual calcula el rango visible
+      await fixture.whenStable();
+      component.toggleExpanded(characters[0]);
+      component.toggleExpanded(characters[1]);
+      fixture.detectChanges();
+
+      expect(component.isExpanded(1)).toBe(false);
+      expect(component.isExpanded(2)).toBe(true);
+      expect(fixture.nativeElement.querySelectorAll('app-episode-timeline').length).toBe(1);
+
+      component.toggleExpanded(characters[1]);
+      expect(component.expandedCharacterId()).toBeNull();
+    });
+  });
+
+  describe('State Across Navigation', () => {
+    const pageResponse = (page: number, name = '') => ({
+      info: { count: 40, pages: 2, next: page < 2 ? 'page2' : null, prev: null },
+      results: Array.from({ length: 20 }, (_, i) => {
+        const id = (page - 1) * 20 + i + 1;
+        return createCharacter(id, { name: `${name || 'Character'} ${id}` });
+      })
+    });
+
+    beforeEach(() => {
+      mockApiService.getCharacters.and.callFake(filters => of(pageResponse(filters?.page ?? 1, filters?.name)));
+    });
+
+    it('debería recuperar las páginas cargadas y el scroll al volver al listado', () => {
+      const scroller = TestBed.inject(ViewportScroller);
+      spyOn(scroller, 'getScrollPosition').and.returnValue([0, 1200]);
+      spyOn(scroller, 'scrollToPosition');
+
+      fixture.detectChanges();
+      component.loadNextPage();
+      expect(component.characters().length).toBe(40);
+      fixture.destroy();
+
+      const returned = TestBed.createComponent(CharactersTableComponent);
+      returned.detectChanges();
+      TestBed.inject(ApplicationRef).tick();
+
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(2);
+      expect(returned.componentInstance.characters().length).toBe(40);
+      expect(returned.componentInstance.currentPage()).toBe(2);
+      expect(returned.componentInstance.hasMore()).toBe(false);
+      expect(scroller.scrollToPosition).toHaveBeenCalledWith([0, 1200]);
+    });
+
+    it('debería conservar las páginas de cada combinación de filtros', fakeAsync(() => {
+      fixture.detectChanges();
+
+      component.filtersForm.controls.name.setValue('Rick');
+      tick(300);
+      expect(component.characters()[0].name).toBe('Rick 1');
+
+      component.filtersForm.controls.name.setValue('');
+      tick(300);
+      expect(component.characters()[0].name).toBe('Character 1');
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(2);
+    }));
+
+    it('debería pintar las filas al volver a una combinación de filtros ya cargada', fakeAsync(() => {
+      // El viewport calcula el rango en el siguiente frame de animación
+      const render = () => {
+        fixture.detectChanges();
+        tick(16);
+        fixture.detectChanges();
+      };
+      render();
+      expect(renderedNames()[0]).toBe('Character 1');
+
+      component.filtersForm.controls.name.setValue('Rick');
+      tick(300);
+      render();
+      expect(renderedNames()[0]).toBe('Rick 1');
+
+      component.filtersForm.controls.name.setValue('');
+      tick(300);
+      render();
+      expect(mockApiService.getCharacters).toHaveBeenCalledTimes(2);
+      expect(renderedNames().length).toBeGreaterThan(0);
+      expect(renderedNames()[0]).toBe('Character 1');
+    }));
+
+    it('debería compartir los personajes cargados con otras vistas', () => {
+      fixture.detectChanges();
+      const store = TestBed.inject(CharactersStoreService);
+
+      expect(store.getCharacter(5)?.name).toBe('Character 5');
+      expect(store.getCharacter(30)).toBeUndefined();
+      expect(store.getCompleteResults({})).toBeNull();
+
+      component.loadNextPage();
+      expect(store.getCompleteResults({})?.length).toBe(40);
+    });
+  });
 });
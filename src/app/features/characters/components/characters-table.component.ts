@@ -1,8 +1,13 @@
-import { Component, OnInit, OnDestroy, AfterViewInit, inject, signal, ViewChild, ElementRef } from '@angular/core';
-import { CommonModule } from '@angular/common';
-import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
-import { Router, ActivatedRoute } from '@angular/router';
+import { Component, ElementRef, Injector, OnInit, OnDestroy, afterNextRender, afterRender, inject, signal, computed, viewChild } from '@angular/core';
+import { CommonModule, Location, ViewportScroller } from '@angular/common';
+import { toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { AbstractControl, FormControl, FormGroup, ReactiveFormsModule, ValidationErrors, Validators } from '@angular/forms';
+import { Router, ActivatedRoute, Params, RouterLink } from '@angular/router';
 import { BreakpointObserver, Breakpoints } from '@angular/cdk/layout';
+import { Clipboard } from '@angular/cdk/clipboard';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
+import { ListRange } from '@angular/cdk/collections';
+import { CdkVirtualScrollViewport, ScrollingModule } from '@angular/cdk/scrolling';
 import { MatTableModule, MatTableDataSource } from '@angular/material/table';
 import { MatPaginatorModule } from '@angular/material/paginator';
 import { MatSortModule, Sort, MatSort } from '@angular/material/sort';
@@ -14,12 +19,96 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatCardModule } from '@angular/material/card';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatDatepickerModule } from '@angular/material/datepicker';
-import { MatNativeDateModule } from '@angular/material/core';
-import { Subject, debounceTime, distinctUntilChanged, takeUntil } from 'rxjs';
+import { DateAdapter, ErrorStateMatcher, MatNativeDateModule } from '@angular/material/core';
+import { MatAutocompleteModule } from '@angular/material/autocomplete';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { EMPTY, Observable, Subject, Subscription, catchError, debounceTime, distinctUntilChanged, expand, filter, fromEvent, last, map, mergeMap, of, switchMap, takeUntil } from 'rxjs';
 
 import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
-import { Character, CharacterFilters, CharacterStatus, CharacterGender } from '../../../core/models/character.model';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { ExportSource } from '../../../core/services/character-export.service';
+import { CharacterColumnsService } from '../../../core/services/character-columns.service';
+import { SavedSearch, SavedSearchFilters, SavedSearchesService } from '../../../core/services/saved-searches.service';
+import { NetworkStatusService } from '../../../core/services/network-status.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { CharactersStoreService } from '../../../core/services/characters-store.service';
+import { CHARACTER_GENDERS, CHARACTER_STATUSES, Character, CharacterFilters, CharacterStatus, CharacterGender, CharacterSort, CharacterSortColumn, Info } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+import { ApiError, ApiErrorKind } from '../../../core/models/api-error.model';
+import { extractIdFromUrl } from '../../../core/utils/api-url.utils';
+import { fromDateParam, toDateParam } from '../../../core/utils/date-param.utils';
+import { hasClientCharacterFilters, isCharacterGender, isCharacterStatus, isEpisodeCount } from '../../../core/utils/character-filters.utils';
+import { CHARACTER_SORT_COLUMNS, applySortChange, parseSortParam, serializeSort, sortCharacters } from '../../../core/utils/character-sort.utils';
+import {
+  CharacterQueryClause,
+  CharacterQueryError,
+  CharacterQuerySuggestion,
+  createdUpperBound,
+  matchesCharacterQuery,
+  parseCharacterQuery,
+  splitCharacterQuery,
+  suggestCharacterQuery
+} from '../../../core/utils/character-query.utils';
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { LocalizedDatePipe, LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { GENDER_KEYS, STATUS_KEYS } from '../../../core/i18n/message-keys';
+import { ExportDialogComponent } from './export-dialog.component';
+import { ColumnChooserComponent } from './column-chooser.component';
+import { EpisodeTimelineComponent } from './episode-timeline.component';
+import { VirtualRowsDirective } from './virtual-rows.directive';
+import { KeyboardShortcutsDialogComponent } from './keyboard-shortcuts-dialog.component';
+import { SavedSearchNameDialogComponent, SavedSearchNameDialogData } from './saved-search-name-dialog.component';
+import { MAX_COMPARED_CHARACTERS } from './character-compare.component';
+
+// Caracteres mínimos para sugerir ubicaciones de origen o actuales
+const LOCATION_AUTOCOMPLETE_MIN_LENGTH = 2;
+
+// Alturas fijas (en px) de las filas virtualizadas: se aplican desde la plantilla
+const TABLE_HEADER_HEIGHT = 56;
+const TABLE_ROW_HEIGHT = 88;
+const TIMELINE_HEIGHT = 320;
+const CARD_ROW_HEIGHT = 356;
+
+// Filas restantes hasta el final a partir de las que se carga la siguiente página
+const LOAD_MORE_THRESHOLD = 5;
+
+// Renders en los que se intenta recuperar el scroll al volver al listado
+const SCROLL_RESTORE_ATTEMPTS = 10;
+
+// Valores del formulario de filtros (FormGroup.value los da todos opcionales)
+type CharacterFiltersFormValue = CharactersTableComponent['filtersForm']['value'];
+
+/**
+ * Valida la sintaxis de la búsqueda avanzada
+ */
+function characterQueryValidator(control: AbstractControl<string | null>): ValidationErrors | null {
+  const { error } = parseCharacterQuery(control.value ?? '');
+  return error ? { characterQuery: error } : null;
+}
+
+/**
+ * Indica si el evento viene de un campo en el que se está escribiendo
+ */
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Resultado de cargar una o varias páginas de la API hasta llenar una página de la tabla
+ */
+interface CharacterBatch {
+  results: Character[];
+  info: Info;
+  lastPage: number;
+  scanned: number;
+  exhausted: boolean;
+}
 
 @Component({
   selector: 'app-characters-table',
@@ -38,65 +127,206 @@ import { Character, CharacterFilters, CharacterStatus, CharacterGender } from '.
     MatCardModule,
     MatProgressSpinnerModule,
     MatChipsModule,
+    MatProgressBarModule,
     MatDatepickerModule,
-    MatNativeDateModule
+    MatNativeDateModule,
+    MatDialogModule,
+    MatMenuModule,
+    MatDividerModule,
+    MatSnackBarModule,
+    MatCheckboxModule,
+    MatAutocompleteModule,
+    ScrollingModule,
+    RouterLink,
+    TranslatePipe,
+    LocalizedDatePipe,
+    LocalizedNumberPipe,
+    ColumnChooserComponent,
+    EpisodeTimelineComponent,
+    VirtualRowsDirective
   ],
   templateUrl: './characters-table.component.html',
   styleUrls: ['./characters-table.component.scss']
 })
-export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewInit {
+export class CharactersTableComponent implements OnInit, OnDestroy {
   private readonly apiService = inject(RickMortyApiService);
+  private readonly favoritesService = inject(FavoritesService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly breakpointObserver = inject(BreakpointObserver);
+  private readonly dialog = inject(MatDialog);
+  private readonly columnsService = inject(CharacterColumnsService);
+  private readonly savedSearchesService = inject(SavedSearchesService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly clipboard = inject(Clipboard);
+  private readonly location = inject(Location);
+  private readonly network = inject(NetworkStatusService);
+  private readonly liveAnnouncer = inject(LiveAnnouncer);
+  private readonly i18n = inject(I18nService);
+  private readonly store = inject(CharactersStoreService);
+  private readonly viewportScroller = inject(ViewportScroller);
+  private readonly dateAdapter = inject<DateAdapter<Date>>(DateAdapter);
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly injector = inject(Injector);
   private readonly destroy$ = new Subject<void>();
+  private readonly localeId$ = toObservable(this.i18n.localeId);
+
+  private readonly viewport = viewChild(CdkVirtualScrollViewport);
+  private readonly queryInput = viewChild<ElementRef<HTMLInputElement>>('queryInput');
 
-  // ViewChild para detectar el scroll sentinel
-  @ViewChild('scrollSentinel') scrollSentinel?: ElementRef;
-  @ViewChild('scrollSentinelMobile') scrollSentinelMobile?: ElementRef;
+  // Estado del listado: vive en CharactersStoreService para sobrevivir a la navegación
+  characters = this.store.characters;
+  totalCount = this.store.totalCount;
+  totalCountIsEstimate = this.store.totalCountIsEstimate;
+  totalPages = this.store.totalPages;
+  currentPage = this.store.currentPage;
+  hasMore = this.store.hasMore;
 
   // Signals para estado reactivo
-  characters = signal<Character[]>([]);
   loading = signal<boolean>(false);
   loadingMore = signal<boolean>(false);
-  totalCount = signal<number>(0);
-  totalPages = signal<number>(0);
-  currentPage = signal<number>(1);
-  hasMore = signal<boolean>(true);
   isMobile = signal<boolean>(false);
-  favorites = signal<number[]>([]);
+  cardColumns = signal<number>(1);
+  loadError = signal<ApiErrorKind | null>(null);
+  sorts = signal<CharacterSort[]>([]);
+  sortProgress = signal<{ loaded: number; total: number } | null>(null);
+  primarySort = computed<CharacterSort | null>(() => this.sorts()[0] ?? null);
+  online = this.network.online;
+
+  // Resultados obtenidos sin conexión a partir de la caché (ver RickMortyApiService.getCharacters)
+  showingCachedResults = this.store.showingCachedResults;
+
+  // Estado de error a mostrar: sin conexión o fallo del servidor (reintentable)
+  errorState = computed<'offline' | 'error' | null>(() => {
+    const kind = this.loadError();
+    if (!kind) return null;
+    return kind === 'offline' || kind === 'network' ? 'offline' : 'error';
+  });
+
+  // Configuración de la tabla: las columnas de selección y de expansión no son configurables
+  displayedColumns = computed(() => ['select', ...this.columnsService.visibleColumns(), 'expand']);
+
+  // Personaje cuya línea temporal de episodios se muestra bajo su fila
+  expandedCharacterId = this.store.expandedCharacterId;
+  expandedIndex = computed<number | null>(() => {
+    const index = this.characters().findIndex(character => character.id === this.expandedCharacterId());
+    return index >= 0 ? index : null;
+  });
+
+  // Scroll virtual: solo se renderizan las filas (o filas de tarjetas) del rango visible
+  tableHeaderHeight = TABLE_HEADER_HEIGHT;
+  tableRowHeight = TABLE_ROW_HEIGHT;
+  timelineHeight = TIMELINE_HEIGHT;
+  cardRowHeight = CARD_ROW_HEIGHT;
+  // Solo lo fija el viewport, que no vuelve a emitir un rango igual: reiniciarlo al
+  // reemplazar la lista la dejaría vacía hasta el siguiente scroll
+  renderedRange = signal<ListRange>({ start: 0, end: 0 });
+  renderedCharacters = computed(() => this.characters().slice(this.renderedRange().start, this.renderedRange().end));
+  cardRows = computed(() => {
+    const columns = this.cardColumns();
+    const characters = this.characters();
+    return Array.from({ length: Math.ceil(characters.length / columns) }, (_, i) => characters.slice(i * columns, (i + 1) * columns));
+  });
+  renderedCardRows = computed(() => this.cardRows().slice(this.renderedRange().start, this.renderedRange().end));
 
-  // Configuración de la tabla
-  displayedColumns: string[] = ['favorite', 'image', 'name', 'status', 'species', 'gender', 'origin', 'location', 'created', 'episode'];
+  // Navegación con teclado (roving tabindex): solo la fila o tarjeta activa es tabulable.
+  // Si la activa no está renderizada, lo es la primera del rango visible.
+  activeCharacterId = signal<number | null>(null);
+  focusableCharacterId = computed<number | null>(() => {
+    const rendered = this.isMobile() ? this.renderedCardRows().flat() : this.renderedCharacters();
+    const active = this.activeCharacterId();
+    return rendered.some(character => character.id === active) ? active : rendered[0]?.id ?? null;
+  });
+  // Personaje a enfocar cuando el viewport lo renderice tras desplazarse
+  private pendingFocusId: number | null = null;
+
+  // Personajes seleccionados para comparar (se conservan al cambiar de filtros)
+  selectedCharacters = this.store.selectedCharacters;
+  maxCompared = MAX_COMPARED_CHARACTERS;
+
+  // Búsquedas guardadas
+  savedSearches = this.savedSearchesService.searches;
   pageSize = 20; // La API de Rick & Morty devuelve 20 resultados por página
 
   // Formulario de filtros
   filtersForm = new FormGroup({
+    query: new FormControl<string>('', { validators: characterQueryValidator }),
     name: new FormControl<string>(''),
     status: new FormControl<CharacterStatus | ''>(''),
     species: new FormControl<string>(''),
+    type: new FormControl<string>(''),
     gender: new FormControl<CharacterGender | ''>(''),
+    origin: new FormControl<string>(''),
+    location: new FormControl<string>(''),
+    minEpisodes: new FormControl<number | null>(null, { validators: [Validators.min(0), Validators.pattern(/^\d+$/)] }),
+    maxEpisodes: new FormControl<number | null>(null, { validators: [Validators.min(0), Validators.pattern(/^\d+$/)] }),
     createdStartDate: new FormControl<Date | null>(null),
     createdEndDate: new FormControl<Date | null>(null)
   });
 
+  // Los errores de sintaxis se muestran mientras se escribe, sin esperar a salir del campo
+  queryErrorMatcher: ErrorStateMatcher = {
+    isErrorState: control => !!control?.invalid && !!control.value
+  };
+
+  // Sugerencias para el término que se está escribiendo en la búsqueda avanzada
+  private readonly queryText = toSignal(this.filtersForm.controls.query.valueChanges, { initialValue: '' });
+  querySuggestions = computed<CharacterQuerySuggestion[]>(() => {
+    const characters = this.characters();
+    const distinct = (values: string[]) => Array.from(new Set(values.filter(value => value && value !== 'unknown'))).sort();
+    return suggestCharacterQuery(this.queryText() ?? '', {
+      name: distinct(characters.map(character => character.name)),
+      species: distinct(characters.map(character => character.species)),
+      type: distinct(characters.map(character => character.type)),
+      origin: distinct(characters.map(character => character.origin.name)),
+      location: distinct(characters.map(character => character.location.name))
+    });
+  });
+
+  // Nombres de ubicaciones de la API que coinciden con lo escrito en origen y ubicación
+  originOptions = toSignal(this.locationNames(this.filtersForm.controls.origin), { initialValue: [] });
+  locationOptions = toSignal(this.locationNames(this.filtersForm.controls.location), { initialValue: [] });
+
+  // Columnas ordenables y sus etiquetas
+  sortColumns = CHARACTER_SORT_COLUMNS;
+  sortLabels: Record<CharacterSortColumn, MessageKey> = {
+    name: 'columns.name',
+    status: 'columns.status',
+    species: 'columns.species',
+    gender: 'columns.gender',
+    origin: 'columns.origin',
+    location: 'columns.location',
+    created: 'columns.created',
+    episode: 'columns.episode'
+  };
+
   // Opciones para los selects
-  statusOptions: (CharacterStatus | '')[] = ['', 'Alive', 'Dead', 'unknown'];
-  genderOptions: (CharacterGender | '')[] = ['', 'Female', 'Male', 'Genderless', 'unknown'];
+  statusOptions = CHARACTER_STATUSES;
+  genderOptions = CHARACTER_GENDERS;
 
-  // IntersectionObserver para infinite scroll
-  private intersectionObserver?: IntersectionObserver;
   private isLoadingPage = false;
+  private pageRequest?: Subscription;
+
+  // Episodios de primera y última aparición, resueltos solo si sus columnas están visibles
+  appearanceEpisodes = signal<Partial<Record<number, Episode>>>({});
+  private readonly requestedEpisodeIds = new Set<number>();
+  private readonly appearanceEpisodeIds$ = toObservable(computed(() => {
+    const columns = this.displayedColumns();
+    const ids = this.characters().flatMap(character => [
+      columns.includes('firstAppearance') ? this.appearanceId(character, 'first') : null,
+      columns.includes('lastAppearance') ? this.appearanceId(character, 'last') : null
+    ]);
+    return Array.from(new Set(ids.filter((id): id is number => id !== null)));
+  }));
 
   ngOnInit(): void {
-    this.loadFavorites();
     this.loadInitialData();
     this.setupFiltersObserver();
     this.setupBreakpointObserver();
-  }
-
-  ngAfterViewInit(): void {
-    this.setupIntersectionObserver();
+    this.setupOnlineObserver();
+    this.setupAppearanceEpisodes();
+    this.setupKeyboardShortcuts();
+    this.setupDateLocale();
   }
 
   /**
@@ -107,48 +337,224 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
       .observe([Breakpoints.Handset, Breakpoints.Tablet])
       .pipe(takeUntil(this.destroy$))
       .subscribe(result => {
-        const wasMobile = this.isMobile();
         this.isMobile.set(result.matches);
+        // Dos columnas de tarjetas en tablets y una en móviles
+        const tablet = Breakpoints.Tablet.split(', ').some(query => result.breakpoints[query]);
+        this.cardColumns.set(tablet ? 2 : 1);
+      });
+  }
 
-        // Reconfigurar observer si cambió el tipo de dispositivo
-        if (wasMobile !== result.matches) {
-          this.intersectionObserver?.disconnect();
-          setTimeout(() => this.setupIntersectionObserver(), 100);
+  /**
+   * Al recuperar la conexión reintenta la carga fallida o recarga los resultados
+   * que se obtuvieron de la caché
+   */
+  private setupOnlineObserver(): void {
+    fromEvent(window, 'online')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (this.errorState() === 'offline') {
+          this.retryLoad();
+        } else if (this.showingCachedResults()) {
+          this.store.patch({ sortedResults: null });
+          this.loadCharacters(1);
         }
       });
   }
 
-  ngOnDestroy(): void {
-    this.destroy$.next();
-    this.destroy$.complete();
-    this.intersectionObserver?.disconnect();
+  /**
+   * Formato de fecha de los selectores de fecha según el idioma de la interfaz
+   */
+  private setupDateLocale(): void {
+    this.localeId$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(localeId => this.dateAdapter.setLocale(localeId));
   }
 
   /**
-   * Configura el IntersectionObserver para infinite scroll
+   * Atajos globales del listado: "/" enfoca la búsqueda, "?" muestra la ayuda y Esc
+   * limpia los filtros. Se ignoran con un diálogo abierto o si otro componente ya ha
+   * gestionado la tecla (Esc en un autocompletado o un select abierto).
    */
-  private setupIntersectionObserver(): void {
-    const options = {
-      root: null,
-      rootMargin: '100px',
-      threshold: 0.1
-    };
+  private setupKeyboardShortcuts(): void {
+    fromEvent<KeyboardEvent>(document, 'keydown')
+      .pipe(
+        filter(event => !event.defaultPrevented && !event.ctrlKey && !event.metaKey && !event.altKey),
+        filter(() => this.dialog.openDialogs.length === 0),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(event => {
+        const typing = isTextInput(event.target);
+        if (event.key === '/' && !typing) {
+          this.queryInput()?.nativeElement.focus();
+        } else if (event.key === '?' && !typing) {
+          this.openShortcutsHelp();
+        } else if (event.key === 'Escape' && this.hasActiveFilters()) {
+          this.clearFilters();
+          this.liveAnnouncer.announce(this.i18n.t('characters.announce.filtersCleared'));
+        } else {
+          return;
+        }
+        event.preventDefault();
+      });
+  }
+
+  openShortcutsHelp(): void {
+    this.dialog.open(KeyboardShortcutsDialogComponent, { width: '480px' });
+  }
+
+  /**
+   * Teclas sobre la fila o tarjeta enfocada: flechas, Inicio y Fin para moverse, Enter
+   * para abrir el detalle, "f" para favorito, espacio para comparar y "e" para la línea temporal
+   */
+  onCharacterKeydown(event: KeyboardEvent, character: Character): void {
+    // Las teclas de los botones y casillas de la fila las gestionan ellos
+    if (event.target !== event.currentTarget || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const index = this.characters().findIndex(c => c.id === character.id);
+    const columns = this.isMobile() ? this.cardColumns() : 1;
 
-    this.intersectionObserver = new IntersectionObserver((entries) => {
-      entries.forEach(entry => {
-        if (entry.isIntersecting && this.hasMore() && !this.isLoadingPage) {
-          this.loadNextPage();
+    switch (event.key) {
+      case 'ArrowDown':
+        this.focusCharacterAt(index + columns);
+        break;
+      case 'ArrowUp':
+        this.focusCharacterAt(index - columns);
+        break;
+      case 'ArrowRight':
+      case 'ArrowLeft':
+        // En la tabla las flechas laterales desplazan las columnas
+        if (!this.isMobile()) return;
+        this.focusCharacterAt(index + (event.key === 'ArrowRight' ? 1 : -1));
+        break;
+      case 'Home':
+        this.focusCharacterAt(0);
+        break;
+      case 'End':
+        this.focusCharacterAt(this.characters().length - 1);
+        break;
+      case 'Enter':
+        this.openDetails(character);
+        break;
+      case 'f':
+        this.toggleFavorite(character.id);
+        this.liveAnnouncer.announce(this.i18n.t(
+          this.isFavorite(character.id) ? 'characters.announce.favoriteAdded' : 'characters.announce.favoriteRemoved',
+          { name: character.name }
+        ));
+        break;
+      case ' ':
+        if (!this.isSelectionDisabled(character.id)) {
+          this.toggleSelection(character);
+          this.liveAnnouncer.announce(this.i18n.t(
+            this.isSelected(character.id) ? 'characters.announce.selected' : 'characters.announce.deselected',
+            { name: character.name }
+          ));
         }
+        break;
+      case 'e':
+        if (this.isMobile()) return;
+        this.toggleExpanded(character);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  /**
+   * Activa y enfoca el personaje de una posición. Si está fuera del rango renderizado
+   * se desplaza el viewport y se enfoca al renderizarse.
+   */
+  private focusCharacterAt(index: number): void {
+    const characters = this.characters();
+    const character = characters[Math.max(0, Math.min(index, characters.length - 1))];
+    if (!character) return;
+
+    this.activeCharacterId.set(character.id);
+    if (!this.focusRenderedCharacter(character.id)) {
+      this.pendingFocusId = character.id;
+      const position = characters.indexOf(character);
+      this.viewport()?.scrollToIndex(this.isMobile() ? Math.floor(position / this.cardColumns()) : position);
+    }
+  }
+
+  private focusRenderedCharacter(characterId: number): boolean {
+    const element = this.host.nativeElement.querySelector<HTMLElement>(`[data-character-id="${characterId}"]`);
+    element?.focus();
+    return !!element;
+  }
+
+  /**
+   * Anuncia a los lectores de pantalla el número de resultados
+   */
+  private announceResults(): void {
+    const count = this.totalCount();
+    this.liveAnnouncer.announce(count === 0
+      ? this.i18n.t('common.noCharactersFound')
+      : this.i18n.t(this.totalCountIsEstimate() ? 'characters.announce.foundEstimate' : 'characters.announce.found', { count }));
+  }
+
+  /**
+   * Carga (en una sola petición por cambio) los episodios de aparición que aún no se conocen
+   */
+  private setupAppearanceEpisodes(): void {
+    this.appearanceEpisodeIds$.pipe(
+      map(ids => ids.filter(id => !this.requestedEpisodeIds.has(id))),
+      filter(ids => ids.length > 0),
+      mergeMap(ids => {
+        ids.forEach(id => this.requestedEpisodeIds.add(id));
+        return this.apiService.getMultipleEpisodes(ids).pipe(
+          catchError(error => {
+            // Permitir reintentarlo en la próxima carga
+            console.error('Error loading appearance episodes:', error);
+            ids.forEach(id => this.requestedEpisodeIds.delete(id));
+            return EMPTY;
+          })
+        );
+      }),
+      takeUntil(this.destroy$)
+    ).subscribe(episodes => {
+      this.appearanceEpisodes.update(current => {
+        const next = { ...current };
+        episodes.forEach(episode => next[episode.id] = episode);
+        return next;
       });
-    }, options);
+    });
+  }
 
-    // Observar el sentinel apropiado según el dispositivo
-    setTimeout(() => {
-      const sentinel = this.isMobile() ? this.scrollSentinelMobile : this.scrollSentinel;
-      if (sentinel?.nativeElement) {
-        this.intersectionObserver?.observe(sentinel.nativeElement);
-      }
-    }, 100);
+  /**
+   * ID del primer o último episodio en el que aparece el personaje
+   */
+  appearanceId(character: Character, which: 'first' | 'last'): number | null {
+    return extractIdFromUrl(which === 'first' ? character.episode[0] : character.episode[character.episode.length - 1]);
+  }
+
+  ngOnDestroy(): void {
+    // Posición a recuperar al volver al listado
+    this.store.patch({ scrollY: this.viewportScroller.getScrollPosition()[1] });
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Rango de filas que hay que renderizar, emitido por el viewport virtual al hacer scroll
+   * o al cambiar el número de filas. Si llega cerca del final se carga la siguiente página,
+   * también cuando las filas cargadas no llenan la pantalla.
+   */
+  onRenderedRangeChange(range: ListRange): void {
+    this.renderedRange.set(range);
+    if (this.pendingFocusId !== null) {
+      const characterId = this.pendingFocusId;
+      afterNextRender(() => {
+        if (this.pendingFocusId === characterId && this.focusRenderedCharacter(characterId)) {
+          this.pendingFocusId = null;
+        }
+      }, { injector: this.injector });
+    }
+    const rows = this.isMobile() ? this.cardRows().length : this.characters().length;
+    if (range.end >= rows - LOAD_MORE_THRESHOLD) {
+      this.loadNextPage();
+    }
   }
 
   /**
@@ -158,44 +564,107 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
     const params = this.route.snapshot.queryParams;
 
     // Parsear los valores de los query params
-    const filters: any = {
+    const filters: CharacterFiltersFormValue = {
+      query: params['query'] || '',
       name: params['name'] || '',
-      status: params['status'] || '',
+      status: isCharacterStatus(params['status']) ? params['status'] : '',
       species: params['species'] || '',
-      gender: params['gender'] || '',
-      createdStartDate: params['createdStartDate'] ? new Date(params['createdStartDate']) : null,
-      createdEndDate: params['createdEndDate'] ? new Date(params['createdEndDate']) : null
+      type: params['type'] || '',
+      gender: isCharacterGender(params['gender']) ? params['gender'] : '',
+      origin: params['origin'] || '',
+      location: params['location'] || '',
+      minEpisodes: this.episodeCountParam(params['minEpisodes']),
+      maxEpisodes: this.episodeCountParam(params['maxEpisodes']),
+      createdStartDate: fromDateParam(params['createdStartDate']),
+      createdEndDate: fromDateParam(params['createdEndDate'])
     };
 
     // Establecer los valores en el formulario
     this.filtersForm.patchValue(filters, { emitEvent: false });
-    // Cargar la primera página
-    this.loadCharacters(1);
+    this.sorts.set(parseSortParam(params['sort']));
+
+    // Al volver al listado se recuperan las páginas ya cargadas y el scroll
+    if (this.activateList()) {
+      this.restoreScrollPosition(this.store.state().scrollY);
+      this.announceResults();
+    } else {
+      this.loadCharacters(1);
+    }
   }
 
   /**
-   * Actualiza los query params de la URL con los filtros actuales
+   * Activa en el store la lista de los filtros y el orden actuales, cancelando la
+   * carga en curso. Devuelve true si ya tenía personajes cargados.
    */
-  private updateUrlParams(filters: any): void {
-    const queryParams: any = {};
+  private activateList(): boolean {
+    this.pageRequest?.unsubscribe();
+    this.isLoadingPage = false;
+    this.loading.set(false);
+    this.loadingMore.set(false);
+    this.loadError.set(null);
+
+    const key = JSON.stringify({ ...this.toFilterParams(this.filtersForm.value), sort: serializeSort(this.sorts()) });
+    return this.store.activate(key, {
+      apiFilters: this.getCharacterFilters(),
+      clientFiltered: this.hasClientFilters()
+    });
+  }
 
-    // Solo agregar parámetros no vacíos
-    if (filters.name) queryParams['name'] = filters.name;
-    if (filters.status) queryParams['status'] = filters.status;
-    if (filters.species) queryParams['species'] = filters.species;
-    if (filters.gender) queryParams['gender'] = filters.gender;
+  /**
+   * Recupera el scroll de la ventana. El viewport virtual fija la altura de su
+   * contenido después de pintar las filas, así que se reintenta en los siguientes renders.
+   */
+  private restoreScrollPosition(scrollY: number): void {
+    if (scrollY <= 0) return;
+
+    let attempts = 0;
+    const ref = afterRender(() => {
+      this.viewportScroller.scrollToPosition([0, scrollY]);
+      if (Math.abs(this.viewportScroller.getScrollPosition()[1] - scrollY) < 1 || ++attempts >= SCROLL_RESTORE_ATTEMPTS) {
+        ref.destroy();
+      }
+    }, { injector: this.injector });
+  }
+
+  /**
+   * Convierte los valores del formulario en query params, omitiendo los vacíos
+   */
+  private toFilterParams(filters: CharacterFiltersFormValue): SavedSearchFilters {
+    const params: SavedSearchFilters = {};
+
+    if (filters.query?.trim()) params.query = filters.query.trim();
+    if (filters.name) params.name = filters.name;
+    if (filters.status) params.status = filters.status;
+    if (filters.species) params.species = filters.species;
+    if (filters.type) params.type = filters.type;
+    if (filters.gender) params.gender = filters.gender;
+    if (filters.origin) params.origin = filters.origin;
+    if (filters.location) params.location = filters.location;
+    if (isEpisodeCount(filters.minEpisodes)) params.minEpisodes = filters.minEpisodes;
+    if (isEpisodeCount(filters.maxEpisodes)) params.maxEpisodes = filters.maxEpisodes;
     if (filters.createdStartDate) {
-      queryParams['createdStartDate'] = new Date(filters.createdStartDate).toISOString().split('T')[0];
+      params.createdStartDate = toDateParam(new Date(filters.createdStartDate));
     }
     if (filters.createdEndDate) {
-      queryParams['createdEndDate'] = new Date(filters.createdEndDate).toISOString().split('T')[0];
+      params.createdEndDate = toDateParam(new Date(filters.createdEndDate));
     }
+    return params;
+  }
 
-    // Actualizar la URL sin recargar la página
+  /**
+   * Actualiza los query params de la URL con los filtros y el orden actuales
+   */
+  private updateUrlParams(filters: CharacterFiltersFormValue): void {
+    const queryParams: Params = { ...this.toFilterParams(filters) };
+
+    if (this.sorts().length > 0) {
+      queryParams['sort'] = serializeSort(this.sorts());
+    }
+
+    // Actualizar la URL sin recargar la página (se reemplazan los params para quitar los vacíos)
     this.router.navigate([], {
       relativeTo: this.route,
       queryParams: queryParams,
-      queryParamsHandling: 'merge',
       replaceUrl: true
     });
   }
@@ -208,78 +677,306 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
     this.filtersForm.valueChanges
       .pipe(
         debounceTime(300),
+        // Unos filtros no válidos (búsqueda con errores, episodios negativos) no cambian los resultados
+        filter(() => this.filtersForm.valid),
         distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr)),
         takeUntil(this.destroy$)
       )
       .subscribe(() => {
-        // Resetear a la primera página cuando cambian los filtros
-        this.currentPage.set(1);
-        this.characters.set([]);
-        this.hasMore.set(true);
         this.updateUrlParams(this.filtersForm.value);
-        this.loadCharacters(1);
+        // Los filtros ya visitados recuperan sus páginas; los nuevos empiezan por la primera
+        if (this.activateList()) {
+          this.announceResults();
+        } else {
+          this.loadCharacters(1);
+        }
       });
   }
 
   /**
-   * Carga personajes de una página específica
+   * Carga personajes a partir de una página específica de la API
    */
   private loadCharacters(page: number, append: boolean = false): void {
+    // Un cambio de filtros cancela la carga en curso
+    if (page === 1) {
+      this.pageRequest?.unsubscribe();
+      this.isLoadingPage = false;
+    }
     if (this.isLoadingPage) return;
 
+    const offline = !this.online();
+    this.store.patch({ showingCachedResults: page === 1 ? offline : this.showingCachedResults() || offline });
+
+    // Con un orden activo se necesita el resultado completo
+    if (this.sorts().length > 0) {
+      if (page === 1 || !this.store.state().sortedResults) {
+        this.loadSortedResults();
+      } else {
+        this.showNextSortedPage();
+      }
+      return;
+    }
+
     this.isLoadingPage = true;
+    this.loadError.set(null);
 
     if (page === 1) {
       this.loading.set(true);
+      this.pendingFocusId = null;
     } else {
       this.loadingMore.set(true);
+      this.liveAnnouncer.announce(this.i18n.t('characters.announce.loadingMore'));
     }
 
-    const filters = this.filtersForm.value;
-    const apiFilters: CharacterFilters = {
-      name: filters.name || undefined,
-      status: filters.status || undefined,
-      species: filters.species || undefined,
-      gender: filters.gender || undefined,
-      page: page
-    };
-
-    this.apiService.getCharacters(apiFilters)
+    this.pageRequest = this.fetchBatch(this.getCharacterFilters(), page)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (response) => {
-          // Aplicar filtro de fecha client-side
-          const filteredCharacters = this.filterByDateRange(response.results);
-
+        next: (batch) => {
           // Acumular o reemplazar personajes
+          this.store.patch({
+            characters: append ? [...this.characters(), ...batch.results] : batch.results,
+            scannedCount: (append ? this.store.state().scannedCount : 0) + batch.scanned,
+            totalPages: batch.info.pages,
+            currentPage: batch.lastPage,
+            hasMore: !batch.exhausted
+          });
+          this.updateTotalCount(batch.info.count);
+
+          this.loading.set(false);
+          this.loadingMore.set(false);
+          this.isLoadingPage = false;
+
           if (append) {
-            this.characters.set([...this.characters(), ...filteredCharacters]);
+            this.liveAnnouncer.announce(this.i18n.t('characters.announce.loaded', { count: this.characters().length }));
           } else {
-            this.characters.set(filteredCharacters);
+            this.announceResults();
           }
+        },
+        error: (error) => this.handleLoadError(error, append)
+      });
+  }
 
-          this.totalCount.set(response.info.count);
-          this.totalPages.set(response.info.pages);
-          this.currentPage.set(page);
-          this.hasMore.set(page < response.info.pages);
+  /**
+   * Carga todas las páginas que coinciden con los filtros y las ordena.
+   * Ordenar solo las páginas cargadas daría un orden incorrecto.
+   */
+  private loadSortedResults(): void {
+    this.pageRequest?.unsubscribe();
+    this.isLoadingPage = true;
+    this.loadError.set(null);
+    this.loading.set(true);
+
+    this.pageRequest = this.apiService.getAllCharacters(this.getCharacterFilters())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (progress) => {
+          this.sortProgress.set({ loaded: progress.loadedPages, total: progress.totalPages });
+          if (!progress.complete) return;
+
+          const sortedResults = sortCharacters(this.applyClientFilters(progress.characters), this.sorts());
+          this.sortProgress.set(null);
+          this.store.patch({
+            sortedResults,
+            totalPages: progress.totalPages,
+            currentPage: progress.totalPages,
+            totalCount: sortedResults.length,
+            totalCountIsEstimate: false,
+            characters: []
+          });
+          this.showNextSortedPage();
 
           this.loading.set(false);
-          this.loadingMore.set(false);
           this.isLoadingPage = false;
+          this.announceResults();
         },
         error: (error) => {
-          console.error('Error loading characters:', error);
-          if (!append) {
-            this.characters.set([]);
-          }
-          this.loading.set(false);
-          this.loadingMore.set(false);
-          this.isLoadingPage = false;
-          this.hasMore.set(false);
+          this.sortProgress.set(null);
+          this.handleLoadError(error, false);
         }
       });
   }
 
+  /**
+   * Muestra la siguiente página del resultado ordenado (sin peticiones a la API)
+   */
+  private showNextSortedPage(): void {
+    const sorted = this.store.state().sortedResults ?? [];
+    const loaded = this.characters().length;
+    const characters = [...this.characters(), ...sorted.slice(loaded, loaded + this.pageSize)];
+
+    this.store.patch({ characters, hasMore: characters.length < sorted.length });
+  }
+
+  /**
+   * Gestiona un error de carga conservando los personajes ya cargados si se estaba paginando
+   */
+  private handleLoadError(error: unknown, append: boolean): void {
+    console.error('Error loading characters:', error);
+    this.loadError.set(ApiError.from(error).kind);
+    this.liveAnnouncer.announce(this.i18n.t(
+      this.errorState() === 'offline' ? 'characters.announce.offline' : 'characters.announce.error'
+    ), 'assertive');
+    this.store.patch(append ? { hasMore: false } : { characters: [], hasMore: false });
+    this.loading.set(false);
+    this.loadingMore.set(false);
+    this.isLoadingPage = false;
+  }
+
+  /**
+   * Filtros para RickMortyApiService: los del formulario más los términos de la
+   * búsqueda avanzada que se pueden delegar (ver splitCharacterQuery)
+   */
+  private getCharacterFilters(): CharacterFilters {
+    return this.splitQuery().apiFilters;
+  }
+
+  /**
+   * Reparte la búsqueda avanzada entre la API y el cliente
+   */
+  private splitQuery(): { apiFilters: CharacterFilters; clientClauses: CharacterQueryClause[] } {
+    const filters = this.filtersForm.value;
+    const { clauses } = parseCharacterQuery(filters.query ?? '');
+    return splitCharacterQuery(clauses, {
+      name: filters.name || undefined,
+      status: filters.status || undefined,
+      species: filters.species || undefined,
+      type: filters.type || undefined,
+      gender: filters.gender || undefined,
+      origin: filters.origin || undefined,
+      location: filters.location || undefined,
+      minEpisodes: this.episodeCountParam(filters.minEpisodes) ?? undefined,
+      maxEpisodes: this.episodeCountParam(filters.maxEpisodes) ?? undefined
+    });
+  }
+
+  /**
+   * Número de episodios de la URL o del formulario, o null si no es válido
+   */
+  private episodeCountParam(value: unknown): number | null {
+    const count = value === null || value === undefined || value === '' ? NaN : Number(value);
+    return isEpisodeCount(count) ? count : null;
+  }
+
+  /**
+   * Sugerencias de ubicaciones de la API para el texto de un campo
+   */
+  private locationNames(control: FormControl<string | null>): Observable<string[]> {
+    return control.valueChanges.pipe(
+      debounceTime(300),
+      map(value => value?.trim() ?? ''),
+      distinctUntilChanged(),
+      switchMap(name => name.length < LOCATION_AUTOCOMPLETE_MIN_LENGTH
+        ? of([])
+        : this.apiService.getLocations({ name }).pipe(
+            map(response => response.results.map(location => location.name)),
+            catchError(() => of([]))
+          )
+      )
+    );
+  }
+
+  /**
+   * Aplica un cambio de orden desde las cabeceras de la tabla o el selector móvil.
+   * La columna elegida pasa a ser el criterio principal y la anterior el secundario.
+   */
+  onSortChange(sort: Sort): void {
+    this.sorts.set(applySortChange(this.sorts(), sort.active as CharacterSortColumn, sort.direction));
+    this.applySorts();
+  }
+
+  /**
+   * Cambia la dirección del criterio principal (selector de orden en móvil)
+   */
+  toggleSortDirection(): void {
+    const primary = this.primarySort();
+    if (primary) {
+      this.onSortChange({ active: primary.column, direction: primary.direction === 'asc' ? 'desc' : 'asc' });
+    }
+  }
+
+  /**
+   * Quita todos los criterios de orden
+   */
+  clearSort(): void {
+    this.sorts.set([]);
+    this.applySorts();
+  }
+
+  /**
+   * Guarda el orden en la URL y reordena (o recarga) los resultados
+   */
+  private applySorts(): void {
+    const previous = this.store.state();
+    this.updateUrlParams(this.filtersForm.value);
+
+    if (this.activateList()) {
+      // Este orden ya se había cargado con estos filtros
+      this.announceResults();
+    } else if (this.sorts().length > 0 && previous.sortedResults) {
+      // Ya tenemos el resultado completo: basta con reordenarlo
+      this.store.patch({
+        ...previous,
+        sortedResults: sortCharacters(previous.sortedResults, this.sorts()),
+        characters: [],
+        scrollY: 0
+      });
+      this.showNextSortedPage();
+    } else {
+      this.loadCharacters(1);
+    }
+  }
+
+  /**
+   * Carga una página de la API y, si hay filtros en cliente, sigue pidiendo
+   * páginas hasta reunir `pageSize` coincidencias o saber que no quedan más
+   */
+  private fetchBatch(apiFilters: CharacterFilters, page: number): Observable<CharacterBatch> {
+    const fillPage = this.hasClientFilters();
+
+    const fetchPage = (pageToFetch: number, previous?: CharacterBatch): Observable<CharacterBatch> =>
+      this.apiService.getCharacters({ ...apiFilters, page: pageToFetch }).pipe(
+        map(response => ({
+          results: [...(previous?.results ?? []), ...this.applyClientFilters(response.results)],
+          info: response.info,
+          lastPage: pageToFetch,
+          scanned: (previous?.scanned ?? 0) + this.apiPageLength(response.info, pageToFetch),
+          exhausted: pageToFetch >= response.info.pages || this.isPastDateRange(response.results)
+        }))
+      );
+
+    return fetchPage(page).pipe(
+      expand(batch => fillPage && !batch.exhausted && batch.results.length < this.pageSize
+        ? fetchPage(batch.lastPage + 1, batch)
+        : EMPTY
+      ),
+      last()
+    );
+  }
+
+  /**
+   * Personajes que devolvió la API en una página, antes de los filtros en cliente
+   */
+  private apiPageLength(info: Info, page: number): number {
+    return Math.max(0, Math.min(this.pageSize, info.count - (page - 1) * this.pageSize));
+  }
+
+  /**
+   * Actualiza el total de resultados. Con filtros en cliente el total solo es exacto
+   * cuando se han revisado todas las páginas; mientras tanto se estima por proporción.
+   */
+  private updateTotalCount(apiCount: number): void {
+    const matched = this.characters().length;
+
+    if (!this.hasClientFilters() || !this.hasMore()) {
+      this.store.patch({ totalCount: this.hasClientFilters() ? matched : apiCount, totalCountIsEstimate: false });
+      return;
+    }
+
+    const { scannedCount } = this.store.state();
+    const estimate = scannedCount > 0 ? Math.round(matched / scannedCount * apiCount) : apiCount;
+    this.store.patch({ totalCount: Math.max(matched, estimate), totalCountIsEstimate: true });
+  }
+
   /**
    * Carga la siguiente página de personajes (para infinite scroll)
    */
@@ -289,23 +986,51 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
     this.loadCharacters(nextPage, true);
   }
 
+  /**
+   * Reintenta la última carga fallida: la primera página si no hay datos,
+   * o la siguiente página si falló el infinite scroll
+   */
+  retryLoad(): void {
+    if (this.characters().length === 0) {
+      this.loadCharacters(1);
+    } else {
+      this.store.patch({ hasMore: true });
+      this.loadCharacters(this.currentPage() + 1, true);
+    }
+  }
+
+  /**
+   * Descarta los personajes cacheados (también los del store) y recarga desde la primera página
+   */
+  refresh(): void {
+    this.apiService.clearCache('character');
+    this.store.clear();
+    this.loadCharacters(1);
+  }
+
   /**
    * Limpia todos los filtros
    */
   clearFilters(): void {
     this.filtersForm.reset({
+      query: '',
       name: '',
       status: '',
       species: '',
+      type: '',
       gender: '',
+      origin: '',
+      location: '',
+      minEpisodes: null,
+      maxEpisodes: null,
       createdStartDate: null,
       createdEndDate: null
     });
 
-    // Limpiar los query params de la URL
+    // Limpiar los query params de la URL (el orden se conserva)
     this.router.navigate([], {
       relativeTo: this.route,
-      queryParams: {},
+      queryParams: this.sorts().length > 0 ? { sort: serializeSort(this.sorts()) } : {},
       replaceUrl: true
     });
   }
@@ -317,6 +1042,29 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
     return `status-${status.toLowerCase()}`;
   }
 
+  /**
+   * Clave de traducción del estado (las celdas de la tabla no tienen tipo)
+   */
+  statusKey(status: CharacterStatus): MessageKey {
+    return STATUS_KEYS[status];
+  }
+
+  /**
+   * Clave de traducción del género
+   */
+  genderKey(gender: CharacterGender): MessageKey {
+    return GENDER_KEYS[gender];
+  }
+
+  /**
+   * Aplica los filtros que la API no admite: el rango de fechas y los términos
+   * restantes de la búsqueda avanzada
+   */
+  private applyClientFilters(characters: Character[]): Character[] {
+    const { clientClauses } = this.splitQuery();
+    return this.filterByDateRange(characters).filter(character => matchesCharacterQuery(character, clientClauses));
+  }
+
   /**
    * Filtra los personajes por rango de fechas (client-side)
    */
@@ -349,99 +1097,195 @@ export class CharactersTableComponent implements OnInit, OnDestroy, AfterViewIni
   }
 
   /**
-   * Verifica si hay filtros activos
+   * Indica si ya no puede haber más coincidencias después de estos personajes.
+   * La API devuelve los personajes ordenados por ID y `created` crece con el ID,
+   * así que si el último de la página es posterior a la fecha final, no quedan más.
    */
-  hasActiveFilters(): boolean {
+  private isPastDateRange(characters: Character[]): boolean {
+    const endDate = this.filtersForm.get('createdEndDate')?.value;
+    const queryEnd = createdUpperBound(this.splitQuery().clientClauses);
+    const lastCharacter = characters[characters.length - 1];
+
+    if ((!endDate && !queryEnd) || !lastCharacter) {
+      return false;
+    }
+
+    const ends: Date[] = queryEnd ? [queryEnd] : [];
+    if (endDate) {
+      const normalizedEnd = new Date(endDate);
+      normalizedEnd.setHours(23, 59, 59, 999);
+      ends.push(normalizedEnd);
+    }
+    return ends.some(end => new Date(lastCharacter.created) > end);
+  }
+
+  /**
+   * Verifica si hay filtros que se aplican en el cliente (fechas o búsqueda avanzada)
+   */
+  private hasClientFilters(): boolean {
     const values = this.filtersForm.value;
-    return !!(values.name || values.status || values.species || values.gender || values.createdStartDate || values.createdEndDate);
+    return !!(values.createdStartDate || values.createdEndDate)
+      || hasClientCharacterFilters(this.getCharacterFilters())
+      || this.splitQuery().clientClauses.length > 0;
   }
 
   /**
-   * Carga los favoritos desde localStorage
+   * Error de sintaxis de la búsqueda avanzada, si lo hay
    */
-  private loadFavorites(): void {
-    const stored = localStorage.getItem('rickmorty_favorites');
-    console.log('Favoritos localStorage:', stored);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        this.favorites.set(Array.isArray(parsed) ? parsed : []);
-      } catch (error) {
-        this.favorites.set([]);
-      }
-    }
+  queryError(): (CharacterQueryError & { message: string }) | null {
+    const error: CharacterQueryError | null = this.filtersForm.controls.query.errors?.['characterQuery'] ?? null;
+    return error && { ...error, message: this.i18n.t(`query.error.${error.code}`, error.params) };
   }
 
   /**
-   * Guarda los favoritos en localStorage
+   * Verifica si hay filtros activos
    */
-  private saveFavorites(): void {
-    const favoritesData = this.favorites();
-    localStorage.setItem('rickmorty_favorites', JSON.stringify(favoritesData))
+  hasActiveFilters(): boolean {
+    const values = this.filtersForm.value;
+    return !!(values.query?.trim() || values.name || values.status || values.species || values.type || values.gender
+      || values.origin || values.location || this.episodeCountParam(values.minEpisodes) !== null || this.episodeCountParam(values.maxEpisodes) !== null
+      || values.createdStartDate || values.createdEndDate);
   }
 
   /**
    * Alterna el estado de favorito de un personaje
    */
   toggleFavorite(characterId: number): void {
-    const currentFavorites = this.favorites();
-    const index = currentFavorites.indexOf(characterId);
-
-    if (index > -1) {
-      const newFavorites = currentFavorites.filter(id => id !== characterId);
-      this.favorites.set(newFavorites);
-    } else {
-      // Agregar
-      this.favorites.set([...currentFavorites, characterId]);
-    }
-
-    this.saveFavorites();
+    this.favoritesService.toggle(characterId);
   }
 
   /**
    * Verifica si un personaje es favorito
    */
   isFavorite(characterId: number): boolean {
-    return this.favorites().includes(characterId);
+    return this.favoritesService.isFavorite(characterId);
   }
 
   /**
-   * Exporta los datos actuales de la tabla a un archivo CSV
+   * Navega a la página de detalle del personaje
    */
-  exportToCSV(): void {
-    const currentCharacters = this.characters();
+  openDetails(character: Character): void {
+    this.router.navigate(['/characters', character.id]);
+  }
 
-    if (currentCharacters.length === 0) {
-      console.warn('No hay datos para exportar');
-      return;
+  /**
+   * Muestra u oculta la línea temporal de episodios de un personaje (solo una a la vez)
+   */
+  toggleExpanded(character: Character): void {
+    this.store.setExpanded(this.isExpanded(character.id) ? null : character.id);
+  }
+
+  isExpanded(characterId: number): boolean {
+    return this.expandedCharacterId() === characterId;
+  }
+
+  /**
+   * Verifica si un personaje está seleccionado para comparar
+   */
+  isSelected(characterId: number): boolean {
+    return this.selectedCharacters().some(character => character.id === characterId);
+  }
+
+  /**
+   * Indica si un personaje no se puede seleccionar porque la comparación está completa
+   */
+  isSelectionDisabled(characterId: number): boolean {
+    return !this.isSelected(characterId) && this.selectedCharacters().length >= this.maxCompared;
+  }
+
+  /**
+   * Añade o quita un personaje de la comparación
+   */
+  toggleSelection(character: Character): void {
+    if (this.isSelected(character.id)) {
+      this.store.setSelection(this.selectedCharacters().filter(selected => selected.id !== character.id));
+    } else if (!this.isSelectionDisabled(character.id)) {
+      this.store.setSelection([...this.selectedCharacters(), character]);
     }
-    //columnas del CSV
-    const headers = ['Name', 'Status', 'Species', 'Gender', 'Origin', 'Location', 'Created', 'Number of Episodes'];
-
-    const csvContent = [
-      headers.join(','), // Encabezados
-      ...currentCharacters.map(character => {
-        return [
-          `"${character.name}"`,
-          character.status,
-          character.species,
-          character.gender,
-          `"${character.origin.name}"`,
-          `"${character.location.name}"`,
-          new Date(character.created).toLocaleString(),
-          character.episode.length
-        ].join(',');
-      })
-    ].join('\n');
-    // Crear el archivo Blob
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `rick-morty-characters-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  }
+
+  clearSelection(): void {
+    this.store.setSelection([]);
+  }
+
+  /**
+   * Abre la comparación de los personajes seleccionados
+   */
+  compareSelected(): void {
+    const ids = this.selectedCharacters().map(character => character.id);
+    this.router.navigate(['/compare'], { queryParams: { ids: ids.join(',') } });
+  }
+
+  /**
+   * Abre el diálogo de exportación con los datos y filtros de la vista actual
+   */
+  openExportDialog(): void {
+    const source: ExportSource = {
+      loaded: this.characters(),
+      filters: this.getCharacterFilters(),
+      clientFilter: characters => sortCharacters(this.applyClientFilters(characters), this.sorts())
+    };
+    this.dialog.open(ExportDialogComponent, { data: source, width: '560px' });
+  }
+
+  /**
+   * Guarda los filtros actuales como búsqueda con nombre
+   */
+  saveCurrentSearch(): void {
+    const data: SavedSearchNameDialogData = { title: 'savedSearch.saveTitle' };
+    this.dialog.open(SavedSearchNameDialogComponent, { data }).afterClosed().subscribe(name => {
+      if (!name) return;
+      const search = this.savedSearchesService.save(name, this.toFilterParams(this.filtersForm.value));
+      this.snackBar.open(this.i18n.t('savedSearch.saved', { name: search.name }), this.i18n.t('common.ok'), { duration: 3000 });
+    });
+  }
+
+  /**
+   * Aplica una búsqueda guardada al formulario (el orden actual se conserva)
+   */
+  applySavedSearch(search: SavedSearch): void {
+    const filters = search.filters;
+    this.filtersForm.setValue({
+      query: filters.query ?? '',
+      name: filters.name ?? '',
+      status: filters.status ?? '',
+      species: filters.species ?? '',
+      type: filters.type ?? '',
+      gender: filters.gender ?? '',
+      origin: filters.origin ?? '',
+      location: filters.location ?? '',
+      minEpisodes: filters.minEpisodes ?? null,
+      maxEpisodes: filters.maxEpisodes ?? null,
+      createdStartDate: fromDateParam(filters.createdStartDate),
+      createdEndDate: fromDateParam(filters.createdEndDate)
+    });
+  }
+
+  renameSavedSearch(search: SavedSearch): void {
+    const data: SavedSearchNameDialogData = { title: 'savedSearch.renameTitle', name: search.name, searchId: search.id };
+    this.dialog.open(SavedSearchNameDialogComponent, { data }).afterClosed().subscribe(name => {
+      if (name && !this.savedSearchesService.rename(search.id, name)) {
+        this.snackBar.open(this.i18n.t('savedSearch.duplicate'), this.i18n.t('common.ok'), { duration: 3000 });
+      }
+    });
+  }
+
+  deleteSavedSearch(search: SavedSearch): void {
+    this.savedSearchesService.remove(search.id);
+    this.snackBar.open(this.i18n.t('savedSearch.deleted', { name: search.name }), this.i18n.t('common.undo'), { duration: 5000 })
+      .onAction()
+      .subscribe(() => this.savedSearchesService.save(search.name, search.filters));
+  }
+
+  /**
+   * Copia al portapapeles un enlace que abre la tabla con los filtros de la búsqueda
+   */
+  copySavedSearchLink(search: SavedSearch): void {
+    const path = this.router.serializeUrl(
+      this.router.createUrlTree(['/characters'], { queryParams: this.savedSearchesService.toQueryParams(search) })
+    );
+    const url = new URL(this.location.prepareExternalUrl(path), window.location.origin).toString();
+    const copied = this.clipboard.copy(url);
+    this.snackBar.open(this.i18n.t(copied ? 'savedSearch.linkCopied' : 'savedSearch.linkNotCopied'), this.i18n.t('common.ok'), { duration: 3000 });
   }
 }
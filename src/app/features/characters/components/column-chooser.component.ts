@@ -0,0 +1,46 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CdkDragDrop, DragDropModule } from '@angular/cdk/drag-drop';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+import { CharacterColumnState, CharacterColumnsService } from '../../../core/services/character-columns.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+/**
+ * Menú para mostrar, ocultar y reordenar (arrastrando) las columnas de la tabla
+ */
+@Component({
+  selector: 'app-column-chooser',
+  standalone: true,
+  imports: [
+    CommonModule,
+    DragDropModule,
+    MatMenuModule,
+    MatCheckboxModule,
+    MatButtonModule,
+    MatIconModule,
+    TranslatePipe
+  ],
+  templateUrl: './column-chooser.component.html',
+  styleUrls: ['./column-chooser.component.scss']
+})
+export class ColumnChooserComponent {
+  readonly columnsService = inject(CharacterColumnsService);
+  private readonly i18n = inject(I18nService);
+
+  label(column: CharacterColumnState): string {
+    return this.i18n.t(this.columnsService.getDefinition(column.id).label);
+  }
+
+  isRequired(column: CharacterColumnState): boolean {
+    return !!this.columnsService.getDefinition(column.id).required;
+  }
+
+  drop(event: CdkDragDrop<CharacterColumnState[]>): void {
+    this.columnsService.move(event.previousIndex, event.currentIndex);
+  }
+}
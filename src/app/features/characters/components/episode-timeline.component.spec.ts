@@ -0,0 +1,96 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+
+import { EpisodeTimelineComponent } from './episode-timeline.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+
+describe('EpisodeTimelineComponent', () => {
+  let component: EpisodeTimelineComponent;
+  let fixture: ComponentFixture<EpisodeTimelineComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+
+  const API_URL = 'https://rickandmortyapi.com/api';
+
+  // Temporada 1 con 4 episodios y temporada 2 con 3, desordenados como podrían llegar
+  const episodes = ['S02E01', 'S01E01', 'S01E02', 'S01E03', 'S01E04', 'S02E02', 'S02E03', 'unknown']
+    .map((code, i) => ({ id: i + 1, name: `Episode ${code}`, episode: code, air_date: 'December 2, 2013' }) as Episode);
+
+  const character = (episodeIds: number[]) => ({
+    id: 1,
+    name: 'Rick Sanchez',
+    episode: episodeIds.map(id => `${API_URL}/episode/${id}`)
+  }) as Character;
+
+  beforeEach(async () => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getAllEpisodes']);
+    mockApiService.getAllEpisodes.and.returnValue(of(episodes));
+
+    await TestBed.configureTestingModule({
+      imports: [EpisodeTimelineComponent],
+      providers: [{ provide: RickMortyApiService, useValue: mockApiService }]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(EpisodeTimelineComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería situar las apariciones en la rejilla de temporadas', () => {
+    // S01E01, S01E02 y S02E03
+    fixture.componentRef.setInput('character', character([2, 3, 7]));
+    fixture.detectChanges();
+
+    const timeline = component.timeline()!;
+    expect(component.state()).toBe('ready');
+    expect(timeline.seasons.map(season => [season.season, season.appearances, season.episodes.length]))
+      .toEqual([[1, 2, 4], [2, 1, 3]]);
+    expect(component.columns()).toEqual([1, 2, 3, 4]);
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.querySelectorAll('.timeline-cell.appears').length).toBe(3);
+    expect(element.querySelectorAll('.timeline-cell.empty').length).toBe(1);
+  });
+
+  it('debería calcular la primera y última aparición y el mayor hueco', () => {
+    fixture.componentRef.setInput('character', character([2, 3, 7]));
+    fixture.detectChanges();
+
+    const timeline = component.timeline()!;
+    expect(timeline.appearances).toBe(3);
+    expect(timeline.firstAppearance?.episode).toBe('S01E01');
+    expect(timeline.lastAppearance?.episode).toBe('S02E03');
+    expect(timeline.longestGap).toEqual(jasmine.objectContaining({ missedEpisodes: 4 }));
+    expect(timeline.longestGap?.from.episode).toBe('S01E02');
+    expect(timeline.longestGap?.to.episode).toBe('S02E03');
+  });
+
+  it('no debería indicar hueco con apariciones consecutivas', () => {
+    fixture.componentRef.setInput('character', character([4, 5, 1]));
+    fixture.detectChanges();
+
+    expect(component.timeline()?.longestGap).toBeNull();
+  });
+
+  it('debería recargar al cambiar de personaje', () => {
+    fixture.componentRef.setInput('character', character([2]));
+    fixture.detectChanges();
+    fixture.componentRef.setInput('character', character([3, 4]));
+    fixture.detectChanges();
+
+    expect(component.timeline()?.appearances).toBe(2);
+  });
+
+  it('debería mostrar el error y reintentar', () => {
+    mockApiService.getAllEpisodes.and.returnValue(throwError(() => new Error('boom')));
+    fixture.componentRef.setInput('character', character([2]));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('error');
+
+    mockApiService.getAllEpisodes.and.returnValue(of(episodes));
+    component.retry();
+
+    expect(component.state()).toBe('ready');
+  });
+});
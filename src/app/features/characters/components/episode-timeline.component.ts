@@ -0,0 +1,100 @@
+import { Component, OnInit, OnDestroy, computed, inject, input, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Observable, Subject, catchError, map, merge, of, switchMap, takeUntil } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character } from '../../../core/models/character.model';
+import { Episode } from '../../../core/models/episode.model';
+import { EpisodeTimeline, TimelineEpisode } from '../../../core/models/episode-timeline.model';
+import { extractIdsFromUrls } from '../../../core/utils/api-url.utils';
+import { buildEpisodeTimeline } from '../../../core/utils/episode-timeline.utils';
+import { I18nService } from '../../../core/services/i18n.service';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+export type EpisodeTimelineState = 'loading' | 'ready' | 'error';
+
+/**
+ * Rejilla de temporadas y episodios con las apariciones de un personaje.
+ * Se puede usar en la página de detalle o dentro de una fila expandida del listado.
+ */
+@Component({
+  selector: 'app-episode-timeline',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    TranslatePipe
+  ],
+  templateUrl: './episode-timeline.component.html',
+  styleUrls: ['./episode-timeline.component.scss']
+})
+export class EpisodeTimelineComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly i18n = inject(I18nService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly reload$ = new Subject<void>();
+
+  readonly character = input.required<Character>();
+  private readonly character$ = toObservable(this.character);
+
+  state = signal<EpisodeTimelineState>('loading');
+  timeline = signal<EpisodeTimeline | null>(null);
+
+  // Columnas de la rejilla: la temporada más larga
+  columns = computed(() => {
+    const longest = Math.max(0, ...(this.timeline()?.seasons.map(season => season.episodes.length) ?? []));
+    return Array.from({ length: longest }, (_, i) => i + 1);
+  });
+
+  ngOnInit(): void {
+    // switchMap cancela la carga anterior si cambia el personaje o se reintenta
+    merge(this.character$, this.reload$.pipe(map(() => this.character())))
+      .pipe(
+        switchMap(character => this.loadTimeline(character)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga de los episodios
+   */
+  retry(): void {
+    this.reload$.next();
+  }
+
+  episodeTitle(entry: TimelineEpisode): string {
+    return `${this.episodeLabel(entry.episode)} (${entry.episode.air_date})${entry.appears ? '' : ` · ${this.i18n.t('timeline.notInEpisode')}`}`;
+  }
+
+  episodeLabel(episode: Episode): string {
+    return `${episode.episode} · ${episode.name}`;
+  }
+
+  private loadTimeline(character: Character): Observable<void> {
+    this.state.set('loading');
+
+    return this.apiService.getAllEpisodes().pipe(
+      map(episodes => {
+        this.timeline.set(buildEpisodeTimeline(episodes, extractIdsFromUrls(character.episode)));
+        this.state.set('ready');
+      }),
+      catchError(() => {
+        this.timeline.set(null);
+        this.state.set('error');
+        return of(undefined);
+      })
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { Component, OnDestroy, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { Subscription } from 'rxjs';
+
+import {
+  CharacterExportService,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  ExportColumnId,
+  ExportFormat,
+  ExportScope,
+  ExportSource
+} from '../../../core/services/character-export.service';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+@Component({
+  selector: 'app-export-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatRadioModule,
+    MatCheckboxModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule,
+    TranslatePipe
+  ],
+  templateUrl: './export-dialog.component.html',
+  styleUrls: ['./export-dialog.component.scss']
+})
+export class ExportDialogComponent implements OnDestroy {
+  private readonly exportService = inject(CharacterExportService);
+  private readonly dialogRef = inject(MatDialogRef<ExportDialogComponent>);
+  readonly source = inject<ExportSource>(MAT_DIALOG_DATA);
+  readonly favoritesCount = inject(FavoritesService).count;
+
+  readonly columns = EXPORT_COLUMNS;
+
+  format = signal<ExportFormat>('csv');
+  scope = signal<ExportScope>('loaded');
+  selectedColumns = signal<ExportColumnId[]>([...DEFAULT_EXPORT_COLUMNS]);
+
+  exporting = signal<boolean>(false);
+  progress = signal<{ loadedPages: number; totalPages: number } | null>(null);
+  error = signal<MessageKey | null>(null);
+
+  progressPercent = computed(() => {
+    const progress = this.progress();
+    return progress && progress.totalPages > 0 ? (progress.loadedPages / progress.totalPages) * 100 : 0;
+  });
+
+  canExport = computed(() => {
+    if (this.exporting() || this.selectedColumns().length === 0) return false;
+    switch (this.scope()) {
+      case 'loaded':
+        return this.source.loaded.length > 0;
+      case 'favorites':
+        return this.favoritesCount() > 0;
+      default:
+        return true;
+    }
+  });
+
+  private exportRequest?: Subscription;
+
+  ngOnDestroy(): void {
+    this.exportRequest?.unsubscribe();
+  }
+
+  isColumnSelected(id: ExportColumnId): boolean {
+    return this.selectedColumns().includes(id);
+  }
+
+  /**
+   * Marca o desmarca una columna manteniendo el orden de EXPORT_COLUMNS
+   */
+  toggleColumn(id: ExportColumnId, selected: boolean): void {
+    const next = new Set(this.selectedColumns());
+    if (selected) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    this.selectedColumns.set(this.columns.map(column => column.id).filter(columnId => next.has(columnId)));
+  }
+
+  /**
+   * Reúne los personajes del alcance elegido y descarga el archivo
+   */
+  export(): void {
+    this.exporting.set(true);
+    this.error.set(null);
+    this.progress.set(null);
+
+    this.exportRequest = this.exportService.collect(this.scope(), this.source).subscribe({
+      next: (progress) => {
+        this.progress.set({ loadedPages: progress.loadedPages, totalPages: progress.totalPages });
+        if (progress.characters) {
+          this.exportService.download(this.format(), progress.characters, this.selectedColumns());
+          this.dialogRef.close(progress.characters.length);
+        }
+      },
+      error: (error) => {
+        console.error('Error exporting characters:', error);
+        this.error.set('export.error');
+        this.exporting.set(false);
+      }
+    });
+  }
+
+  cancel(): void {
+    this.exportRequest?.unsubscribe();
+    this.dialogRef.close();
+  }
+}
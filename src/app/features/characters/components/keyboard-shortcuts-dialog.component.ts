@@ -0,0 +1,43 @@
+import { Component } from '@angular/core';
+import { MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: MessageKey;
+}
+
+// Atajos del listado de personajes (ver CharactersTableComponent)
+export const CHARACTER_TABLE_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['/'], description: 'shortcuts.focusSearch' },
+  { keys: ['↑', '↓'], description: 'shortcuts.moveRows' },
+  { keys: ['←', '→'], description: 'shortcuts.moveCards' },
+  { keys: ['Home', 'End'], description: 'shortcuts.firstLast' },
+  { keys: ['Enter'], description: 'shortcuts.openDetails' },
+  { keys: ['f'], description: 'shortcuts.favorite' },
+  { keys: ['Space'], description: 'shortcuts.compare' },
+  { keys: ['e'], description: 'shortcuts.timeline' },
+  { keys: ['Esc'], description: 'shortcuts.clearFilters' },
+  { keys: ['?'], description: 'shortcuts.help' }
+];
+
+/**
+ * Ayuda con los atajos de teclado del listado de personajes
+ */
+@Component({
+  selector: 'app-keyboard-shortcuts-dialog',
+  standalone: true,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    TranslatePipe
+  ],
+  templateUrl: './keyboard-shortcuts-dialog.component.html',
+  styleUrls: ['./keyboard-shortcuts-dialog.component.scss']
+})
+export class KeyboardShortcutsDialogComponent {
+  shortcuts = CHARACTER_TABLE_SHORTCUTS;
+}
@@ -0,0 +1,57 @@
+import { Component, inject } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+
+import { SavedSearchesService } from '../../../core/services/saved-searches.service';
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+export interface SavedSearchNameDialogData {
+  title: MessageKey;
+  name?: string;
+  /** ID de la búsqueda que se renombra (no cuenta como duplicado) */
+  searchId?: string;
+}
+
+/**
+ * Pide el nombre al guardar o renombrar una búsqueda. Se cierra con el nombre elegido.
+ */
+@Component({
+  selector: 'app-saved-search-name-dialog',
+  standalone: true,
+  imports: [
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    TranslatePipe
+  ],
+  templateUrl: './saved-search-name-dialog.component.html',
+  styleUrls: ['./saved-search-name-dialog.component.scss']
+})
+export class SavedSearchNameDialogComponent {
+  private readonly dialogRef = inject(MatDialogRef<SavedSearchNameDialogComponent, string>);
+  private readonly savedSearchesService = inject(SavedSearchesService);
+  readonly data = inject<SavedSearchNameDialogData>(MAT_DIALOG_DATA);
+
+  name = new FormControl(this.data.name ?? '', { nonNullable: true, validators: [Validators.required, Validators.maxLength(60)] });
+  form = new FormGroup({ name: this.name });
+
+  /**
+   * Indica si el nombre sustituirá a otra búsqueda guardada
+   */
+  replacesExisting(): boolean {
+    const existing = this.savedSearchesService.findByName(this.name.value);
+    return !!existing && existing.id !== this.data.searchId;
+  }
+
+  submit(): void {
+    const name = this.name.value.trim();
+    if (!name) return;
+    this.dialogRef.close(name);
+  }
+}
@@ -0,0 +1,167 @@
+import { Directive, NgZone, OnDestroy, effect, forwardRef, inject, input, output } from '@angular/core';
+import { ListRange } from '@angular/cdk/collections';
+import { CdkVirtualScrollViewport, VIRTUAL_SCROLL_STRATEGY, VirtualScrollStrategy } from '@angular/cdk/scrolling';
+import { Subject, distinctUntilChanged, takeUntil } from 'rxjs';
+
+// Píxeles que se renderizan por encima y por debajo de la parte visible
+const VIRTUAL_ROWS_BUFFER_PX = 400;
+
+export interface VirtualRowsLayout {
+  length: number;
+  rowHeight: number;
+  /** Contenido fijo antes de la primera fila (la cabecera de mat-table) */
+  headerHeight: number;
+  /** Fila con un detalle expandido debajo y la altura de ese detalle */
+  expandedIndex: number | null;
+  expandedHeight: number;
+}
+
+/**
+ * Scroll virtual para filas de altura fija en el que una de ellas puede tener un
+ * detalle expandido. A diferencia de FixedSizeVirtualScrollStrategy no necesita
+ * cdkVirtualFor: quien lo usa pinta el rango emitido (con mat-table o un @for).
+ */
+export class VirtualRowsScrollStrategy implements VirtualScrollStrategy {
+  private readonly scrolledIndex$ = new Subject<number>();
+  private readonly renderedRange$ = new Subject<ListRange>();
+  private viewport: CdkVirtualScrollViewport | null = null;
+  private layout: VirtualRowsLayout = { length: 0, rowHeight: 1, headerHeight: 0, expandedIndex: null, expandedHeight: 0 };
+
+  scrolledIndexChange = this.scrolledIndex$.pipe(distinctUntilChanged());
+  renderedRangeChange = this.renderedRange$.pipe(
+    distinctUntilChanged((a, b) => a.start === b.start && a.end === b.end)
+  );
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    this.update();
+  }
+
+  detach(): void {
+    this.scrolledIndex$.complete();
+    this.renderedRange$.complete();
+    this.viewport = null;
+  }
+
+  setLayout(layout: VirtualRowsLayout): void {
+    this.layout = layout;
+    this.update();
+  }
+
+  onContentScrolled(): void {
+    this.update();
+  }
+
+  onDataLengthChanged(): void {
+    this.update();
+  }
+
+  onContentRendered(): void {
+    /* no-op */
+  }
+
+  onRenderedOffsetChanged(): void {
+    /* no-op */
+  }
+
+  scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    if (!this.viewport) return;
+    // Con scrollWindow el desplazamiento es el de la ventana, que incluye lo que hay sobre el viewport
+    this.viewport.scrollToOffset(this.viewport.measureViewportOffset() + this.offsetOf(index), behavior);
+  }
+
+  private update(): void {
+    if (!this.viewport) return;
+    const { length, headerHeight } = this.layout;
+    this.viewport.setTotalContentSize(this.offsetOf(length));
+
+    const scrollOffset = this.viewport.measureScrollOffset();
+    const viewportSize = this.viewport.getViewportSize();
+    const start = this.indexAt(scrollOffset - VIRTUAL_ROWS_BUFFER_PX);
+    const end = Math.min(length, this.indexAt(scrollOffset + viewportSize + VIRTUAL_ROWS_BUFFER_PX) + 1);
+    const range = { start, end };
+
+    this.viewport.setRenderedRange(range);
+    // La cabecera forma parte del contenido desplazado: se pinta justo antes de la primera fila del rango
+    this.viewport.setRenderedContentOffset(this.offsetOf(start) - headerHeight);
+    this.scrolledIndex$.next(this.indexAt(scrollOffset));
+    this.renderedRange$.next(range);
+  }
+
+  /**
+   * Posición de una fila desde el inicio del contenido
+   */
+  private offsetOf(index: number): number {
+    const { rowHeight, headerHeight, expandedIndex, expandedHeight } = this.layout;
+    const expanded = expandedIndex !== null && expandedIndex < index ? expandedHeight : 0;
+    return headerHeight + index * rowHeight + expanded;
+  }
+
+  /**
+   * Fila que ocupa una posición del contenido (el detalle expandido cuenta como su fila)
+   */
+  private indexAt(offset: number): number {
+    const { length, rowHeight, headerHeight, expandedIndex, expandedHeight } = this.layout;
+    const position = Math.max(0, offset - headerHeight);
+    const expandedStart = expandedIndex === null ? Infinity : (expandedIndex + 1) * rowHeight;
+
+    let index: number;
+    if (position < expandedStart) {
+      index = Math.floor(position / rowHeight);
+    } else if (position < expandedStart + expandedHeight) {
+      index = expandedIndex as number;
+    } else {
+      index = Math.floor((position - expandedHeight) / rowHeight);
+    }
+    return Math.min(index, length);
+  }
+}
+
+/**
+ * Aplica VirtualRowsScrollStrategy a un cdk-virtual-scroll-viewport y emite el rango
+ * de filas que hay que renderizar
+ */
+@Directive({
+  selector: 'cdk-virtual-scroll-viewport[appVirtualRows]',
+  standalone: true,
+  providers: [{
+    provide: VIRTUAL_SCROLL_STRATEGY,
+    useFactory: (directive: VirtualRowsDirective) => directive.strategy,
+    deps: [forwardRef(() => VirtualRowsDirective)]
+  }]
+})
+export class VirtualRowsDirective implements OnDestroy {
+  private readonly ngZone = inject(NgZone);
+  private readonly destroy$ = new Subject<void>();
+
+  readonly strategy = new VirtualRowsScrollStrategy();
+
+  /** Número de filas */
+  length = input.required<number>({ alias: 'appVirtualRows' });
+  rowHeight = input.required<number>();
+  headerHeight = input<number>(0);
+  expandedIndex = input<number | null>(null);
+  expandedHeight = input<number>(0);
+
+  renderedRangeChange = output<ListRange>();
+
+  constructor() {
+    effect(() => this.strategy.setLayout({
+      length: this.length(),
+      rowHeight: this.rowHeight(),
+      headerHeight: this.headerHeight(),
+      expandedIndex: this.expandedIndex(),
+      expandedHeight: this.expandedHeight()
+    }));
+
+    // El viewport recalcula el rango fuera de la zona de Angular al hacer scroll
+    this.strategy.renderedRangeChange
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(range => this.ngZone.run(() => this.renderedRangeChange.emit(range)));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
@@ -0,0 +1,128 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, of, throwError } from 'rxjs';
+
+import { EpisodesListComponent } from './episodes-list.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Episode } from '../../../core/models/episode.model';
+import { ApiResponse } from '../../../core/models/character.model';
+
+describe('EpisodesListComponent', () => {
+  let component: EpisodesListComponent;
+  let fixture: ComponentFixture<EpisodesListComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+  let mockRouter: jasmine.SpyObj<Router>;
+
+  const createEpisode = (id: number, code: string): Episode => ({
+    id,
+    name: `Episode ${id}`,
+    air_date: 'December 2, 2013',
+    episode: code,
+    characters: [
+      'https://rickandmortyapi.com/api/character/1',
+      'https://rickandmortyapi.com/api/character/2'
+    ],
+    url: `https://rickandmortyapi.com/api/episode/${id}`,
+    created: '2017-11-10T12:56:33.798Z'
+  });
+
+  beforeEach(async () => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getEpisodes', 'getMultipleCharacters']);
+    mockRouter = jasmine.createSpyObj('Router', ['navigate']);
+
+    await TestBed.configureTestingModule({
+      imports: [
+        EpisodesListComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: RickMortyApiService, useValue: mockApiService },
+        { provide: Router, useValue: mockRouter },
+        { provide: ActivatedRoute, useValue: { snapshot: { queryParams: { episode: 's02' } } } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(EpisodesListComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería agrupar los episodios por temporada', () => {
+    mockApiService.getEpisodes.and.returnValue(of({
+      info: { count: 3, pages: 1, next: null, prev: null },
+      results: [createEpisode(1, 'S01E01'), createEpisode(2, 'S01E02'), createEpisode(12, 'S02E01')]
+    }));
+    fixture.detectChanges();
+
+    const seasons = component.seasons();
+    expect(seasons.map(group => group.season)).toEqual([1, 2]);
+    expect(seasons[0].episodes.length).toBe(2);
+    expect(component.hasMore()).toBe(false);
+  });
+
+  it('debería enviar el código de episodio normalizado a la API', () => {
+    mockApiService.getEpisodes.and.returnValue(of({
+      info: { count: 0, pages: 0, next: null, prev: null },
+      results: []
+    }));
+    fixture.detectChanges();
+
+    expect(mockApiService.getEpisodes).toHaveBeenCalledWith({ name: undefined, episode: 'S02', page: 1 });
+  });
+
+  it('debería resolver el reparto una sola vez mediante getMultipleCharacters', () => {
+    const episode = createEpisode(1, 'S01E01');
+    mockApiService.getEpisodes.and.returnValue(of({
+      info: { count: 1, pages: 1, next: null, prev: null },
+      results: [episode]
+    }));
+    mockApiService.getMultipleCharacters.and.returnValue(of([]));
+    fixture.detectChanges();
+
+    component.loadCast(episode);
+    component.loadCast(episode);
+
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledOnceWith([1, 2]);
+    expect(component.cast()[1]).toEqual([]);
+    expect(component.isCastLoading(1)).toBe(false);
+  });
+
+  it('debería descartar la respuesta pendiente al cambiar los filtros', fakeAsync(() => {
+    const pending = new Subject<ApiResponse<Episode>>();
+    mockApiService.getEpisodes.and.returnValue(pending);
+    fixture.detectChanges();
+
+    mockApiService.getEpisodes.and.returnValue(of({
+      info: { count: 1, pages: 1, next: null, prev: null },
+      results: [createEpisode(28, 'S03E07')]
+    }));
+    component.filtersForm.patchValue({ episode: 'S03' });
+    tick(300);
+
+    pending.next({ info: { count: 1, pages: 1, next: null, prev: null }, results: [createEpisode(12, 'S02E01')] });
+
+    expect(mockApiService.getEpisodes).toHaveBeenCalledTimes(2);
+    expect(component.episodes().map(episode => episode.id)).toEqual([28]);
+    expect(component.loading()).toBe(false);
+  }));
+
+  it('debería mostrar un error con reintento en lugar de la lista vacía', () => {
+    spyOn(console, 'error');
+    mockApiService.getEpisodes.and.returnValue(throwError(() => new Error('500')));
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(component.loadError()).toBe(true);
+    expect(element.textContent).toContain('The episodes could not be loaded');
+    expect(element.textContent).not.toContain('No episodes found');
+
+    mockApiService.getEpisodes.and.returnValue(of({
+      info: { count: 1, pages: 1, next: null, prev: null },
+      results: [createEpisode(1, 'S01E01')]
+    }));
+    (element.querySelector('.retry-button') as HTMLButtonElement).click();
+
+    expect(component.loadError()).toBe(false);
+    expect(component.episodes().length).toBe(1);
+  });
+});
@@ -0,0 +1,291 @@
+import { Component, OnInit, OnDestroy, inject, signal, computed, ViewChild, ElementRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { Router, ActivatedRoute } from '@angular/router';
+import { MatInputModule } from '@angular/material/input';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { Subject, Subscription, debounceTime, distinctUntilChanged, takeUntil } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character } from '../../../core/models/character.model';
+import { Episode, EpisodeFilters } from '../../../core/models/episode.model';
+import { extractIdsFromUrls } from '../../../core/utils/api-url.utils';
+import { LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { parseEpisodeCode } from '../../../core/utils/episode-code.utils';
+
+export interface EpisodeSeasonGroup {
+  season: number | null;
+  episodes: Episode[];
+}
+
+@Component({
+  selector: 'app-episodes-list',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatInputModule,
+    MatFormFieldModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatProgressSpinnerModule,
+    MatChipsModule,
+    MatExpansionModule,
+    TranslatePipe,
+    LocalizedNumberPipe
+  ],
+  templateUrl: './episodes-list.component.html',
+  styleUrls: ['./episodes-list.component.scss']
+})
+export class EpisodesListComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+
+  /**
+   * El sentinel se crea y destruye con cada carga, por eso se observa
+   * cada vez que Angular lo vuelve a insertar en el DOM
+   */
+  @ViewChild('scrollSentinel')
+  set scrollSentinel(sentinel: ElementRef | undefined) {
+    this.intersectionObserver?.disconnect();
+    if (sentinel?.nativeElement) {
+      this.intersectionObserver?.observe(sentinel.nativeElement);
+    }
+  }
+
+  // Signals para estado reactivo
+  episodes = signal<Episode[]>([]);
+  loading = signal<boolean>(false);
+  loadingMore = signal<boolean>(false);
+  totalCount = signal<number>(0);
+  currentPage = signal<number>(1);
+  hasMore = signal<boolean>(true);
+  // Error de la última carga: sin episodios se muestra en lugar del listado
+  loadError = signal<boolean>(false);
+
+  // Reparto por ID de episodio, resuelto bajo demanda al expandir
+  cast = signal<Partial<Record<number, Character[]>>>({});
+  loadingCast = signal<number[]>([]);
+
+  // Episodios agrupados por temporada, en el orden en que llegan de la API
+  seasons = computed<EpisodeSeasonGroup[]>(() => {
+    const groups = new Map<number | null, Episode[]>();
+    for (const episode of this.episodes()) {
+      const season = parseEpisodeCode(episode.episode)?.season ?? null;
+      groups.set(season, [...(groups.get(season) ?? []), episode]);
+    }
+    return Array.from(groups, ([season, episodes]) => ({ season, episodes }));
+  });
+
+  // Formulario de filtros
+  filtersForm = new FormGroup({
+    name: new FormControl<string>(''),
+    episode: new FormControl<string>('')
+  });
+
+  // IntersectionObserver para infinite scroll
+  private intersectionObserver = typeof IntersectionObserver !== 'undefined'
+    ? new IntersectionObserver((entries) => {
+        if (entries.some(entry => entry.isIntersecting) && this.hasMore() && !this.isLoadingPage) {
+          this.loadNextPage();
+        }
+      }, { root: null, rootMargin: '100px', threshold: 0.1 })
+    : undefined;
+  private isLoadingPage = false;
+  private pageRequest?: Subscription;
+
+  ngOnInit(): void {
+    this.loadInitialData();
+    this.setupFiltersObserver();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.intersectionObserver?.disconnect();
+  }
+
+  /**
+   * Carga los datos iniciales a partir de los query params
+   */
+  private loadInitialData(): void {
+    const params = this.route.snapshot.queryParams;
+
+    this.filtersForm.patchValue({
+      name: params['name'] || '',
+      episode: params['episode'] || ''
+    }, { emitEvent: false });
+
+    this.loadEpisodes(1);
+  }
+
+  /**
+   * Configura el observador de cambios en filtros
+   */
+  private setupFiltersObserver(): void {
+    this.filtersForm.valueChanges
+      .pipe(
+        debounceTime(300),
+        distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this.currentPage.set(1);
+        this.episodes.set([]);
+        this.hasMore.set(true);
+        this.updateUrlParams();
+        this.loadEpisodes(1);
+      });
+  }
+
+  /**
+   * Actualiza los query params de la URL con los filtros actuales
+   */
+  private updateUrlParams(): void {
+    const { name, episode } = this.filtersForm.value;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        name: name || null,
+        episode: episode || null
+      },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  /**
+   * Carga episodios de una página específica
+   */
+  private loadEpisodes(page: number, append: boolean = false): void {
+    // Un cambio de filtros cancela la carga en curso
+    if (page === 1) {
+      this.pageRequest?.unsubscribe();
+      this.isLoadingPage = false;
+    }
+    if (this.isLoadingPage) return;
+
+    this.isLoadingPage = true;
+    this.loadError.set(false);
+
+    if (page === 1) {
+      this.loading.set(true);
+    } else {
+      this.loadingMore.set(true);
+    }
+
+    const filters = this.filtersForm.value;
+    const apiFilters: EpisodeFilters = {
+      name: filters.name || undefined,
+      episode: filters.episode?.trim().toUpperCase() || undefined,
+      page
+    };
+
+    this.pageRequest = this.apiService.getEpisodes(apiFilters)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (response) => {
+          this.episodes.set(append ? [...this.episodes(), ...response.results] : response.results);
+          this.totalCount.set(response.info.count);
+          this.currentPage.set(page);
+          this.hasMore.set(page < response.info.pages);
+
+          this.loading.set(false);
+          this.loadingMore.set(false);
+          this.isLoadingPage = false;
+        },
+        error: (error) => {
+          console.error('Error loading episodes:', error);
+          if (!append) {
+            this.episodes.set([]);
+          }
+          this.loadError.set(true);
+          this.loading.set(false);
+          this.loadingMore.set(false);
+          this.isLoadingPage = false;
+        }
+      });
+  }
+
+  /**
+   * Carga la siguiente página de episodios (para infinite scroll)
+   */
+  loadNextPage(): void {
+    if (!this.hasMore() || this.isLoadingPage || this.loadError()) return;
+    this.loadEpisodes(this.currentPage() + 1, true);
+  }
+
+  /**
+   * Reintenta la última carga fallida: la primera página si no hay episodios,
+   * o la siguiente página si falló el infinite scroll
+   */
+  retryLoad(): void {
+    if (this.episodes().length === 0) {
+      this.loadEpisodes(1);
+    } else {
+      this.loadEpisodes(this.currentPage() + 1, true);
+    }
+  }
+
+  /**
+   * Resuelve el reparto de un episodio la primera vez que se expande
+   */
+  loadCast(episode: Episode): void {
+    if (this.cast()[episode.id] || this.isCastLoading(episode.id)) return;
+
+    this.loadingCast.update(ids => [...ids, episode.id]);
+
+    this.apiService.getMultipleCharacters(extractIdsFromUrls(episode.characters))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (characters) => {
+          this.cast.update(cast => ({ ...cast, [episode.id]: characters }));
+          this.loadingCast.update(ids => ids.filter(id => id !== episode.id));
+        },
+        error: (error) => {
+          // Sin guardar el reparto, se reintenta al volver a expandir el episodio
+          console.error('Error loading cast:', error);
+          this.loadingCast.update(ids => ids.filter(id => id !== episode.id));
+        }
+      });
+  }
+
+  /**
+   * Verifica si el reparto de un episodio se está cargando
+   */
+  isCastLoading(episodeId: number): boolean {
+    return this.loadingCast().includes(episodeId);
+  }
+
+  /**
+   * Navega a la página de detalle del personaje
+   */
+  openCharacter(character: Character): void {
+    this.router.navigate(['/characters', character.id]);
+  }
+
+  /**
+   * Verifica si hay filtros activos
+   */
+  hasActiveFilters(): boolean {
+    const values = this.filtersForm.value;
+    return !!(values.name || values.episode);
+  }
+
+  /**
+   * Limpia todos los filtros
+   */
+  clearFilters(): void {
+    this.filtersForm.reset({ name: '', episode: '' });
+  }
+}
@@ -0,0 +1,63 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+
+import { FavoritesListComponent } from './favorites-list.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { FAVORITES_STORAGE_KEY, FavoritesService } from '../../../core/services/favorites.service';
+import { createCharacter } from '../../../../testing/character.fixture';
+
+describe('FavoritesListComponent', () => {
+  let component: FavoritesListComponent;
+  let fixture: ComponentFixture<FavoritesListComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+  let favorites: FavoritesService;
+
+  beforeEach(async () => {
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getMultipleCharacters']);
+    // El personaje 999 ya no existe en la API
+    mockApiService.getMultipleCharacters.and.callFake(ids =>
+      of(ids.filter(id => id !== 999).map(id => createCharacter(id))));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        FavoritesListComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: RickMortyApiService, useValue: mockApiService },
+        provideRouter([])
+      ]
+    }).compileComponents();
+
+    favorites = TestBed.inject(FavoritesService);
+    fixture = TestBed.createComponent(FavoritesListComponent);
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+  });
+
+  it('debería pedir una sola vez los favoritos que la API ya no devuelve', () => {
+    favorites.add(1);
+    favorites.add(999);
+    fixture.detectChanges();
+
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledOnceWith([1, 999]);
+    expect(component.characters().map(character => character.id)).toEqual([1]);
+
+    favorites.add(2);
+    fixture.detectChanges();
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith([2]);
+
+    favorites.remove(2);
+    fixture.detectChanges();
+    component.retry();
+
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledTimes(2);
+    expect(component.count()).toBe(2);
+  });
+});
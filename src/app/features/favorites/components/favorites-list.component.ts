@@ -0,0 +1,168 @@
+import { Component, OnInit, OnDestroy, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { EMPTY, Subject, catchError, filter, map, merge, switchMap, takeUntil, tap } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { CharactersStoreService } from '../../../core/services/characters-store.service';
+import { FavoritesService } from '../../../core/services/favorites.service';
+import { Character, CharacterStatus } from '../../../core/models/character.model';
+import { I18nService } from '../../../core/services/i18n.service';
+import { LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { GENDER_KEYS, STATUS_KEYS } from '../../../core/i18n/message-keys';
+
+@Component({
+  selector: 'app-favorites-list',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatProgressSpinnerModule,
+    MatChipsModule,
+    MatSnackBarModule,
+    TranslatePipe,
+    LocalizedNumberPipe
+  ],
+  templateUrl: './favorites-list.component.html',
+  styleUrls: ['./favorites-list.component.scss']
+})
+export class FavoritesListComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly favoritesService = inject(FavoritesService);
+  private readonly store = inject(CharactersStoreService);
+  private readonly router = inject(Router);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly i18n = inject(I18nService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly retry$ = new Subject<void>();
+
+  // Personajes ya descargados por ID (se conservan al quitar favoritos)
+  private readonly loaded = signal<Partial<Record<number, Character>>>({});
+  // Favoritos que la API ya no devuelve: se piden una sola vez
+  private readonly notFound = new Set<number>();
+
+  loading = signal<boolean>(false);
+  loadError = signal<boolean>(false);
+  count = this.favoritesService.count;
+  statusKeys = STATUS_KEYS;
+  genderKeys = GENDER_KEYS;
+
+  // Favoritos en el orden en que se añadieron
+  characters = computed<Character[]>(() => {
+    const loaded = this.loaded();
+    return this.favoritesService.ids()
+      .map(id => loaded[id])
+      .filter((character): character is Character => !!character);
+  });
+
+  // Cambios en los favoritos (incluidos los de otras pestañas)
+  private readonly ids$ = toObservable(this.favoritesService.ids);
+
+  ngOnInit(): void {
+    // Solo se piden los favoritos que aún no se han descargado (aquí o en el listado)
+    merge(this.ids$, this.retry$)
+      .pipe(
+        map(() => this.takeFromStore(this.favoritesService.ids().filter(id => !this.loaded()[id] && !this.notFound.has(id)))),
+        filter(missing => missing.length > 0),
+        tap(() => {
+          this.loading.set(true);
+          this.loadError.set(false);
+        }),
+        switchMap(missing => this.apiService.getMultipleCharacters(missing).pipe(
+          tap(characters => {
+            const found = new Set(characters.map(character => character.id));
+            missing.filter(id => !found.has(id)).forEach(id => this.notFound.add(id));
+          }),
+          catchError((error) => {
+            console.error('Error loading favorites:', error);
+            this.loading.set(false);
+            this.loadError.set(true);
+            return EMPTY;
+          })
+        )),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(characters => {
+        this.addLoaded(characters);
+        this.loading.set(false);
+      });
+  }
+
+  /**
+   * Toma del store los personajes que ya están descargados y devuelve los IDs que faltan
+   */
+  private takeFromStore(ids: number[]): number[] {
+    const known = ids
+      .map(id => this.store.getCharacter(id))
+      .filter((character): character is Character => !!character);
+    if (known.length > 0) {
+      this.addLoaded(known);
+    }
+    return ids.filter(id => !this.loaded()[id]);
+  }
+
+  private addLoaded(characters: Character[]): void {
+    this.loaded.update(loaded => {
+      const updated = { ...loaded };
+      characters.forEach(character => updated[character.id] = character);
+      return updated;
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga de los favoritos pendientes
+   */
+  retry(): void {
+    this.retry$.next();
+  }
+
+  removeFavorite(character: Character): void {
+    this.favoritesService.remove(character.id);
+  }
+
+  openDetails(character: Character): void {
+    this.router.navigate(['/characters', character.id]);
+  }
+
+  exportFavorites(): void {
+    this.favoritesService.exportToFile();
+  }
+
+  /**
+   * Importa el archivo elegido en el input y limpia el input para permitir reimportarlo
+   */
+  async importFavorites(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const added = await this.favoritesService.importFromFile(file);
+      this.snackBar.open(this.i18n.t('favorites.imported', { count: added }), this.i18n.t('common.ok'), { duration: 3000 });
+    } catch (error) {
+      console.error('Error importing favorites:', error);
+      this.snackBar.open(this.i18n.t('favorites.importError'), this.i18n.t('common.ok'), { duration: 5000 });
+    }
+  }
+
+  /**
+   * Obtiene la clase CSS para el estado del personaje
+   */
+  getStatusClass(status: CharacterStatus): string {
+    return `status-${status.toLowerCase()}`;
+  }
+}
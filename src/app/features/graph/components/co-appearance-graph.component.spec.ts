@@ -0,0 +1,118 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { BehaviorSubject, of, throwError } from 'rxjs';
+
+import { CoAppearanceGraphComponent } from './co-appearance-graph.component';
+import { CoAppearanceGraphService } from '../../../core/services/co-appearance-graph.service';
+import { Character } from '../../../core/models/character.model';
+import { CoAppearanceGraph } from '../../../core/models/co-appearance.model';
+
+describe('CoAppearanceGraphComponent', () => {
+  let component: CoAppearanceGraphComponent;
+  let fixture: ComponentFixture<CoAppearanceGraphComponent>;
+  let mockGraphService: jasmine.SpyObj<CoAppearanceGraphService>;
+  let router: Router;
+  let queryParamMap$: BehaviorSubject<ReturnType<typeof convertToParamMap>>;
+
+  const character = (id: number, name: string) => ({ id, name, image: '', episode: [] as string[] }) as Character;
+
+  const graph: CoAppearanceGraph = {
+    centerId: 1,
+    nodes: [
+      { character: character(1, 'Rick Sanchez'), depth: 0 },
+      { character: character(2, 'Morty Smith'), depth: 1 },
+      { character: character(3, 'Summer Smith'), depth: 1 }
+    ],
+    edges: [
+      { source: 1, target: 2, sharedEpisodes: 51 },
+      { source: 1, target: 3, sharedEpisodes: 4 }
+    ],
+    truncated: false
+  };
+
+  beforeEach(async () => {
+    mockGraphService = jasmine.createSpyObj('CoAppearanceGraphService', ['buildGraph']);
+    mockGraphService.buildGraph.and.returnValue(of(graph));
+    queryParamMap$ = new BehaviorSubject(convertToParamMap({ id: '1', depth: '2', min: '3' }));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        CoAppearanceGraphComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: CoAppearanceGraphService, useValue: mockGraphService },
+        provideRouter([]),
+        { provide: ActivatedRoute, useValue: { queryParamMap: queryParamMap$ } }
+      ]
+    }).compileComponents();
+
+    // Router real para los enlaces de la plantilla; solo se espía la navegación
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+
+    fixture = TestBed.createComponent(CoAppearanceGraphComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería construir el grafo con los parámetros de la URL y dibujarlo', () => {
+    fixture.detectChanges();
+
+    expect(mockGraphService.buildGraph).toHaveBeenCalledWith(1, { depth: 2, minSharedEpisodes: 3 });
+    expect(component.state()).toBe('ready');
+    expect(component.nodes().map(node => node.sharedWithCenter)).toEqual([null, 51, 4]);
+    expect(component.nodes()[0]).toEqual(jasmine.objectContaining({ x: 0, y: 0 }));
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.querySelectorAll('.graph-node').length).toBe(3);
+    expect(element.querySelectorAll('.graph-edge').length).toBe(2);
+  });
+
+  it('debería usar valores por defecto si la URL no es válida', () => {
+    queryParamMap$.next(convertToParamMap({ id: 'abc', depth: '9', min: '0' }));
+    fixture.detectChanges();
+
+    expect(mockGraphService.buildGraph).toHaveBeenCalledWith(1, { depth: 1, minSharedEpisodes: 1 });
+  });
+
+  it('debería recentrar el grafo al hacer clic en un nodo', () => {
+    fixture.detectChanges();
+
+    const morty = fixture.nativeElement.querySelectorAll('.graph-node')[1] as SVGGElement;
+    morty.dispatchEvent(new MouseEvent('click'));
+
+    expect(router.navigate).toHaveBeenCalledWith(['/graph'], { queryParams: { id: 2, depth: 2, min: 3 } });
+  });
+
+  it('no debería recentrar el grafo al terminar un arrastre sobre un nodo', () => {
+    fixture.detectChanges();
+    const svg = fixture.nativeElement.querySelector('svg.graph-svg') as SVGSVGElement;
+
+    svg.dispatchEvent(new PointerEvent('pointerdown', { clientX: 0, clientY: 0 }));
+    svg.dispatchEvent(new PointerEvent('pointermove', { clientX: 40, clientY: 10 }));
+    component.onNodeClick(2);
+
+    expect(component.pan().x).not.toBe(0);
+    expect(router.navigate).not.toHaveBeenCalled();
+  });
+
+  it('debería limitar el zoom', () => {
+    fixture.detectChanges();
+
+    for (let i = 0; i < 20; i++) component.zoomIn();
+    expect(component.zoom()).toBe(4);
+
+    component.resetView();
+    expect(component.zoom()).toBe(1);
+  });
+
+  it('debería mostrar el estado not-found y de error', () => {
+    mockGraphService.buildGraph.and.returnValues(of(null), throwError(() => new Error('boom')));
+    fixture.detectChanges();
+    expect(component.state()).toBe('not-found');
+
+    component.retry();
+    expect(component.state()).toBe('error');
+  });
+});
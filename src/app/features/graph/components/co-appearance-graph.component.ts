@@ -0,0 +1,309 @@
+import { Component, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, ActivatedRoute, ParamMap, RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Observable, Subject, catchError, map, of, switchMap, takeUntil } from 'rxjs';
+
+import { CoAppearanceGraphService, DEFAULT_CO_APPEARANCE_OPTIONS } from '../../../core/services/co-appearance-graph.service';
+import { CoAppearanceGraph, CoAppearanceGraphOptions, CoAppearanceNode } from '../../../core/models/co-appearance.model';
+import { Character } from '../../../core/models/character.model';
+import { LayoutPoint, computeForceLayout } from '../../../core/utils/force-layout.utils';
+import { LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+export type CoAppearanceGraphState = 'loading' | 'ready' | 'not-found' | 'error';
+
+/** Personaje central si la URL no indica ninguno (Rick Sanchez) */
+const DEFAULT_CENTER_ID = 1;
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+
+// Margen alrededor del grafo en unidades del SVG
+const VIEW_PADDING = 60;
+
+interface GraphRequest {
+  centerId: number;
+  depth: number;
+  minSharedEpisodes: number;
+}
+
+export interface PositionedNode extends CoAppearanceNode, LayoutPoint {
+  radius: number;
+  /** Episodios compartidos con el personaje central (null para el propio centro) */
+  sharedWithCenter: number | null;
+}
+
+export interface PositionedEdge {
+  key: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  sharedEpisodes: number;
+  width: number;
+}
+
+/**
+ * Lee un entero de la URL dentro de un rango, con valor por defecto
+ */
+function intParam(params: ParamMap, name: string, fallback: number, min: number, max: number): number {
+  const value = Number(params.get(name));
+  return params.has(name) && Number.isInteger(value) && value >= min && value <= max ? value : fallback;
+}
+
+@Component({
+  selector: 'app-co-appearance-graph',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatProgressSpinnerModule,
+    TranslatePipe,
+    LocalizedNumberPipe
+  ],
+  templateUrl: './co-appearance-graph.component.html',
+  styleUrls: ['./co-appearance-graph.component.scss']
+})
+export class CoAppearanceGraphComponent implements OnInit, OnDestroy {
+  private readonly graphService = inject(CoAppearanceGraphService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+  private readonly reload$ = new Subject<void>();
+
+  depthOptions = [1, 2, 3];
+  minSharedOptions = [1, 2, 3, 5, 10];
+
+  state = signal<CoAppearanceGraphState>('loading');
+  graph = signal<CoAppearanceGraph | null>(null);
+  request = signal<GraphRequest>({
+    centerId: DEFAULT_CENTER_ID,
+    depth: DEFAULT_CO_APPEARANCE_OPTIONS.depth,
+    minSharedEpisodes: DEFAULT_CO_APPEARANCE_OPTIONS.minSharedEpisodes
+  });
+
+  zoom = signal<number>(1);
+  pan = signal<LayoutPoint>({ x: 0, y: 0 });
+
+  center = computed<Character | null>(() => {
+    const graph = this.graph();
+    return graph?.nodes.find(node => node.character.id === graph.centerId)?.character ?? null;
+  });
+
+  // La distribución solo se recalcula cuando cambia el grafo, no al hacer zoom
+  private readonly layout = computed(() => {
+    const graph = this.graph();
+    if (!graph) return null;
+
+    const ids = graph.nodes.map(node => node.character.id);
+    const links = graph.edges.map(edge => ({ source: edge.source, target: edge.target, weight: edge.sharedEpisodes }));
+    return computeForceLayout(ids, links);
+  });
+
+  nodes = computed<PositionedNode[]>(() => {
+    const graph = this.graph();
+    const layout = this.layout();
+    if (!graph || !layout) return [];
+
+    const sharedWithCenter = new Map(graph.edges
+      .filter(edge => edge.source === graph.centerId || edge.target === graph.centerId)
+      .map(edge => [edge.source === graph.centerId ? edge.target : edge.source, edge.sharedEpisodes]));
+
+    return graph.nodes.map(node => ({
+      ...node,
+      ...layout.get(node.character.id)!,
+      radius: node.depth === 0 ? 30 : node.depth === 1 ? 18 : 13,
+      sharedWithCenter: node.depth === 0 ? null : sharedWithCenter.get(node.character.id) ?? 0
+    }));
+  });
+
+  edges = computed<PositionedEdge[]>(() => {
+    const graph = this.graph();
+    const layout = this.layout();
+    if (!graph || !layout) return [];
+
+    return graph.edges.map(edge => {
+      const source = layout.get(edge.source)!;
+      const target = layout.get(edge.target)!;
+      return {
+        key: `${edge.source}-${edge.target}`,
+        x1: source.x,
+        y1: source.y,
+        x2: target.x,
+        y2: target.y,
+        sharedEpisodes: edge.sharedEpisodes,
+        width: 1 + Math.log2(edge.sharedEpisodes)
+      };
+    });
+  });
+
+  // Caja que contiene todos los nodos; el zoom y el desplazamiento se aplican dentro
+  viewBox = computed(() => {
+    const nodes = this.nodes();
+    if (nodes.length === 0) return '-100 -100 200 200';
+
+    const minX = Math.min(...nodes.map(node => node.x - node.radius)) - VIEW_PADDING;
+    const maxX = Math.max(...nodes.map(node => node.x + node.radius)) + VIEW_PADDING;
+    const minY = Math.min(...nodes.map(node => node.y - node.radius)) - VIEW_PADDING;
+    const maxY = Math.max(...nodes.map(node => node.y + node.radius)) + VIEW_PADDING;
+    return `${minX} ${minY} ${maxX - minX} ${maxY - minY}`;
+  });
+
+  transform = computed(() => `translate(${this.pan().x} ${this.pan().y}) scale(${this.zoom()})`);
+
+  private dragStart: { pointerX: number; pointerY: number; pan: LayoutPoint; unitsPerPixel: number } | null = null;
+  // Un arrastre que termina sobre un nodo no debe recentrar el grafo
+  private dragged = false;
+
+  ngOnInit(): void {
+    // switchMap cancela la carga anterior si cambian los parámetros o se reintenta
+    this.reload$
+      .pipe(
+        switchMap(() => this.loadGraph(this.request())),
+        takeUntil(this.destroy$)
+      )
+      .subscribe();
+
+    this.route.queryParamMap
+      .pipe(
+        map(params => ({
+          centerId: intParam(params, 'id', DEFAULT_CENTER_ID, 1, Number.MAX_SAFE_INTEGER),
+          depth: intParam(params, 'depth', DEFAULT_CO_APPEARANCE_OPTIONS.depth, 1, Math.max(...this.depthOptions)),
+          minSharedEpisodes: intParam(params, 'min', DEFAULT_CO_APPEARANCE_OPTIONS.minSharedEpisodes, 1, 100)
+        })),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(request => {
+        this.request.set(request);
+        this.reload$.next();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga del grafo actual
+   */
+  retry(): void {
+    this.reload$.next();
+  }
+
+  /**
+   * Centra el grafo en otro personaje (conserva profundidad y umbral)
+   */
+  recenter(characterId: number): void {
+    if (characterId === this.request().centerId) return;
+    this.updateUrl({ centerId: characterId });
+  }
+
+  onNodeClick(characterId: number): void {
+    if (!this.dragged) {
+      this.recenter(characterId);
+    }
+  }
+
+  setDepth(depth: number): void {
+    this.updateUrl({ depth });
+  }
+
+  setMinSharedEpisodes(minSharedEpisodes: number): void {
+    this.updateUrl({ minSharedEpisodes });
+  }
+
+  zoomIn(): void {
+    this.setZoom(this.zoom() * ZOOM_STEP);
+  }
+
+  zoomOut(): void {
+    this.setZoom(this.zoom() / ZOOM_STEP);
+  }
+
+  resetView(): void {
+    this.zoom.set(1);
+    this.pan.set({ x: 0, y: 0 });
+  }
+
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    this.setZoom(this.zoom() * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+  }
+
+  /**
+   * Arrastrar el fondo desplaza el grafo
+   */
+  onPointerDown(event: PointerEvent): void {
+    const svg = event.currentTarget as SVGSVGElement;
+    const viewBoxWidth = Number(this.viewBox().split(' ')[2]);
+    const pixelWidth = svg.getBoundingClientRect().width || viewBoxWidth;
+
+    this.dragged = false;
+    this.dragStart = {
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      pan: this.pan(),
+      unitsPerPixel: viewBoxWidth / pixelWidth
+    };
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (!this.dragStart) return;
+
+    const { pointerX, pointerY, pan, unitsPerPixel } = this.dragStart;
+    this.dragged ||= Math.hypot(event.clientX - pointerX, event.clientY - pointerY) > 3;
+    this.pan.set({
+      x: pan.x + (event.clientX - pointerX) * unitsPerPixel,
+      y: pan.y + (event.clientY - pointerY) * unitsPerPixel
+    });
+  }
+
+  onPointerUp(): void {
+    this.dragStart = null;
+  }
+
+  private setZoom(zoom: number): void {
+    this.zoom.set(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)));
+  }
+
+  private updateUrl(changes: Partial<GraphRequest>): void {
+    const request = { ...this.request(), ...changes };
+    this.router.navigate(['/graph'], {
+      queryParams: { id: request.centerId, depth: request.depth, min: request.minSharedEpisodes }
+    });
+  }
+
+  private loadGraph(request: GraphRequest): Observable<void> {
+    const options: Partial<CoAppearanceGraphOptions> = {
+      depth: request.depth,
+      minSharedEpisodes: request.minSharedEpisodes
+    };
+
+    this.state.set('loading');
+
+    return this.graphService.buildGraph(request.centerId, options).pipe(
+      map(graph => {
+        this.graph.set(graph);
+        this.resetView();
+        this.state.set(graph ? 'ready' : 'not-found');
+      }),
+      catchError(() => {
+        this.graph.set(null);
+        this.state.set('error');
+        return of(undefined);
+      })
+    );
+  }
+}
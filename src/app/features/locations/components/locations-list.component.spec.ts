@@ -0,0 +1,140 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, of, throwError } from 'rxjs';
+
+import { LocationsListComponent } from './locations-list.component';
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { ApiResponse, Character } from '../../../core/models/character.model';
+import { LocationDetail } from '../../../core/models/location.model';
+
+describe('LocationsListComponent', () => {
+  let component: LocationsListComponent;
+  let fixture: ComponentFixture<LocationsListComponent>;
+  let mockApiService: jasmine.SpyObj<RickMortyApiService>;
+  let mockRouter: jasmine.SpyObj<Router>;
+
+  const residentIds = Array.from({ length: 45 }, (_, i) => i + 1);
+  const mockLocation: LocationDetail = {
+    id: 3,
+    name: 'Citadel of Ricks',
+    type: 'Space station',
+    dimension: 'unknown',
+    residents: residentIds.map(id => `https://rickandmortyapi.com/api/character/${id}`),
+    url: 'https://rickandmortyapi.com/api/location/3',
+    created: '2017-11-10T13:08:13.191Z'
+  };
+
+  const toCharacters = (ids: number[]): Character[] => ids.map(id => ({ id, name: `Rick ${id}` } as Character));
+
+  beforeEach(async () => {
+    mockApiService = jasmine.createSpyObj('RickMortyApiService', ['getLocations', 'getMultipleCharacters']);
+    mockRouter = jasmine.createSpyObj('Router', ['navigate']);
+
+    mockApiService.getLocations.and.returnValue(of({
+      info: { count: 1, pages: 1, next: null, prev: null },
+      results: [mockLocation]
+    }));
+    mockApiService.getMultipleCharacters.and.callFake((ids: number[]) => of(toCharacters(ids)));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        LocationsListComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: RickMortyApiService, useValue: mockApiService },
+        { provide: Router, useValue: mockRouter },
+        { provide: ActivatedRoute, useValue: { snapshot: { queryParams: { type: 'Space station' } } } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LocationsListComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería aplicar los filtros de los query params', () => {
+    fixture.detectChanges();
+
+    expect(mockApiService.getLocations).toHaveBeenCalledWith({
+      name: undefined,
+      type: 'Space station',
+      dimension: undefined,
+      page: 1
+    });
+    expect(component.locations().length).toBe(1);
+  });
+
+  it('debería cargar los residentes por lotes', () => {
+    fixture.detectChanges();
+
+    component.onLocationOpened(mockLocation);
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith(residentIds.slice(0, 20));
+
+    component.loadResidents(mockLocation);
+    component.loadResidents(mockLocation);
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith(residentIds.slice(40, 45));
+
+    expect(component.residents()[3]?.length).toBe(45);
+    expect(component.hasMoreResidents(mockLocation)).toBe(false);
+  });
+
+  it('debería avanzar por los residentes pedidos aunque falten algunos', () => {
+    // La API omite los IDs que no existen
+    mockApiService.getMultipleCharacters.and.callFake((ids: number[]) => of(toCharacters(ids.filter(id => id % 10 !== 0))));
+    fixture.detectChanges();
+
+    component.onLocationOpened(mockLocation);
+    component.loadResidents(mockLocation);
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith(residentIds.slice(20, 40));
+
+    component.loadResidents(mockLocation);
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledWith(residentIds.slice(40, 45));
+    expect(component.residents()[3]?.length).toBe(41);
+    expect(component.hasMoreResidents(mockLocation)).toBe(false);
+
+    component.loadResidents(mockLocation);
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledTimes(3);
+  });
+
+  it('no debería volver a cargar residentes al expandir de nuevo', () => {
+    fixture.detectChanges();
+
+    component.onLocationOpened(mockLocation);
+    component.onLocationOpened(mockLocation);
+
+    expect(mockApiService.getMultipleCharacters).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería descartar la respuesta pendiente al cambiar los filtros', fakeAsync(() => {
+    const pending = new Subject<ApiResponse<LocationDetail>>();
+    mockApiService.getLocations.and.returnValue(pending);
+    fixture.detectChanges();
+
+    const earth = { ...mockLocation, id: 1, name: 'Earth (C-137)', type: 'Planet' };
+    mockApiService.getLocations.and.returnValue(of({ info: { count: 1, pages: 1, next: null, prev: null }, results: [earth] }));
+    component.filtersForm.patchValue({ type: 'Planet' });
+    tick(300);
+
+    pending.next({ info: { count: 1, pages: 1, next: null, prev: null }, results: [mockLocation] });
+
+    expect(component.locations().map(location => location.id)).toEqual([1]);
+    expect(component.loading()).toBe(false);
+  }));
+
+  it('debería mostrar un error con reintento en lugar de la lista vacía', () => {
+    spyOn(console, 'error');
+    mockApiService.getLocations.and.returnValue(throwError(() => new Error('500')));
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.textContent).toContain('The locations could not be loaded');
+    expect(element.textContent).not.toContain('No locations found');
+
+    mockApiService.getLocations.and.returnValue(of({ info: { count: 1, pages: 1, next: null, prev: null }, results: [mockLocation] }));
+    (element.querySelector('.retry-button') as HTMLButtonElement).click();
+
+    expect(component.loadError()).toBe(false);
+    expect(component.locations().length).toBe(1);
+  });
+});
@@ -0,0 +1,307 @@
+import { Component, OnInit, OnDestroy, inject, signal, ViewChild, ElementRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { Router, ActivatedRoute } from '@angular/router';
+import { MatInputModule } from '@angular/material/input';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { Subject, Subscription, debounceTime, distinctUntilChanged, takeUntil } from 'rxjs';
+
+import { RickMortyApiService } from '../../../core/services/rick-morty-api.service';
+import { Character } from '../../../core/models/character.model';
+import { LocationDetail, LocationFilters } from '../../../core/models/location.model';
+import { extractIdsFromUrls } from '../../../core/utils/api-url.utils';
+import { LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+@Component({
+  selector: 'app-locations-list',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatInputModule,
+    MatFormFieldModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCardModule,
+    MatProgressSpinnerModule,
+    MatChipsModule,
+    MatExpansionModule,
+    TranslatePipe,
+    LocalizedNumberPipe
+  ],
+  templateUrl: './locations-list.component.html',
+  styleUrls: ['./locations-list.component.scss']
+})
+export class LocationsListComponent implements OnInit, OnDestroy {
+  private readonly apiService = inject(RickMortyApiService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+
+  /**
+   * El sentinel se crea y destruye con cada carga, por eso se observa
+   * cada vez que Angular lo vuelve a insertar en el DOM
+   */
+  @ViewChild('scrollSentinel')
+  set scrollSentinel(sentinel: ElementRef | undefined) {
+    this.intersectionObserver?.disconnect();
+    if (sentinel?.nativeElement) {
+      this.intersectionObserver?.observe(sentinel.nativeElement);
+    }
+  }
+
+  // Signals para estado reactivo
+  locations = signal<LocationDetail[]>([]);
+  loading = signal<boolean>(false);
+  loadingMore = signal<boolean>(false);
+  totalCount = signal<number>(0);
+  currentPage = signal<number>(1);
+  hasMore = signal<boolean>(true);
+  // Error de la última carga: sin ubicaciones se muestra en lugar del listado
+  loadError = signal<boolean>(false);
+
+  // Residentes por ID de ubicación, resueltos por lotes al expandir
+  residents = signal<Partial<Record<number, Character[]>>>({});
+  loadingResidents = signal<number[]>([]);
+  // Residentes ya pedidos por ubicación: los IDs inexistentes no llegan en la respuesta,
+  // así que el siguiente lote no se puede calcular a partir de los cargados
+  private residentsOffset = signal<Partial<Record<number, number>>>({});
+
+  // Cantidad de residentes que se piden en cada llamada a getMultipleCharacters
+  readonly residentsBatchSize = 20;
+
+  // Formulario de filtros
+  filtersForm = new FormGroup({
+    name: new FormControl<string>(''),
+    type: new FormControl<string>(''),
+    dimension: new FormControl<string>('')
+  });
+
+  // IntersectionObserver para infinite scroll
+  private intersectionObserver = typeof IntersectionObserver !== 'undefined'
+    ? new IntersectionObserver((entries) => {
+        if (entries.some(entry => entry.isIntersecting) && this.hasMore() && !this.isLoadingPage) {
+          this.loadNextPage();
+        }
+      }, { root: null, rootMargin: '100px', threshold: 0.1 })
+    : undefined;
+  private isLoadingPage = false;
+  private pageRequest?: Subscription;
+
+  ngOnInit(): void {
+    this.loadInitialData();
+    this.setupFiltersObserver();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.intersectionObserver?.disconnect();
+  }
+
+  /**
+   * Carga los datos iniciales a partir de los query params
+   */
+  private loadInitialData(): void {
+    const params = this.route.snapshot.queryParams;
+
+    this.filtersForm.patchValue({
+      name: params['name'] || '',
+      type: params['type'] || '',
+      dimension: params['dimension'] || ''
+    }, { emitEvent: false });
+
+    this.loadLocations(1);
+  }
+
+  /**
+   * Configura el observador de cambios en filtros
+   */
+  private setupFiltersObserver(): void {
+    this.filtersForm.valueChanges
+      .pipe(
+        debounceTime(300),
+        distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this.currentPage.set(1);
+        this.locations.set([]);
+        this.hasMore.set(true);
+        this.updateUrlParams();
+        this.loadLocations(1);
+      });
+  }
+
+  /**
+   * Actualiza los query params de la URL con los filtros actuales
+   */
+  private updateUrlParams(): void {
+    const { name, type, dimension } = this.filtersForm.value;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        name: name || null,
+        type: type || null,
+        dimension: dimension || null
+      },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  /**
+   * Carga ubicaciones de una página específica
+   */
+  private loadLocations(page: number, append: boolean = false): void {
+    // Un cambio de filtros cancela la carga en curso
+    if (page === 1) {
+      this.pageRequest?.unsubscribe();
+      this.isLoadingPage = false;
+    }
+    if (this.isLoadingPage) return;
+
+    this.isLoadingPage = true;
+    this.loadError.set(false);
+
+    if (page === 1) {
+      this.loading.set(true);
+    } else {
+      this.loadingMore.set(true);
+    }
+
+    const filters = this.filtersForm.value;
+    const apiFilters: LocationFilters = {
+      name: filters.name || undefined,
+      type: filters.type || undefined,
+      dimension: filters.dimension || undefined,
+      page
+    };
+
+    this.pageRequest = this.apiService.getLocations(apiFilters)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (response) => {
+          this.locations.set(append ? [...this.locations(), ...response.results] : response.results);
+          this.totalCount.set(response.info.count);
+          this.currentPage.set(page);
+          this.hasMore.set(page < response.info.pages);
+
+          this.loading.set(false);
+          this.loadingMore.set(false);
+          this.isLoadingPage = false;
+        },
+        error: (error) => {
+          console.error('Error loading locations:', error);
+          if (!append) {
+            this.locations.set([]);
+          }
+          this.loadError.set(true);
+          this.loading.set(false);
+          this.loadingMore.set(false);
+          this.isLoadingPage = false;
+        }
+      });
+  }
+
+  /**
+   * Carga la siguiente página de ubicaciones (para infinite scroll)
+   */
+  loadNextPage(): void {
+    if (!this.hasMore() || this.isLoadingPage || this.loadError()) return;
+    this.loadLocations(this.currentPage() + 1, true);
+  }
+
+  /**
+   * Reintenta la última carga fallida: la primera página si no hay ubicaciones,
+   * o la siguiente página si falló el infinite scroll
+   */
+  retryLoad(): void {
+    if (this.locations().length === 0) {
+      this.loadLocations(1);
+    } else {
+      this.loadLocations(this.currentPage() + 1, true);
+    }
+  }
+
+  /**
+   * Carga el siguiente lote de residentes de una ubicación
+   */
+  loadResidents(location: LocationDetail): void {
+    if (this.isResidentsLoading(location.id) || !this.hasMoreResidents(location)) return;
+
+    const offset = this.residentsOffset()[location.id] ?? 0;
+    const batch = extractIdsFromUrls(location.residents).slice(offset, offset + this.residentsBatchSize);
+
+    this.loadingResidents.update(ids => [...ids, location.id]);
+
+    this.apiService.getMultipleCharacters(batch)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (characters) => {
+          this.residents.update(residents => ({
+            ...residents,
+            [location.id]: [...(residents[location.id] ?? []), ...characters]
+          }));
+          this.residentsOffset.update(offsets => ({ ...offsets, [location.id]: offset + this.residentsBatchSize }));
+          this.loadingResidents.update(ids => ids.filter(id => id !== location.id));
+        },
+        error: (error) => {
+          console.error('Error loading residents:', error);
+          this.loadingResidents.update(ids => ids.filter(id => id !== location.id));
+        }
+      });
+  }
+
+  /**
+   * Carga el primer lote de residentes la primera vez que se expande la ubicación
+   */
+  onLocationOpened(location: LocationDetail): void {
+    if (this.residentsOffset()[location.id] === undefined) {
+      this.loadResidents(location);
+    }
+  }
+
+  /**
+   * Verifica si quedan residentes por cargar en una ubicación
+   */
+  hasMoreResidents(location: LocationDetail): boolean {
+    return (this.residentsOffset()[location.id] ?? 0) < location.residents.length;
+  }
+
+  /**
+   * Verifica si los residentes de una ubicación se están cargando
+   */
+  isResidentsLoading(locationId: number): boolean {
+    return this.loadingResidents().includes(locationId);
+  }
+
+  /**
+   * Navega a la página de detalle del personaje
+   */
+  openCharacter(character: Character): void {
+    this.router.navigate(['/characters', character.id]);
+  }
+
+  /**
+   * Verifica si hay filtros activos
+   */
+  hasActiveFilters(): boolean {
+    const values = this.filtersForm.value;
+    return !!(values.name || values.type || values.dimension);
+  }
+
+  /**
+   * Limpia todos los filtros
+   */
+  clearFilters(): void {
+    this.filtersForm.reset({ name: '', type: '', dimension: '' });
+  }
+}
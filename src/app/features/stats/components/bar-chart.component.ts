@@ -0,0 +1,88 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { StatBucket } from '../../../core/utils/character-stats.utils';
+import { LocalizedNumberPipe } from '../../../core/i18n/i18n.pipes';
+
+export type BarChartOrientation = 'horizontal' | 'vertical';
+
+interface BarLayout {
+  bucket: StatBucket;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  showLabel: boolean;
+}
+
+// Dimensiones en unidades del viewBox
+const WIDTH = 600;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 160;
+const COUNT_WIDTH = 50;
+const COLUMNS_HEIGHT = 200;
+const AXIS_HEIGHT = 40;
+// Con muchas columnas solo se rotula una de cada N
+const MAX_COLUMN_LABELS = 12;
+
+/**
+ * Gráfico de barras en SVG: horizontal para categorías y vertical para series
+ * (meses, intervalos). Las barras con filtro se pueden pulsar.
+ */
+@Component({
+  selector: 'app-bar-chart',
+  standalone: true,
+  imports: [CommonModule, LocalizedNumberPipe],
+  templateUrl: './bar-chart.component.html',
+  styleUrls: ['./bar-chart.component.scss']
+})
+export class BarChartComponent {
+  readonly buckets = input.required<StatBucket[]>();
+  readonly orientation = input<BarChartOrientation>('horizontal');
+  readonly label = input<string>('');
+  readonly segmentClick = output<StatBucket>();
+
+  readonly width = WIDTH;
+  readonly labelWidth = LABEL_WIDTH;
+
+  height = computed(() => this.orientation() === 'horizontal'
+    ? Math.max(this.buckets().length, 1) * ROW_HEIGHT
+    : COLUMNS_HEIGHT + AXIS_HEIGHT);
+
+  bars = computed<BarLayout[]>(() => {
+    const buckets = this.buckets();
+    const max = Math.max(...buckets.map(bucket => bucket.count), 1);
+
+    if (this.orientation() === 'horizontal') {
+      const available = WIDTH - LABEL_WIDTH - COUNT_WIDTH;
+      return buckets.map((bucket, i) => ({
+        bucket,
+        x: LABEL_WIDTH,
+        y: i * ROW_HEIGHT + 4,
+        width: bucket.count / max * available,
+        height: ROW_HEIGHT - 8,
+        showLabel: true
+      }));
+    }
+
+    const slot = WIDTH / Math.max(buckets.length, 1);
+    const labelEvery = Math.ceil(buckets.length / MAX_COLUMN_LABELS);
+    return buckets.map((bucket, i) => {
+      const height = bucket.count / max * COLUMNS_HEIGHT;
+      return {
+        bucket,
+        x: i * slot + slot * 0.1,
+        y: COLUMNS_HEIGHT - height,
+        width: slot * 0.8,
+        height,
+        showLabel: i % labelEvery === 0
+      };
+    });
+  });
+
+  select(bucket: StatBucket): void {
+    if (bucket.filter) {
+      this.segmentClick.emit(bucket);
+    }
+  }
+}
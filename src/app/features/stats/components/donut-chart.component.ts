@@ -0,0 +1,63 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { StatBucket } from '../../../core/utils/character-stats.utils';
+import { LocalizedNumberPipe, TranslatePipe } from '../../../core/i18n/i18n.pipes';
+
+interface DonutSegment {
+  bucket: StatBucket;
+  color: string;
+  dashArray: string;
+  dashOffset: number;
+  percent: number;
+}
+
+const RADIUS = 70;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+const PALETTE = ['#3f51b5', '#ff4081', '#4caf50', '#ff9800', '#9c27b0', '#00bcd4', '#795548', '#607d8b', '#cddc39'];
+
+/**
+ * Gráfico de anillo en SVG con leyenda. Los segmentos con filtro se pueden pulsar.
+ */
+@Component({
+  selector: 'app-donut-chart',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, LocalizedNumberPipe],
+  templateUrl: './donut-chart.component.html',
+  styleUrls: ['./donut-chart.component.scss']
+})
+export class DonutChartComponent {
+  readonly buckets = input.required<StatBucket[]>();
+  readonly label = input<string>('');
+  readonly segmentClick = output<StatBucket>();
+
+  readonly radius = RADIUS;
+
+  total = computed(() => this.buckets().reduce((sum, bucket) => sum + bucket.count, 0));
+
+  // Cada segmento es el mismo círculo con un trazo discontinuo desplazado
+  segments = computed<DonutSegment[]>(() => {
+    const total = this.total() || 1;
+    let offset = 0;
+
+    return this.buckets().map((bucket, i) => {
+      const length = bucket.count / total * CIRCUMFERENCE;
+      const segment = {
+        bucket,
+        color: PALETTE[i % PALETTE.length],
+        dashArray: `${length} ${CIRCUMFERENCE - length}`,
+        dashOffset: -offset,
+        percent: bucket.count / total * 100
+      };
+      offset += length;
+      return segment;
+    });
+  });
+
+  select(bucket: StatBucket): void {
+    if (bucket.filter) {
+      this.segmentClick.emit(bucket);
+    }
+  }
+}
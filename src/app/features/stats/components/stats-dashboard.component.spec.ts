@@ -0,0 +1,122 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
+import { ActivatedRoute, Router, convertToParamMap } from '@angular/router';
+import { BehaviorSubject, Subject, of, throwError } from 'rxjs';
+
+import { StatsDashboardComponent } from './stats-dashboard.component';
+import { CharacterStats, CharacterStatsProgress, CharacterStatsService } from '../../../core/services/character-stats.service';
+
+describe('StatsDashboardComponent', () => {
+  let component: StatsDashboardComponent;
+  let fixture: ComponentFixture<StatsDashboardComponent>;
+  let mockStatsService: jasmine.SpyObj<CharacterStatsService>;
+  let mockRouter: jasmine.SpyObj<Router>;
+  let queryParamMap$: BehaviorSubject<ReturnType<typeof convertToParamMap>>;
+
+  const stats: CharacterStats = {
+    total: 3,
+    status: [
+      { label: 'Alive', count: 2, filter: { status: 'Alive' } },
+      { label: 'Dead', count: 1, filter: { status: 'Dead' } }
+    ],
+    gender: [{ label: 'Male', count: 3, filter: { gender: 'Male' } }],
+    species: [{ label: 'Human', count: 3, filter: { species: 'Human' } }],
+    originDimension: null,
+    createdOverTime: [{ label: '2017-11', count: 3, filter: { createdStartDate: '2017-11-01', createdEndDate: '2017-11-30' } }],
+    episodeCount: [{ label: '1', count: 3, filter: null }]
+  };
+
+  beforeEach(async () => {
+    mockStatsService = jasmine.createSpyObj('CharacterStatsService', ['getStats']);
+    mockStatsService.getStats.and.returnValue(of({ loadedPages: 1, totalPages: 1, stats }));
+    mockRouter = jasmine.createSpyObj('Router', ['navigate']);
+    queryParamMap$ = new BehaviorSubject(convertToParamMap({ status: 'Alive', gender: 'Robot', name: 'rick' }));
+
+    await TestBed.configureTestingModule({
+      imports: [
+        StatsDashboardComponent,
+        BrowserAnimationsModule
+      ],
+      providers: [
+        { provide: CharacterStatsService, useValue: mockStatsService },
+        { provide: Router, useValue: mockRouter },
+        { provide: ActivatedRoute, useValue: { queryParamMap: queryParamMap$ } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(StatsDashboardComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('debería calcular las estadísticas con los filtros válidos de la URL', () => {
+    fixture.detectChanges();
+
+    expect(mockStatsService.getStats).toHaveBeenCalledWith({ name: 'rick', status: 'Alive' });
+    expect(component.filtersForm.getRawValue()).toEqual({ name: 'rick', status: 'Alive', species: '', gender: '' });
+    expect(component.state()).toBe('ready');
+    expect(fixture.nativeElement.querySelectorAll('.chart-card').length).toBe(6);
+  });
+
+  it('debería mostrar el progreso de carga de las páginas', () => {
+    const progress$ = new Subject<CharacterStatsProgress>();
+    mockStatsService.getStats.and.returnValue(progress$);
+    fixture.detectChanges();
+
+    progress$.next({ loadedPages: 2, totalPages: 5, stats: null });
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('loading');
+    expect(fixture.nativeElement.textContent).toContain('2 of 5 pages');
+  });
+
+  it('debería mostrar el error y reintentar', () => {
+    mockStatsService.getStats.and.returnValue(throwError(() => new Error('boom')));
+    fixture.detectChanges();
+
+    expect(component.state()).toBe('error');
+
+    mockStatsService.getStats.and.returnValue(of({ loadedPages: 1, totalPages: 1, stats }));
+    component.retry();
+
+    expect(mockStatsService.getStats).toHaveBeenCalledTimes(2);
+    expect(component.state()).toBe('ready');
+  });
+
+  it('debería llevar los cambios del formulario a la URL', fakeAsync(() => {
+    fixture.detectChanges();
+
+    component.filtersForm.controls.species.setValue(' Alien ');
+    tick(400);
+
+    expect(mockRouter.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+      queryParams: { name: 'rick', status: 'Alive', species: 'Alien' },
+      replaceUrl: true
+    }));
+  }));
+
+  it('debería recalcular al cambiar los filtros de la URL', () => {
+    fixture.detectChanges();
+
+    queryParamMap$.next(convertToParamMap({ species: 'Alien' }));
+
+    expect(mockStatsService.getStats).toHaveBeenCalledWith({ species: 'Alien' });
+  });
+
+  it('debería abrir el listado con los filtros actuales y los del segmento', () => {
+    fixture.detectChanges();
+
+    component.openCharacters(stats.status[1]);
+
+    expect(mockRouter.navigate).toHaveBeenCalledWith(['/characters'], {
+      queryParams: { name: 'rick', status: 'Dead' }
+    });
+  });
+
+  it('no debería navegar desde segmentos sin filtro', () => {
+    fixture.detectChanges();
+
+    component.openCharacters(stats.episodeCount[0]);
+
+    expect(mockRouter.navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+import { Component, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { Router, ActivatedRoute, ParamMap } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Subject, catchError, debounceTime, distinctUntilChanged, map, of, switchMap, takeUntil, tap } from 'rxjs';
+
+import { CharacterStats, CharacterStatsService, STATS_TOP_N } from '../../../core/services/character-stats.service';
+import { CHARACTER_GENDERS, CHARACTER_STATUSES, CharacterFilters, CharacterGender, CharacterStatus } from '../../../core/models/character.model';
+import { isCharacterGender, isCharacterStatus, normalizeCharacterFilters } from '../../../core/utils/character-filters.utils';
+import { OTHER_BUCKET_LABEL, StatBucket } from '../../../core/utils/character-stats.utils';
+import { I18nService } from '../../../core/services/i18n.service';
+import { MessageKey } from '../../../core/i18n/messages.en';
+import { TranslatePipe } from '../../../core/i18n/i18n.pipes';
+import { GENDER_KEYS, STATUS_KEYS } from '../../../core/i18n/message-keys';
+import { BarChartComponent } from './bar-chart.component';
+import { DonutChartComponent } from './donut-chart.component';
+
+export type StatsState = 'loading' | 'ready' | 'error';
+
+/**
+ * Lee de la URL los filtros que acepta la API, descartando estados y géneros inválidos
+ */
+function filtersFromParams(params: ParamMap): CharacterFilters {
+  const status = params.get('status');
+  const gender = params.get('gender');
+  return normalizeCharacterFilters({
+    name: params.get('name') ?? undefined,
+    status: isCharacterStatus(status) ? status : undefined,
+    species: params.get('species') ?? undefined,
+    gender: isCharacterGender(gender) ? gender : undefined
+  });
+}
+
+@Component({
+  selector: 'app-stats-dashboard',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatInputModule,
+    MatSelectModule,
+    MatFormFieldModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    TranslatePipe,
+    BarChartComponent,
+    DonutChartComponent
+  ],
+  templateUrl: './stats-dashboard.component.html',
+  styleUrls: ['./stats-dashboard.component.scss']
+})
+export class StatsDashboardComponent implements OnInit, OnDestroy {
+  private readonly statsService = inject(CharacterStatsService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly i18n = inject(I18nService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly reload$ = new Subject<void>();
+
+  state = signal<StatsState>('loading');
+  stats = signal<CharacterStats | null>(null);
+  progress = signal<{ loaded: number; total: number } | null>(null);
+  filters = signal<CharacterFilters>({});
+
+  // Estadísticas con las etiquetas de estado, género y los grupos "unknown" y "Other" traducidos
+  localizedStats = computed<CharacterStats | null>(() => {
+    const stats = this.stats();
+    if (!stats) return null;
+    return {
+      ...stats,
+      status: this.localizeBuckets(stats.status, 'status'),
+      gender: this.localizeBuckets(stats.gender, 'gender'),
+      species: this.localizeBuckets(stats.species),
+      originDimension: stats.originDimension && this.localizeBuckets(stats.originDimension)
+    };
+  });
+
+  topN = STATS_TOP_N;
+  statusOptions = CHARACTER_STATUSES;
+  genderOptions = CHARACTER_GENDERS;
+  statusKeys = STATUS_KEYS;
+  genderKeys = GENDER_KEYS;
+
+  filtersForm = new FormGroup({
+    name: new FormControl<string>('', { nonNullable: true }),
+    status: new FormControl<CharacterStatus | ''>('', { nonNullable: true }),
+    species: new FormControl<string>('', { nonNullable: true }),
+    gender: new FormControl<CharacterGender | ''>('', { nonNullable: true })
+  });
+
+  ngOnInit(): void {
+    // switchMap cancela la carga anterior si cambian los filtros o se reintenta
+    this.reload$
+      .pipe(
+        tap(() => {
+          this.state.set('loading');
+          this.progress.set(null);
+        }),
+        switchMap(() => this.statsService.getStats(this.filters()).pipe(
+          catchError(error => {
+            console.error('Error loading statistics:', error);
+            this.state.set('error');
+            return of(null);
+          })
+        )),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(progress => {
+        if (!progress) return;
+        this.progress.set({ loaded: progress.loadedPages, total: progress.totalPages });
+        if (progress.stats) {
+          this.stats.set(progress.stats);
+          this.state.set('ready');
+        }
+      });
+
+    this.route.queryParamMap
+      .pipe(
+        map(params => filtersFromParams(params)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(filters => {
+        this.filters.set(filters);
+        this.filtersForm.setValue({
+          name: filters.name ?? '',
+          status: filters.status ?? '',
+          species: filters.species ?? '',
+          gender: filters.gender ?? ''
+        }, { emitEvent: false });
+        this.reload$.next();
+      });
+
+    this.filtersForm.valueChanges
+      .pipe(
+        debounceTime(400),
+        map(() => normalizeCharacterFilters(this.formFilters())),
+        distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(filters => {
+        this.router.navigate([], { relativeTo: this.route, queryParams: filters, replaceUrl: true });
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reintenta la carga de las estadísticas
+   */
+  retry(): void {
+    this.reload$.next();
+  }
+
+  clearFilters(): void {
+    this.filtersForm.setValue({ name: '', status: '', species: '', gender: '' });
+  }
+
+  hasActiveFilters(): boolean {
+    return Object.keys(this.filters()).length > 0;
+  }
+
+  /**
+   * Abre el listado de personajes con los filtros actuales más el del segmento pulsado
+   */
+  openCharacters(bucket: StatBucket): void {
+    if (!bucket.filter) return;
+    this.router.navigate(['/characters'], { queryParams: { ...this.filters(), ...bucket.filter } });
+  }
+
+  private localizeBuckets(buckets: StatBucket[], valuePrefix?: 'status' | 'gender'): StatBucket[] {
+    return buckets.map(bucket => {
+      if (valuePrefix) {
+        return { ...bucket, label: this.i18n.t(`${valuePrefix}.${bucket.label}` as MessageKey) };
+      }
+      if (bucket.label === OTHER_BUCKET_LABEL && !bucket.filter) {
+        return { ...bucket, label: this.i18n.t('stats.other') };
+      }
+      return bucket.label === 'unknown' ? { ...bucket, label: this.i18n.t('common.unknown') } : bucket;
+    });
+  }
+
+  private formFilters(): CharacterFilters {
+    const value = this.filtersForm.getRawValue();
+    return {
+      name: value.name || undefined,
+      status: value.status || undefined,
+      species: value.species || undefined,
+      gender: value.gender || undefined
+    };
+  }
+}
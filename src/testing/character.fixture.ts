@@ -0,0 +1,22 @@
+import { Character } from '../app/core/models/character.model';
+
+/**
+ * Personaje de prueba con valores por defecto; cada spec indica solo los campos que le importan
+ */
+export function createCharacter(id: number, overrides: Partial<Character> = {}): Character {
+  return {
+    id,
+    name: `Character ${id}`,
+    status: 'Alive',
+    species: 'Human',
+    type: '',
+    gender: 'Male',
+    origin: { name: 'Earth', url: '' },
+    location: { name: 'Earth', url: '' },
+    image: '',
+    episode: [],
+    url: '',
+    created: '2017-11-04T18:48:46.250Z',
+    ...overrides
+  };
+}